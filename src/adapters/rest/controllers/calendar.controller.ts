@@ -0,0 +1,129 @@
+import { Controller, Post, Get, Param, Query, Logger, UseGuards } from '@nestjs/common';
+import { AccessScheduleService } from '@core/access-schedule.service';
+import { ICalendarParseError } from '@core/holiday-calendar';
+import { LockConfigService } from '@core/lock-config.service';
+import { RequireAccessLevel } from '../decorators/require-access-level.decorator';
+import { VcAuthGuard } from '../guards/vc-auth.guard';
+
+/**
+ * Controller for lock holiday calendars (iCalendar imports that block or allow
+ * scheduled credentials on specific dates)
+ * lockId may be omitted when the gateway manages a single lock
+ */
+@Controller('calendars')
+export class CalendarController {
+  private readonly logger = new Logger(CalendarController.name);
+
+  constructor(
+    private readonly accessScheduleService: AccessScheduleService,
+    private readonly lockConfigService: LockConfigService,
+  ) {}
+
+  /**
+   * List a lock's holiday calendars
+   * GET /api/v1/calendars?lockId=1
+   */
+  @Get()
+  async getCalendars(@Query('lockId') lockIdParam?: string) {
+    try {
+      const lockId = this.lockConfigService.resolveLockId({ lockId: lockIdParam });
+      const calendars = await this.accessScheduleService.getCalendars(lockId);
+      return {
+        success: true,
+        lockId,
+        timeZone: this.lockConfigService.getTimeZone(lockId),
+        calendars: calendars.map((calendar) => ({
+          id: calendar.id,
+          name: calendar.name,
+          mode: calendar.mode,
+          source: calendar.source,
+          events: calendar.events.length,
+          importedAt: calendar.importedAt,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  /**
+   * Import an iCalendar file for a lock
+   * POST /api/v1/calendars/import?lockId=1&source=https://example.com/holidays.ics&mode=block&name=Public%20holidays
+   * source is an http(s) URL or a file in HOLIDAY_CALENDAR_DIR; mode is block (default) or allow
+   * Requires admin-level Verifiable Credential for authorization
+   */
+  @Post('import')
+  @UseGuards(VcAuthGuard)
+  @RequireAccessLevel('admin')
+  async importCalendar(
+    @Query('lockId') lockIdParam: string,
+    @Query('source') source: string,
+    @Query('mode') mode?: 'block' | 'allow',
+    @Query('name') name?: string,
+  ) {
+    try {
+      const lockId = this.lockConfigService.resolveLockId({ lockId: lockIdParam });
+      this.logger.log(`📅 Holiday calendar import for Lock ${lockId}: ${source}`);
+
+      const { calendar, skipped } = await this.accessScheduleService.importCalendar(
+        lockId,
+        source,
+        { name, mode },
+      );
+      return {
+        success: true,
+        lockId,
+        calendar: {
+          id: calendar.id,
+          name: calendar.name,
+          mode: calendar.mode,
+          events: calendar.events.length,
+          skipped,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      if (error instanceof ICalendarParseError) {
+        this.logger.warn(`❌ Holiday calendar rejected: ${error.message}`);
+      } else {
+        this.logger.error(`❌ Holiday calendar import failed: ${error.message}`);
+      }
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  /**
+   * POST /api/v1/calendars/:id/remove?lockId=1
+   * Requires admin-level Verifiable Credential for authorization
+   */
+  @Post(':id/remove')
+  @UseGuards(VcAuthGuard)
+  @RequireAccessLevel('admin')
+  async removeCalendar(@Param('id') id: string, @Query('lockId') lockIdParam?: string) {
+    try {
+      const lockId = this.lockConfigService.resolveLockId({ lockId: lockIdParam });
+      await this.accessScheduleService.removeCalendar(lockId, Number(id));
+      return {
+        success: true,
+        message: `Holiday calendar ${id} removed`,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`❌ Removing holiday calendar ${id} failed: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+}
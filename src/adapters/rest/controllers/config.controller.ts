@@ -1,12 +1,21 @@
-import { Controller, Post, Get, Body, Logger, UseGuards } from '@nestjs/common';
-import { LockConfigService } from '@core/lock-config.service';
+import { Controller, Post, Get, Body, Param, Query, Logger, UseGuards } from '@nestjs/common';
+import { LockConfigService, LockConfigValidationError } from '@core/lock-config.service';
 import { BlockchainListenerService } from '@core/blockchain-listener.service';
+import {
+  RevocationSnapshot,
+  SnapshotService,
+  SnapshotValidationError,
+} from '@core/snapshot.service';
 import { RequireAccessLevel } from '../decorators/require-access-level.decorator';
+import { RequireGatewayAdmin } from '../decorators/require-gateway-admin.decorator';
 import { ConfigGuard } from '../guards/config.guard';
+import { SnapshotImportGuard } from '../guards/snapshot-import.guard';
 import { VcAuthGuard } from '../guards/vc-auth.guard';
 
 /**
  * Controller for lock configuration management
+ * The gateway can manage several locks: the first one is set up with POST /config/init,
+ * further locks are added / removed by an admin via /config/locks
  */
 @Controller('config')
 export class ConfigController {
@@ -15,29 +24,69 @@ export class ConfigController {
   constructor(
     private readonly lockConfigService: LockConfigService,
     private readonly blockchainListener: BlockchainListenerService,
+    private readonly snapshotService: SnapshotService,
   ) {}
 
   /**
    * Initialize lock configuration
    * POST /api/v1/config/init
-   * Body: { lockId: number, publicKey: string }
+   * Body: { lockId: number, publicKey: string, nickname?: string, location?: string,
+   *         timeZone?: string, dryRun?: boolean }
    * Protected by AccessGuard - can only be called once until reset
+   * The lock must exist on-chain and the public key must derive to its signer address.
+   * With dryRun the configuration is validated and reported but not saved.
    */
   @Post('init')
   @UseGuards(ConfigGuard)
-  async initializeLock(@Body() body: { lockId: number; publicKey: string }) {
+  async initializeLock(
+    @Body()
+    body: {
+      lockId: number;
+      publicKey: string;
+      nickname?: string;
+      location?: string;
+      timeZone?: string;
+      dryRun?: boolean;
+    },
+  ) {
     try {
       this.logger.log(`\n${'='.repeat(80)}`);
-      this.logger.log(`🔧 LOCK INITIALIZATION REQUEST`);
+      this.logger.log(`🔧 LOCK INITIALIZATION REQUEST${body.dryRun ? ' (dry run)' : ''}`);
       this.logger.log(`${'='.repeat(80)}`);
       this.logger.log(`🔢 Lock ID:     ${body.lockId}`);
       this.logger.log(`🔑 Public Key:  ${body.publicKey?.substring(0, 20)}...`);
 
-      // Configure the lock service
-      await this.lockConfigService.configure(body.lockId, body.publicKey);
+      if (body.dryRun) {
+        const validation = await this.lockConfigService.configure(body.lockId, body.publicKey, {
+          dryRun: true,
+        });
+        this.logger.log(`🧪 Dry run: ${validation.valid ? 'valid' : 'invalid'} configuration`);
+        return {
+          success: validation.valid,
+          dryRun: true,
+          message: validation.valid
+            ? 'Configuration is valid and would be applied'
+            : 'Configuration is invalid',
+          errors: validation.errors,
+          wouldConfigure: {
+            lockId: validation.lockId,
+            publicKey: body.publicKey ? `${body.publicKey.substring(0, 10)}...` : null,
+            signerAddress: validation.signerAddress,
+          },
+          lockInfo: validation.lockInfo,
+          timestamp: new Date().toISOString(),
+        };
+      }
 
-      // Initialize blockchain listener with new lockId
-      await this.blockchainListener.initialize(body.lockId);
+      // Configure the lock service (validates against the contract)
+      const validation = await this.lockConfigService.configure(body.lockId, body.publicKey, {
+        nickname: body.nickname,
+        location: body.location,
+        timeZone: body.timeZone,
+      });
+
+      // Initialize blockchain listener with the configured locks
+      await this.blockchainListener.initialize(this.lockConfigService.getLockIds());
 
       this.logger.log(`✅ Lock initialized successfully!`);
       this.logger.log(`${'='.repeat(80)}\n`);
@@ -46,9 +95,20 @@ export class ConfigController {
         success: true,
         message: 'Lock initialized successfully',
         lockId: body.lockId,
+        signerAddress: validation.signerAddress,
+        ownerAddress: validation.lockInfo?.owner ?? null,
         timestamp: new Date().toISOString(),
       };
     } catch (error) {
+      if (error instanceof LockConfigValidationError) {
+        this.logger.warn(`❌ Initialization rejected: ${error.message}`);
+        return {
+          success: false,
+          error: error.message,
+          errors: error.errors,
+          timestamp: new Date().toISOString(),
+        };
+      }
       this.logger.error(`❌ Initialization failed: ${error.message}`, error.stack);
       return {
         success: false,
@@ -58,6 +118,202 @@ export class ConfigController {
     }
   }
 
+  /**
+   * Bootstrap a new device from a signed revocation snapshot (see POST /api/v1/sync/snapshot)
+   * POST /api/v1/config/snapshot?lockId=1&dryRun=true
+   * Body: the snapshot JSON before init; once a lock is configured
+   * { credential: <admin VC for the gateway lock>, snapshot }
+   * Only allowed for a lock that is not configured yet; the snapshot must be signed by one of
+   * SNAPSHOT_TRUSTED_SIGNERS and match the configured chain id, contract address and lockId.
+   * After the import, POST /api/v1/config/init (first lock) or POST /api/v1/config/locks
+   * (further locks) only syncs the blocks after the snapshot.
+   */
+  @Post('snapshot')
+  @UseGuards(SnapshotImportGuard)
+  @RequireAccessLevel('admin')
+  @RequireGatewayAdmin()
+  async importSnapshot(
+    @Body() body: RevocationSnapshot | { credential: unknown; snapshot: RevocationSnapshot },
+    @Query('lockId') lockId: string,
+    @Query('dryRun') dryRun?: string,
+  ) {
+    try {
+      if (!lockId) {
+        return {
+          success: false,
+          error: 'lockId query parameter is required',
+          timestamp: new Date().toISOString(),
+        };
+      }
+      if (this.lockConfigService.isReady(Number(lockId))) {
+        return {
+          success: false,
+          error: `Lock ${lockId} is already configured - snapshots can only be imported before it is added`,
+          timestamp: new Date().toISOString(),
+        };
+      }
+      const snapshot = 'snapshot' in body ? body.snapshot : body;
+      const nextStep = this.lockConfigService.isReady()
+        ? `POST /api/v1/config/locks?lockId=${lockId}`
+        : 'POST /api/v1/config/init';
+
+      this.logger.log(
+        `📦 Snapshot import for Lock ${lockId}${dryRun === 'true' ? ' (dry run)' : ''}`,
+      );
+      const result = await this.snapshotService.importSnapshot(snapshot, lockId, {
+        dryRun: dryRun === 'true',
+      });
+
+      return {
+        success: true,
+        message: result.dryRun
+          ? 'Snapshot is valid and would be imported'
+          : `Snapshot imported - call ${nextStep} to sync from block ${result.lastSyncedBlock + 1}`,
+        ...result,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      if (error instanceof SnapshotValidationError) {
+        this.logger.warn(`❌ Snapshot rejected: ${error.message}`);
+        return {
+          success: false,
+          error: error.message,
+          errors: error.errors,
+          timestamp: new Date().toISOString(),
+        };
+      }
+      this.logger.error(`❌ Snapshot import failed: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  /**
+   * Add another lock to the gateway
+   * POST /api/v1/config/locks?lockId=2&publicKey=0x04...&nickname=Back%20door&location=Building%20A
+   * nickname / location are matched against the lockNickname / lockLocation claims of
+   * credentials presented at the lock; timeZone (IANA) is used for credential schedules
+   * Requires an admin-level Verifiable Credential for the gateway lock
+   * The lock is validated like in POST /config/init; the listener is restarted to cover it
+   * and syncs its revocations from startBlock
+   */
+  @Post('locks')
+  @UseGuards(VcAuthGuard)
+  @RequireAccessLevel('admin')
+  @RequireGatewayAdmin()
+  async addLock(
+    @Query('lockId') lockId: string,
+    @Query('publicKey') publicKey: string,
+    @Query('nickname') nickname?: string,
+    @Query('location') location?: string,
+    @Query('timeZone') timeZone?: string,
+  ) {
+    try {
+      this.logger.log(`➕ Add lock request: Lock ${lockId}${nickname ? ` (${nickname})` : ''}`);
+
+      const validation = await this.lockConfigService.configure(Number(lockId), publicKey, {
+        nickname,
+        location,
+        timeZone,
+      });
+      await this.blockchainListener.initialize(this.lockConfigService.getLockIds());
+
+      return {
+        success: true,
+        message: `Lock ${validation.lockId} added`,
+        lockId: validation.lockId,
+        signerAddress: validation.signerAddress,
+        ownerAddress: validation.lockInfo?.owner ?? null,
+        lockIds: this.lockConfigService.getLockIds(),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      if (error instanceof LockConfigValidationError) {
+        this.logger.warn(`❌ Lock ${lockId} rejected: ${error.message}`);
+        return {
+          success: false,
+          error: error.message,
+          errors: error.errors,
+          timestamp: new Date().toISOString(),
+        };
+      }
+      this.logger.error(`❌ Adding lock ${lockId} failed: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  /**
+   * Stop managing a lock (its cached revocations are kept)
+   * POST /api/v1/config/locks/:lockId/remove
+   * Requires an admin-level Verifiable Credential for that lock; the gateway lock can only
+   * be removed last
+   */
+  @Post('locks/:lockId/remove')
+  @UseGuards(VcAuthGuard)
+  @RequireAccessLevel('admin')
+  async removeLock(@Param('lockId') lockId: string) {
+    try {
+      this.logger.log(`➖ Remove lock request: Lock ${lockId}`);
+
+      await this.lockConfigService.removeLock(Number(lockId));
+      const lockIds = this.lockConfigService.getLockIds();
+      if (lockIds.length > 0) {
+        await this.blockchainListener.initialize(lockIds);
+      } else {
+        await this.blockchainListener.stop();
+      }
+
+      return {
+        success: true,
+        message: `Lock ${lockId} removed`,
+        lockIds,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`❌ Removing lock ${lockId} failed: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  /**
+   * Set the time zone credential schedules are evaluated in for a lock
+   * POST /api/v1/config/locks/:lockId/timezone?timeZone=Europe/Vienna
+   * Without timeZone the lock falls back to LOCK_TIME_ZONE
+   * Requires admin-level Verifiable Credential for authorization
+   */
+  @Post('locks/:lockId/timezone')
+  @UseGuards(VcAuthGuard)
+  @RequireAccessLevel('admin')
+  async setTimeZone(@Param('lockId') lockId: string, @Query('timeZone') timeZone?: string) {
+    try {
+      await this.lockConfigService.setTimeZone(Number(lockId), timeZone || null);
+      return {
+        success: true,
+        lockId: Number(lockId),
+        timeZone: this.lockConfigService.getTimeZone(Number(lockId)),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`❌ Setting time zone of lock ${lockId} failed: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
   /**
    * Get current lock configuration status
    * GET /api/v1/config/status
@@ -67,15 +323,154 @@ export class ConfigController {
     const config = this.lockConfigService.getConfigDetails();
     return {
       ...config,
+      contract: this.blockchainListener.getPauseState(),
       timestamp: new Date().toISOString(),
     };
   }
 
+  /**
+   * Replace the trusted public key after a lock ownership transfer
+   * POST /api/v1/config/rekey?lockId=1&publicKey=0x04...&overlapHours=24
+   * Requires admin-level Verifiable Credential for authorization
+   * lockId may be omitted with a single lock; the key must derive to the signer address
+   * registered on-chain for the lock. The current keys stay trusted for overlapHours
+   * (defaults to KEY_ROTATION_OVERLAP_HOURS)
+   */
+  @Post('rekey')
+  @UseGuards(VcAuthGuard)
+  @RequireAccessLevel('admin')
+  async rekeyLock(
+    @Query('lockId') lockIdParam: string,
+    @Query('publicKey') publicKey: string,
+    @Query('overlapHours') overlapHours?: string,
+  ) {
+    try {
+      const lockId = this.lockConfigService.resolveLockId({ lockId: lockIdParam });
+      this.logger.log(`🔑 Re-key request for Lock ${lockId}: ${publicKey?.substring(0, 20)}...`);
+
+      const { previousKeysValidUntil } = await this.lockConfigService.rekey(lockId, publicKey, {
+        overlapHours: overlapHours !== undefined ? Number(overlapHours) : undefined,
+      });
+
+      return {
+        success: true,
+        message: 'Lock re-keyed successfully',
+        previousKeysValidUntil,
+        ...this.lockConfigService.getConfigDetails(),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`❌ Re-key failed: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  /**
+   * Get the key / ownership history of a lock
+   * GET /api/v1/config/keys?lockId=1 (lockId may be omitted with a single lock)
+   */
+  @Get('keys')
+  async getKeyHistory(@Query('lockId') lockIdParam?: string) {
+    let lockId: number;
+    try {
+      lockId = this.lockConfigService.resolveLockId({ lockId: lockIdParam });
+    } catch (error) {
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    const history = await this.lockConfigService.getKeyHistory(lockId);
+    const trustedKeyIds = this.lockConfigService.getTrustedKeys(lockId).map((key) => key.keyId);
+    return {
+      success: true,
+      lockId,
+      count: history.length,
+      keys: history.map((entry) => ({
+        keyId: entry.id,
+        trusted: trustedKeyIds.includes(entry.id),
+        publicKey: entry.publicKey ? `${entry.publicKey.substring(0, 10)}...` : null,
+        signerAddress: entry.signerAddress,
+        ownerAddress: entry.ownerAddress,
+        reason: entry.reason,
+        validFrom: entry.validFrom,
+        validUntil: entry.validUntil,
+        retiredAt: entry.retiredAt,
+        transactionHash: entry.transactionHash,
+        blockNumber: entry.blockNumber,
+      })),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Rotate a lock's key without taking the lock offline
+   * POST /api/v1/config/keys/rotate?lockId=1&publicKey=0x04...&validFrom=2024-01-01T00:00:00Z&overlapHours=24
+   * Requires admin-level Verifiable Credential for authorization
+   * lockId may be omitted with a single lock; validFrom defaults to now, validUntil is optional
+   * and overlapHours (how long the current keys stay trusted after validFrom) defaults to
+   * KEY_ROTATION_OVERLAP_HOURS
+   */
+  @Post('keys/rotate')
+  @UseGuards(VcAuthGuard)
+  @RequireAccessLevel('admin')
+  async rotateKey(
+    @Query('lockId') lockIdParam: string,
+    @Query('publicKey') publicKey: string,
+    @Query('validFrom') validFrom?: string,
+    @Query('validUntil') validUntil?: string,
+    @Query('overlapHours') overlapHours?: string,
+  ) {
+    try {
+      const lockId = this.lockConfigService.resolveLockId({ lockId: lockIdParam });
+      this.logger.log(
+        `🔄 Key rotation request for Lock ${lockId}: ${publicKey?.substring(0, 20)}...`,
+      );
+
+      const { key, previousKeysValidUntil } = await this.lockConfigService.rotateKey(
+        lockId,
+        publicKey,
+        {
+          validFrom: validFrom ? new Date(validFrom) : undefined,
+          validUntil: validUntil ? new Date(validUntil) : undefined,
+          overlapHours: overlapHours !== undefined ? Number(overlapHours) : undefined,
+        },
+      );
+
+      return {
+        success: true,
+        message: `Key rotation scheduled for lock ${lockId}`,
+        lockId,
+        key: {
+          keyId: key.id,
+          publicKey: `${publicKey.substring(0, 10)}...`,
+          validFrom: key.validFrom,
+          validUntil: key.validUntil,
+        },
+        previousKeysValidUntil,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`❌ Key rotation failed: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
   /**
    * Reset lock configuration
    * POST /api/v1/config/reset
    * Allows reconfiguration after calling this endpoint
-   * Requires admin-level Verifiable Credential for authorization
+   * Requires an admin-level Verifiable Credential for the gateway lock
    *
    * Request body should contain a VerifiableCredential with:
    * - credentialSubject.accessLevel: "admin"
@@ -85,10 +480,11 @@ export class ConfigController {
   @Post('reset')
   @UseGuards(VcAuthGuard)
   @RequireAccessLevel('admin')
+  @RequireGatewayAdmin()
   async resetConfig() {
     try {
       this.logger.log(`\n${'='.repeat(80)}`);
-      this.logger.log(`🔄 LOCK CONFIGURATION RESET REQUEST`);
+      this.logger.log(`🔄 LOCK CONFIGURATION RESET REQUEST (all locks)`);
       this.logger.log(`${'='.repeat(80)}`);
 
       await this.lockConfigService.reset();
@@ -1,5 +1,6 @@
 import { Controller, Get } from '@nestjs/common';
 import { BlockchainListenerService } from '@core/blockchain-listener.service';
+import { ConfigModule } from '@infra/config';
 
 /**
  * Health check controller
@@ -13,10 +14,13 @@ export class HealthController {
    * GET /api/v1/health
    *
    * Returns:
-   * - status: overall health status
-   * - lockId: configured lock ID
+   * - status: overall health status ("syncing" while a batch sync is catching up,
+   *   "offline" while the chain is unreachable and revocations are served from the cache)
+   * - lockIds: locks covered by the listener
    * - lockInfo: lock details from blockchain
    * - blockchain: sync status
+   * - rpc: per-provider health scores, failover state and request budget
+   * - contract: Pausable state of the AccessControl contract
    * - mode: service mode (API/NFC/IOT)
    */
   @Get()
@@ -25,20 +29,57 @@ export class HealthController {
       const syncStats = this.blockchainListener.getStats();
       const listenerStatus = this.blockchainListener.getStatus();
 
-      const isHealthy = listenerStatus.isListening && syncStats.blocksBehind < 100;
+      const rpcProviders = this.blockchainListener.getRpcStatus();
+      const rpcGovernor = this.blockchainListener.getRpcGovernorStatus();
+
+      const pauseState = this.blockchainListener.getPauseState();
+      const syncProgress = this.blockchainListener.getSyncProgress();
+      const freshness = this.blockchainListener.getRevocationFreshness();
+
+      const isHealthy =
+        listenerStatus.isListening && syncStats.blocksBehind < 100 && !pauseState.paused;
+      // Behind, but a batch sync is making progress (catching up rather than stuck)
+      const isCatchingUp =
+        listenerStatus.isListening &&
+        syncProgress.state === 'syncing' &&
+        !syncProgress.stalled &&
+        !pauseState.paused;
 
       return {
-        status: isHealthy ? 'healthy' : 'degraded',
+        status: isHealthy
+          ? 'healthy'
+          : isCatchingUp
+            ? 'syncing'
+            : freshness.offlineSince
+              ? 'offline'
+              : 'degraded',
         timestamp: new Date().toISOString(),
         mode: process.env.MODE || 'API',
+        lockIds: listenerStatus.lockIds,
 
         blockchain: {
           network: listenerStatus.network,
+          chainId: listenerStatus.chainId,
           currentBlock: syncStats.currentBlock,
           lastSyncedBlock: syncStats.lastSyncedBlock,
           blocksBehind: syncStats.blocksBehind,
           isListening: listenerStatus.isListening,
           batchSyncActive: listenerStatus.batchSyncActive,
+          confirmations: syncStats.confirmations,
+          reorgsDetected: syncStats.reorgsDetected,
+          lastReorg: syncStats.lastReorg,
+        },
+        rpc: {
+          healthyProviders: rpcProviders.filter((p) => p.healthy).length,
+          totalProviders: rpcProviders.length,
+          providers: rpcProviders,
+          governor: rpcGovernor,
+        },
+        contract: {
+          paused: pauseState.paused,
+          since: pauseState.since,
+          account: pauseState.account,
+          pausedAccessPolicy: process.env.PAUSED_ACCESS_POLICY || 'deny-except-admin',
         },
         sync: {
           realTimeUpdates: syncStats.realTimeUpdates,
@@ -46,6 +87,21 @@ export class HealthController {
           totalRevocations: syncStats.totalRevocations,
           lastBatchSync: syncStats.lastBatchSync,
           lastRealTimeUpdate: syncStats.lastRealTimeUpdate,
+          reconnects: syncStats.reconnects,
+          lastDisconnect: syncStats.lastDisconnect,
+          progress: syncProgress,
+          freshness: {
+            ...freshness,
+            stalenessBudgetHours: ConfigModule.parseStalenessBudgets(
+              process.env.REVOCATION_STALENESS_BUDGET_HOURS,
+            ).budgets,
+          },
+          logVerification: {
+            mode: process.env.LOG_VERIFICATION || 'off',
+            verified: syncStats.logsVerified,
+            rejected: syncStats.logsRejected,
+            recovered: syncStats.logsRecovered,
+          },
         },
       };
     } catch (error) {
@@ -57,4 +113,29 @@ export class HealthController {
       };
     }
   }
+
+  /**
+   * RPC request counters
+   * GET /api/v1/health/metrics
+   *
+   * Returns requests per priority class, daily budget usage, throttled / rejected calls,
+   * 429 responses and per-provider success / failure counts
+   */
+  @Get('metrics')
+  getMetrics() {
+    const governor = this.blockchainListener.getRpcGovernorStatus();
+    return {
+      rpc: {
+        ...governor,
+        providers: this.blockchainListener.getRpcStatus().map((provider) => ({
+          url: provider.url,
+          active: provider.active,
+          successes: provider.successes,
+          failures: provider.failures,
+          lastLatencyMs: provider.lastLatencyMs,
+        })),
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
 }
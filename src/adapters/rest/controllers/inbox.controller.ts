@@ -0,0 +1,134 @@
+import { Controller, Post, Get, Param, Query, Logger, UseGuards } from '@nestjs/common';
+import { ChainEventInboxService } from '@core/chain-event-inbox.service';
+import { ChainEventStatus } from '@infra/database';
+import { RequireAccessLevel } from '../decorators/require-access-level.decorator';
+import { RequireGatewayAdmin } from '../decorators/require-gateway-admin.decorator';
+import { VcAuthGuard } from '../guards/vc-auth.guard';
+
+const STATUSES: ChainEventStatus[] = ['pending', 'processing', 'done', 'dead'];
+
+/**
+ * Controller for the chain event inbox (delivery state, dead letters, replay)
+ */
+@Controller('inbox')
+export class InboxController {
+  private readonly logger = new Logger(InboxController.name);
+
+  constructor(private readonly eventInbox: ChainEventInboxService) {}
+
+  /**
+   * List inbox events, newest first
+   * GET /api/v1/inbox?status=dead&limit=50
+   */
+  @Get()
+  async getEvents(@Query('status') status?: string, @Query('limit') limit?: string) {
+    try {
+      if (status && !STATUSES.includes(status as ChainEventStatus)) {
+        return {
+          success: false,
+          error: `status must be one of: ${STATUSES.join(', ')}`,
+          timestamp: new Date().toISOString(),
+        };
+      }
+
+      return {
+        success: true,
+        counts: await this.eventInbox.getCounts(),
+        events: await this.eventInbox.getEvents(
+          status as ChainEventStatus | undefined,
+          limit ? parseInt(limit, 10) : undefined,
+        ),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`❌ Failed to read inbox: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  /**
+   * Get a single inbox event with its payload and last error
+   * GET /api/v1/inbox/:id
+   */
+  @Get(':id')
+  async getEvent(@Param('id') id: string) {
+    const event = await this.eventInbox.getEvent(parseInt(id, 10));
+    if (!event) {
+      return {
+        success: false,
+        error: `Event ${id} not found`,
+        timestamp: new Date().toISOString(),
+      };
+    }
+    return {
+      success: true,
+      event,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Replay every dead-lettered event
+   * POST /api/v1/inbox/replay
+   * Requires an admin-level Verifiable Credential for the gateway lock
+   */
+  @Post('replay')
+  @UseGuards(VcAuthGuard)
+  @RequireAccessLevel('admin')
+  @RequireGatewayAdmin()
+  async replayAll() {
+    try {
+      const replayed = await this.eventInbox.replay();
+      return {
+        success: true,
+        replayed,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`❌ Replay failed: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  /**
+   * Replay a single dead-lettered event
+   * POST /api/v1/inbox/:id/replay
+   * Requires an admin-level Verifiable Credential for the gateway lock
+   */
+  @Post(':id/replay')
+  @UseGuards(VcAuthGuard)
+  @RequireAccessLevel('admin')
+  @RequireGatewayAdmin()
+  async replayOne(@Param('id') id: string) {
+    try {
+      const replayed = await this.eventInbox.replay(parseInt(id, 10));
+      if (replayed === 0) {
+        return {
+          success: false,
+          error: `Event ${id} not found or not dead-lettered`,
+          timestamp: new Date().toISOString(),
+        };
+      }
+      return {
+        success: true,
+        replayed,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`❌ Replay of event ${id} failed: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { Controller, Post, Get, Logger, UseGuards } from '@nestjs/common';
+import { ReconciliationService } from '@core/reconciliation.service';
+import { RequireAccessLevel } from '../decorators/require-access-level.decorator';
+import { RequireGatewayAdmin } from '../decorators/require-gateway-admin.decorator';
+import { VcAuthGuard } from '../guards/vc-auth.guard';
+
+/**
+ * Controller for revocation cache reconciliation
+ */
+@Controller('reconciliation')
+export class ReconciliationController {
+  private readonly logger = new Logger(ReconciliationController.name);
+
+  constructor(private readonly reconciliationService: ReconciliationService) {}
+
+  /**
+   * Get the latest reconciliation report (drift between cache and contract)
+   * GET /api/v1/reconciliation
+   */
+  @Get()
+  getReport() {
+    return {
+      running: this.reconciliationService.isRunning(),
+      lastReport: this.reconciliationService.getLastReport(),
+      history: this.reconciliationService.getHistory(),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Run a reconciliation now
+   * POST /api/v1/reconciliation/run
+   * Requires an admin-level Verifiable Credential for the gateway lock
+   */
+  @Post('run')
+  @UseGuards(VcAuthGuard)
+  @RequireAccessLevel('admin')
+  @RequireGatewayAdmin()
+  async run() {
+    try {
+      this.logger.log(`🧮 Manual reconciliation requested`);
+
+      const report = await this.reconciliationService.reconcile('manual');
+      if (!report) {
+        return {
+          success: false,
+          error: 'Reconciliation already in progress',
+          timestamp: new Date().toISOString(),
+        };
+      }
+
+      return {
+        success: !report.error,
+        report,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`❌ Reconciliation failed: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+}
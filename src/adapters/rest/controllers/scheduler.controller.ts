@@ -0,0 +1,135 @@
+import { Controller, Post, Get, Param, Query, Logger, UseGuards } from '@nestjs/common';
+import { intervalSchedule, JobSchedulerService } from '@core/job-scheduler.service';
+import { RequireAccessLevel } from '../decorators/require-access-level.decorator';
+import { RequireGatewayAdmin } from '../decorators/require-gateway-admin.decorator';
+import { VcAuthGuard } from '../guards/vc-auth.guard';
+
+/**
+ * Controller for recurring jobs (batch sync, reconciliation, maintenance)
+ * Changes apply at runtime only; a restart goes back to the env schedule
+ */
+@Controller('scheduler')
+export class SchedulerController {
+  private readonly logger = new Logger(SchedulerController.name);
+
+  constructor(private readonly jobScheduler: JobSchedulerService) {}
+
+  /**
+   * List jobs with their schedule, next run and last result
+   * GET /api/v1/scheduler/jobs
+   */
+  @Get('jobs')
+  getJobs() {
+    return {
+      success: true,
+      jobs: this.jobScheduler.list(),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * GET /api/v1/scheduler/jobs/:name
+   */
+  @Get('jobs/:name')
+  getJob(@Param('name') name: string) {
+    const job = this.jobScheduler.get(name);
+    if (!job) {
+      return {
+        success: false,
+        error: `Job ${name} not found`,
+        timestamp: new Date().toISOString(),
+      };
+    }
+    return {
+      success: true,
+      job,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Change a job's schedule
+   * POST /api/v1/scheduler/jobs/:name/schedule?cron=0 *\/5 * * * *
+   * POST /api/v1/scheduler/jobs/:name/schedule?intervalMinutes=5
+   * Requires an admin-level Verifiable Credential for the gateway lock
+   */
+  @Post('jobs/:name/schedule')
+  @UseGuards(VcAuthGuard)
+  @RequireAccessLevel('admin')
+  @RequireGatewayAdmin()
+  reschedule(
+    @Param('name') name: string,
+    @Query('cron') cron?: string,
+    @Query('intervalMinutes') intervalMinutes?: string,
+  ) {
+    return this.apply(name, 'reschedule', () => {
+      if (cron && intervalMinutes) {
+        throw new Error('Pass either cron or intervalMinutes, not both');
+      }
+      if (cron) {
+        return this.jobScheduler.reschedule(name, { cron });
+      }
+
+      const minutes = Number(intervalMinutes);
+      if (!intervalMinutes || !Number.isInteger(minutes) || minutes < 1) {
+        throw new Error('cron or intervalMinutes (a positive integer) is required');
+      }
+      return this.jobScheduler.reschedule(name, intervalSchedule(minutes * 60));
+    });
+  }
+
+  /**
+   * Stop scheduled runs (a run in progress finishes)
+   * POST /api/v1/scheduler/jobs/:name/pause
+   * Requires an admin-level Verifiable Credential for the gateway lock
+   */
+  @Post('jobs/:name/pause')
+  @UseGuards(VcAuthGuard)
+  @RequireAccessLevel('admin')
+  @RequireGatewayAdmin()
+  pause(@Param('name') name: string) {
+    return this.apply(name, 'pause', () => this.jobScheduler.pause(name));
+  }
+
+  /**
+   * POST /api/v1/scheduler/jobs/:name/resume
+   * Requires an admin-level Verifiable Credential for the gateway lock
+   */
+  @Post('jobs/:name/resume')
+  @UseGuards(VcAuthGuard)
+  @RequireAccessLevel('admin')
+  @RequireGatewayAdmin()
+  resume(@Param('name') name: string) {
+    return this.apply(name, 'resume', () => this.jobScheduler.resume(name));
+  }
+
+  /**
+   * Run a job now in the background; poll GET /api/v1/scheduler/jobs/:name for the result
+   * POST /api/v1/scheduler/jobs/:name/trigger
+   * Requires an admin-level Verifiable Credential for the gateway lock
+   */
+  @Post('jobs/:name/trigger')
+  @UseGuards(VcAuthGuard)
+  @RequireAccessLevel('admin')
+  @RequireGatewayAdmin()
+  trigger(@Param('name') name: string) {
+    return this.apply(name, 'trigger', () => this.jobScheduler.trigger(name));
+  }
+
+  private apply(name: string, action: string, change: () => unknown) {
+    try {
+      return {
+        success: true,
+        job: change(),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`❌ Failed to ${action} job ${name}: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+}
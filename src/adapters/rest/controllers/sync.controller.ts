@@ -0,0 +1,177 @@
+import { Controller, Post, Get, Param, Query, Logger, UseGuards } from '@nestjs/common';
+import { BlockchainListenerService } from '@core/blockchain-listener.service';
+import { RescanService } from '@core/rescan.service';
+import { SnapshotService } from '@core/snapshot.service';
+import { RequireAccessLevel } from '../decorators/require-access-level.decorator';
+import { RequireGatewayAdmin } from '../decorators/require-gateway-admin.decorator';
+import { VcAuthGuard } from '../guards/vc-auth.guard';
+
+/**
+ * Controller for operator sync tooling (rescan, rebuild, full resync, snapshot export)
+ * Mutating routes require an admin-level Verifiable Credential in the request body,
+ * so their options are passed as query parameters
+ */
+@Controller('sync')
+export class SyncController {
+  private readonly logger = new Logger(SyncController.name);
+
+  constructor(
+    private readonly rescanService: RescanService,
+    private readonly blockchainListener: BlockchainListenerService,
+    private readonly snapshotService: SnapshotService,
+  ) {}
+
+  /**
+   * Rescan a block range without moving the sync checkpoint
+   * POST /api/v1/sync/rescan?fromBlock=100&toBlock=200&dryRun=true
+   */
+  @Post('rescan')
+  @UseGuards(VcAuthGuard)
+  @RequireAccessLevel('admin')
+  @RequireGatewayAdmin()
+  startRescan(
+    @Query('fromBlock') fromBlock: string,
+    @Query('toBlock') toBlock: string,
+    @Query('dryRun') dryRun?: string,
+  ) {
+    try {
+      const job = this.rescanService.startRescan(
+        parseInt(fromBlock, 10),
+        parseInt(toBlock, 10),
+        dryRun === 'true',
+      );
+      return {
+        success: true,
+        message: `Rescan job ${job.id} started - poll GET /api/v1/sync/jobs/${job.id}`,
+        job,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`❌ Rescan not started: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  /**
+   * Rebuild the revocation table from startBlock via a shadow table
+   * POST /api/v1/sync/rebuild?dryRun=true
+   */
+  @Post('rebuild')
+  @UseGuards(VcAuthGuard)
+  @RequireAccessLevel('admin')
+  @RequireGatewayAdmin()
+  startRebuild(@Query('dryRun') dryRun?: string) {
+    try {
+      const job = this.rescanService.startRebuild(dryRun === 'true');
+      return {
+        success: true,
+        message: `Rebuild job ${job.id} started - poll GET /api/v1/sync/jobs/${job.id}`,
+        job,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`❌ Rebuild not started: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  /**
+   * Reset the sync position to startBlock and resync everything
+   * POST /api/v1/sync/full
+   */
+  @Post('full')
+  @UseGuards(VcAuthGuard)
+  @RequireAccessLevel('admin')
+  @RequireGatewayAdmin()
+  forceFullSync() {
+    this.blockchainListener.forceFullSync().catch((error) => {
+      this.logger.error(`❌ Full sync failed: ${error.message}`, error.stack);
+    });
+    return {
+      success: true,
+      message: 'Full sync started - follow progress in GET /api/v1/health',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Export a lock's revocation cache up to the sync checkpoint as a signed snapshot
+   * POST /api/v1/sync/snapshot?lockId=1 (lockId may be omitted with a single lock)
+   * Save the returned `snapshot` and import it on a new device via POST /api/v1/config/snapshot
+   */
+  @Post('snapshot')
+  @UseGuards(VcAuthGuard)
+  @RequireAccessLevel('admin')
+  async exportSnapshot(@Query('lockId') lockId?: string) {
+    try {
+      const snapshot = await this.snapshotService.exportSnapshot(lockId);
+      return {
+        success: true,
+        snapshot,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`❌ Snapshot export failed: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  /**
+   * Progress of the current batch sync (blocks scanned, throughput, ETA)
+   * GET /api/v1/sync/progress
+   */
+  @Get('progress')
+  getProgress() {
+    return {
+      success: true,
+      progress: this.blockchainListener.getSyncProgress(),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * List recent rescan / rebuild jobs
+   * GET /api/v1/sync/jobs
+   */
+  @Get('jobs')
+  getJobs() {
+    return {
+      current: this.rescanService.getCurrentJob(),
+      jobs: this.rescanService.getJobs(),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Get a rescan / rebuild job with its progress and the events it found
+   * GET /api/v1/sync/jobs/:id
+   */
+  @Get('jobs/:id')
+  getJob(@Param('id') id: string) {
+    const job = this.rescanService.getJob(parseInt(id, 10));
+    if (!job) {
+      return {
+        success: false,
+        error: `Job ${id} not found`,
+        timestamp: new Date().toISOString(),
+      };
+    }
+    return {
+      success: true,
+      job,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
@@ -1,6 +1,8 @@
-import { Controller, Post, Body, Logger } from '@nestjs/common';
+import { Controller, Post, Get, Body, Param, Query, Logger } from '@nestjs/common';
 import { CredentialVerifierService } from '@core/credential-verifier.service';
+import { EventProcessorService } from '@core/event-processor.service';
 import { LockConfigService } from '@core/lock-config.service';
+import { HolderChallengeService, HolderPresentation } from '@core/holder-challenge.service';
 
 import { VerifiableCredential } from '@mrazakos/vc-ecdsa-crypto';
 import { RevokedCredentialRepository } from '@infra/database';
@@ -15,14 +17,57 @@ export class VerifyController {
   constructor(
     private readonly verifierService: CredentialVerifierService,
     private readonly lockConfigService: LockConfigService,
+    private readonly eventProcessor: EventProcessorService,
+    private readonly holderChallengeService: HolderChallengeService,
     private readonly revokedCredentialRepository: RevokedCredentialRepository,
   ) {}
 
+  /**
+   * Issue a challenge for holder binding
+   * GET /api/v1/verify/challenge?lockId=1
+   *
+   * The holder signs `message` (EIP-191 personal_sign) with the key bound in
+   * credentialSubject.holderPublicKey / holderAddress and presents it to POST /api/v1/verify
+   * before `expiresAt`. Each challenge can be used once; lockId may be omitted with a single lock.
+   * A lock with too many outstanding challenges refuses new ones until they are used or expire
+   */
+  @Get('challenge')
+  async getChallenge(@Query('lockId') lockIdParam?: string) {
+    try {
+      const lockId = this.lockConfigService.resolveLockId({ lockId: lockIdParam });
+      const challenge = this.holderChallengeService.issue(lockId);
+      this.logger.log(`🎲 Challenge issued for lock ${lockId} (expires ${challenge.expiresAt})`);
+
+      return {
+        success: true,
+        ...challenge,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`❌ Failed to issue challenge: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
   /**
    * Verify a verifiable credential
-   * POST /api/v1/verify
+   * POST /api/v1/verify?lockId=1
+   *
+   * lockId is the lock (door) the credential is presented at; it is required when the gateway
+   * manages several locks. A credential issued for another lock fails with errorCode WRONG_LOCK,
+   * one used outside its schedule with OUTSIDE_SCHEDULE and the failed rule in scheduleRule.
    *
-   * Request body: VerifiableCredential (JSON)
+   * Holder-bound credentials (credentialSubject.holderPublicKey / holderAddress), or all
+   * credentials with HOLDER_BINDING_POLICY=required, are presented with a signed challenge:
+   * { "credential": {...}, "challenge": "0x...", "signature": "0x..." }
+   * A missing, expired or reused challenge fails with CHALLENGE_FAILED, a signature by
+   * another key with HOLDER_SIGNATURE_INVALID.
+   *
+   * Request body: VerifiableCredential (JSON), or the presentation above
    * {
    *   "@context": [...],
    *   "id": "...",
@@ -38,7 +83,18 @@ export class VerifyController {
    */
   @Post()
   @RequireAccessLevel('standard')
-  async verifyCredential(@Body() credential: VerifiableCredential) {
+  async verifyCredential(
+    @Body() body: VerifiableCredential | HolderPresentation,
+    @Query('lockId') doorLockId?: string,
+  ) {
+    const presentation =
+      (body as HolderPresentation).credential && (body as HolderPresentation).challenge
+        ? (body as HolderPresentation)
+        : undefined;
+    const credential: VerifiableCredential = presentation
+      ? presentation.credential
+      : (body as VerifiableCredential);
+
     try {
       this.logger.log(`\n${'='.repeat(80)}`);
       this.logger.log(`🔐 CREDENTIAL VERIFICATION REQUEST`);
@@ -46,11 +102,17 @@ export class VerifyController {
       this.logger.log(`📋 Credential ID:     ${credential.id || 'N/A'}`);
       this.logger.log(`🏢 Lock ID:           ${credential.lockId}`);
       this.logger.log(`🏷️  Lock Nickname:     ${credential.lockNickname || 'N/A'}`);
+      if (doorLockId) {
+        this.logger.log(`🚪 Presented at Lock: ${doorLockId}`);
+      }
+      if (presentation) {
+        this.logger.log(`🎲 Challenge:         ${presentation.challenge}`);
+      }
 
-      // Get the lock's public key from configuration
-      const publicKey = this.lockConfigService.getPublicKey();
-
-      const result = await this.verifierService.verifyCredential(credential, publicKey);
+      const result = await this.verifierService.verifyCredential(credential, {
+        lockId: doorLockId ? Number(doorLockId) : undefined,
+        presentation,
+      });
 
       this.logger.log(`\n${'='.repeat(80)}`);
       this.logger.log(
@@ -62,10 +124,30 @@ export class VerifyController {
       }
       this.logger.log(`${'='.repeat(80)}\n`);
 
+      if (result.verified && result.verifiedKey) {
+        const proof = Array.isArray(credential.proof) ? credential.proof[0] : credential.proof;
+        await this.eventProcessor.logSignatureEntry(
+          (proof as any)?.proofValue || credential.id,
+          result.verifiedKey.publicKey,
+          { lockId: result.lockId, keyId: result.verifiedKey.keyId },
+        );
+      }
+
       return {
         verified: result.verified,
         error: result.error,
+        errorCode: result.errorCode,
+        scheduleRule: result.scheduleRule,
+        revocationSource: result.revocationSource,
+        freshness: result.revocationFreshness,
         credentialId: credential.id,
+        lockId: result.lockId,
+        verifiedKey: result.verifiedKey
+          ? {
+              ...result.verifiedKey,
+              publicKey: `${result.verifiedKey.publicKey.substring(0, 10)}...`,
+            }
+          : undefined,
         timestamp: new Date().toISOString(),
       };
     } catch (error) {
@@ -77,4 +159,56 @@ export class VerifyController {
       };
     }
   }
+
+  /**
+   * Audit: was a credential revoked at a given moment?
+   * GET /api/v1/verify/revocations/:vcHash?lockId=1&at=2024-01-01T12:00:00Z
+   *
+   * Uses the on-chain block timestamp of the revocation; `at` defaults to now,
+   * lockId may be omitted with a single lock
+   */
+  @Get('revocations/:vcHash')
+  async getRevocationAt(
+    @Param('vcHash') vcHash: string,
+    @Query('lockId') lockIdParam?: string,
+    @Query('at') at?: string,
+  ) {
+    try {
+      const atTime = at ? new Date(at) : new Date();
+      if (isNaN(atTime.getTime())) {
+        throw new Error(`Invalid "at" timestamp: ${at}`);
+      }
+      const lockId = this.lockConfigService.resolveLockId({ lockId: lockIdParam });
+
+      const revocation = await this.revokedCredentialRepository.findByVcHash(
+        vcHash,
+        String(lockId),
+      );
+      const revokedAtTime = !!revocation && revocation.revokedAt.getTime() <= atTime.getTime();
+
+      return {
+        vcHash,
+        lockId,
+        at: atTime.toISOString(),
+        revoked: revokedAtTime,
+        revocation: revocation
+          ? {
+              revokedAt: revocation.revokedAt.toISOString(),
+              detectedAt: revocation.detectedAt ? revocation.detectedAt.toISOString() : null,
+              blockNumber: revocation.blockNumber,
+              transactionHash: revocation.transactionHash,
+              status: revocation.status,
+            }
+          : null,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`❌ Revocation audit failed: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
 }
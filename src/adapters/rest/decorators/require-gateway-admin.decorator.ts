@@ -0,0 +1,14 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * Decorator for endpoints that act on the whole gateway rather than one lock
+ * Used with VcAuthGuard and RequireAccessLevel: the credential must be issued for the
+ * gateway lock (the lock set up with POST /config/init)
+ *
+ * @example
+ * @RequireAccessLevel('admin')
+ * @RequireGatewayAdmin()
+ * @Post('reset')
+ * async resetConfig() { ... }
+ */
+export const RequireGatewayAdmin = () => SetMetadata('gatewayAdmin', true);
@@ -0,0 +1,18 @@
+import { Injectable, ExecutionContext } from '@nestjs/common';
+import { VcAuthGuard } from './vc-auth.guard';
+
+/**
+ * Guard for snapshot imports
+ * Open until the first lock is configured (like ConfigGuard); afterwards the request must
+ * carry an admin-level Verifiable Credential for the gateway lock, sent as
+ * { credential, snapshot }
+ */
+@Injectable()
+export class SnapshotImportGuard extends VcAuthGuard {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (!this.lockConfigService.isReady()) {
+      return true;
+    }
+    return super.canActivate(context);
+  }
+}
@@ -1,19 +1,25 @@
 import { Injectable, CanActivate, ExecutionContext, UnauthorizedException } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { CredentialVerifierService } from '@core/credential-verifier.service';
+import { HolderPresentation } from '@core/holder-challenge.service';
 import { LockConfigService } from '@core/lock-config.service';
 import { VerifiableCredential } from '@mrazakos/vc-ecdsa-crypto';
 
 /**
  * Guard that authorizes requests based on Verifiable Credentials
  * Checks if the provided VC has the required access level
+ * The VC must be valid for the lock the request targets (lockId route / query parameter),
+ * or for the gateway lock on endpoints marked with RequireGatewayAdmin
+ * The body is the VC, or a presentation { credential, challenge, signature } for
+ * holder-bound credentials (see GET /api/v1/verify/challenge); endpoints that take a payload
+ * next to it expect { credential: <VC or presentation>, ...payload }
  */
 @Injectable()
 export class VcAuthGuard implements CanActivate {
   constructor(
     private readonly reflector: Reflector,
     private readonly verifierService: CredentialVerifierService,
-    private readonly lockConfigService: LockConfigService,
+    protected readonly lockConfigService: LockConfigService,
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -26,18 +32,23 @@ export class VcAuthGuard implements CanActivate {
     }
 
     const request = context.switchToHttp().getRequest();
-    const credential: VerifiableCredential = request.body;
+    const auth =
+      request.body?.credential && !request.body?.challenge ? request.body.credential : request.body;
+    const presentation: HolderPresentation | undefined =
+      auth?.credential && auth?.challenge ? auth : undefined;
+    const credential: VerifiableCredential = presentation ? presentation.credential : auth;
 
     if (!credential) {
       throw new UnauthorizedException('No credential provided in request body');
     }
 
     try {
-      // Get public key from config
-      const publicKey = this.lockConfigService.getPublicKey();
-
-      // Verify the credential
-      const verificationResult = await this.verifierService.verifyCredential(credential, publicKey);
+      // Verify the credential against the keys of the lock the request acts on, so an
+      // admin of one lock cannot manage another lock or the whole gateway
+      const verificationResult = await this.verifierService.verifyCredential(credential, {
+        lockId: this.getTargetLockId(context, request),
+        presentation,
+      });
 
       if (!verificationResult.verified) {
         throw new UnauthorizedException(
@@ -60,6 +71,7 @@ export class VcAuthGuard implements CanActivate {
       // Attach credential info to request for use in controller
       request.user = {
         credentialId: credential.id,
+        lockId: verificationResult.lockId,
         accessLevel,
         permissions,
       };
@@ -72,4 +84,21 @@ export class VcAuthGuard implements CanActivate {
       throw new UnauthorizedException(`Authorization failed: ${error.message}`);
     }
   }
+
+  /**
+   * Lock the request acts on: the gateway lock for gateway-wide endpoints, otherwise the
+   * lockId route / query parameter (may be omitted with a single lock)
+   */
+  private getTargetLockId(context: ExecutionContext, request: any): number | undefined {
+    if (this.reflector.get<boolean>('gatewayAdmin', context.getHandler())) {
+      const gatewayLockId = this.lockConfigService.getGatewayLockId();
+      if (gatewayLockId === null) {
+        throw new UnauthorizedException('No lock configured on this gateway');
+      }
+      return gatewayLockId;
+    }
+
+    const lockId = request.params?.lockId ?? request.query?.lockId;
+    return lockId === undefined || lockId === '' ? undefined : Number(lockId);
+  }
 }
@@ -2,13 +2,28 @@ import { Module } from '@nestjs/common';
 import { VerifyController } from './controllers/verify.controller';
 import { HealthController } from './controllers/health.controller';
 import { ConfigController } from './controllers/config.controller';
+import { ReconciliationController } from './controllers/reconciliation.controller';
+import { SyncController } from './controllers/sync.controller';
+import { InboxController } from './controllers/inbox.controller';
+import { SchedulerController } from './controllers/scheduler.controller';
+import { CalendarController } from './controllers/calendar.controller';
 import { ConfigGuard } from './guards/config.guard';
+import { SnapshotImportGuard } from './guards/snapshot-import.guard';
 import { VcAuthGuard } from './guards/vc-auth.guard';
 import { DatabaseModule } from '@infra/database';
 
 @Module({
   imports: [DatabaseModule],
-  controllers: [VerifyController, HealthController, ConfigController],
-  providers: [ConfigGuard, VcAuthGuard],
+  controllers: [
+    VerifyController,
+    HealthController,
+    ConfigController,
+    ReconciliationController,
+    SyncController,
+    InboxController,
+    SchedulerController,
+    CalendarController,
+  ],
+  providers: [ConfigGuard, VcAuthGuard, SnapshotImportGuard],
 })
 export class RestModule {}
@@ -1,5 +1,6 @@
 import { Module } from '@nestjs/common';
 import { EventEmitterModule } from '@nestjs/event-emitter';
+import { ScheduleModule } from '@nestjs/schedule';
 import { ConfigModule } from '@infra/config';
 import { DatabaseModule } from '@infra/database';
 import { MessagingModule } from '@infra/messaging';
@@ -22,6 +23,9 @@ import { CoreModule } from '@core/core.module';
       maxListeners: 20,
     }),
 
+    // Scheduler registry for recurring jobs (batch sync, reconciliation, maintenance)
+    ScheduleModule.forRoot(),
+
     // Infrastructure
     DatabaseModule,
     MessagingModule,
@@ -0,0 +1,219 @@
+import { Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { HolidayCalendarEntity, HolidayCalendarRepository } from '@infra/database';
+import { AccessScheduleService } from './access-schedule.service';
+import { LockConfigService } from './lock-config.service';
+
+const LOCK_ID = 1;
+
+const ICS = [
+  'BEGIN:VCALENDAR',
+  'BEGIN:VEVENT',
+  'DTSTART;VALUE=DATE:20240101',
+  'SUMMARY:New Year',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+function withSchedule(schedule: object) {
+  return { credentialSubject: { schedule } };
+}
+
+describe('AccessScheduleService', () => {
+  let calendars: Partial<HolidayCalendarEntity>[];
+  let lockTimeZone: string;
+  let service: AccessScheduleService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    calendars = [];
+    lockTimeZone = 'UTC';
+    service = new AccessScheduleService(
+      { getTimeZone: jest.fn(() => lockTimeZone) } as unknown as LockConfigService,
+      {
+        findByLock: jest.fn(async () => calendars),
+        save: jest.fn(async (calendar) => ({ id: 1, ...calendar })),
+      } as unknown as HolidayCalendarRepository,
+    );
+  });
+
+  describe('evaluate', () => {
+    const evaluate = (schedule: object, at: string) =>
+      service.evaluate(LOCK_ID, withSchedule(schedule), new Date(at));
+
+    it('does not restrict credentials without a schedule', async () => {
+      await expect(service.evaluate(LOCK_ID, { credentialSubject: {} })).resolves.toBeNull();
+    });
+
+    it('checks weekdays and time ranges', async () => {
+      const schedule = { weekdays: ['mon', 'fri'], timeRanges: [{ start: '18:00', end: '22:00' }] };
+
+      await expect(evaluate(schedule, '2024-03-01T19:00:00Z')).resolves.toBeNull(); // Fri
+      await expect(evaluate(schedule, '2024-03-01T22:00:00Z')).resolves.toMatchObject({
+        rule: 'timeRanges',
+      });
+      await expect(evaluate(schedule, '2024-03-02T19:00:00Z')).resolves.toMatchObject({
+        rule: 'weekdays',
+        localTime: '2024-03-02 19:00 (sat)',
+      });
+    });
+
+    describe('time range past midnight', () => {
+      const friday = { weekdays: ['fri'], timeRanges: [{ start: '22:00', end: '02:00' }] };
+
+      it('allows the part after midnight on the day after an allowed weekday', async () => {
+        await expect(evaluate(friday, '2024-03-01T23:00:00Z')).resolves.toBeNull(); // Fri 23:00
+        await expect(evaluate(friday, '2024-03-02T01:00:00Z')).resolves.toBeNull(); // Sat 01:00
+        await expect(evaluate(friday, '2024-03-02T02:00:00Z')).resolves.toMatchObject({
+          rule: 'weekdays',
+        });
+      });
+
+      it('denies the part after midnight on an allowed weekday itself', async () => {
+        await expect(evaluate(friday, '2024-03-01T01:00:00Z')).resolves.toMatchObject({
+          rule: 'weekdays',
+          localTime: '2024-03-01 01:00 (fri)',
+        });
+        await expect(
+          evaluate({ ...friday, weekdays: ['sat'] }, '2024-03-02T01:00:00Z'),
+        ).resolves.toMatchObject({ rule: 'weekdays' });
+        await expect(evaluate(friday, '2024-03-02T23:00:00Z')).resolves.toMatchObject({
+          rule: 'weekdays',
+        });
+      });
+
+      it('lets an allow calendar open the window on the day it starts', async () => {
+        calendars = [
+          {
+            name: 'Open weekend',
+            mode: 'allow',
+            events: [
+              {
+                summary: null,
+                startDate: '2024-03-02',
+                endDate: '2024-03-03',
+                yearly: false,
+                until: null,
+              },
+            ],
+          },
+        ];
+
+        await expect(evaluate(friday, '2024-03-02T23:00:00Z')).resolves.toBeNull(); // Sat 23:00
+        await expect(evaluate(friday, '2024-03-03T01:00:00Z')).resolves.toBeNull(); // Sun 01:00
+        await expect(evaluate(friday, '2024-03-03T23:00:00Z')).resolves.toMatchObject({
+          rule: 'weekdays',
+        });
+      });
+    });
+
+    describe('daylight saving time (Europe/Vienna)', () => {
+      const morning = { timeRanges: [{ start: '08:00', end: '09:00' }] };
+
+      beforeEach(() => {
+        lockTimeZone = 'Europe/Vienna';
+      });
+
+      it('follows the local time across the spring change', async () => {
+        await expect(evaluate(morning, '2024-03-30T07:30:00Z')).resolves.toBeNull(); // CET
+        await expect(evaluate(morning, '2024-03-31T06:30:00Z')).resolves.toBeNull(); // CEST
+        await expect(evaluate(morning, '2024-03-31T07:30:00Z')).resolves.toMatchObject({
+          rule: 'timeRanges',
+          localTime: '2024-03-31 09:30 (sun)',
+        });
+      });
+
+      it('follows the local time across the autumn change', async () => {
+        await expect(evaluate(morning, '2024-10-26T07:30:00Z')).resolves.toMatchObject({
+          rule: 'timeRanges',
+          localTime: '2024-10-26 09:30 (sat)',
+        });
+        await expect(evaluate(morning, '2024-10-27T07:30:00Z')).resolves.toBeNull(); // CET
+      });
+
+      it('keeps a window past midnight on the night of the change', async () => {
+        const saturdayNight = { weekdays: ['sat'], timeRanges: [{ start: '22:00', end: '02:00' }] };
+
+        await expect(evaluate(saturdayNight, '2024-03-30T23:30:00Z')).resolves.toBeNull(); // 00:30
+        await expect(evaluate(saturdayNight, '2024-03-31T00:30:00Z')).resolves.toBeNull(); // 01:30
+        await expect(evaluate(saturdayNight, '2024-03-31T01:30:00Z')).resolves.toMatchObject({
+          rule: 'weekdays',
+          localTime: '2024-03-31 03:30 (sun)',
+        });
+      });
+    });
+
+    it('blocks dates of a block calendar', async () => {
+      calendars = [
+        {
+          name: 'Public holidays',
+          mode: 'block',
+          events: [
+            {
+              summary: 'New Year',
+              startDate: '2024-01-01',
+              endDate: '2024-01-02',
+              yearly: true,
+              until: null,
+            },
+          ],
+        },
+      ];
+
+      await expect(evaluate({ weekdays: 127 }, '2025-01-01T12:00:00Z')).resolves.toMatchObject({
+        rule: 'holiday',
+        calendar: 'Public holidays',
+      });
+      await expect(evaluate({ weekdays: 127 }, '2025-01-02T12:00:00Z')).resolves.toBeNull();
+    });
+  });
+
+  describe('importCalendar', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(tmpdir(), 'calendars-'));
+      await fs.writeFile(path.join(dir, 'holidays.ics'), ICS);
+    });
+
+    afterEach(async () => {
+      delete process.env.HOLIDAY_CALENDAR_DIR;
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('rejects local files without HOLIDAY_CALENDAR_DIR', async () => {
+      await expect(service.importCalendar(LOCK_ID, path.join(dir, 'holidays.ics'))).rejects.toThrow(
+        /http\(s\) URL/,
+      );
+    });
+
+    it('imports files from HOLIDAY_CALENDAR_DIR', async () => {
+      process.env.HOLIDAY_CALENDAR_DIR = dir;
+
+      const { calendar } = await service.importCalendar(LOCK_ID, 'holidays.ics');
+      expect(calendar.events).toHaveLength(1);
+    });
+
+    it('rejects files outside HOLIDAY_CALENDAR_DIR', async () => {
+      const calendarDir = path.join(dir, 'calendars');
+      await fs.mkdir(calendarDir);
+      await fs.symlink(path.join(dir, 'holidays.ics'), path.join(calendarDir, 'link.ics'));
+      process.env.HOLIDAY_CALENDAR_DIR = calendarDir;
+
+      await expect(service.importCalendar(LOCK_ID, '../holidays.ics')).rejects.toThrow(
+        /outside HOLIDAY_CALENDAR_DIR/,
+      );
+      await expect(service.importCalendar(LOCK_ID, path.join(dir, 'holidays.ics'))).rejects.toThrow(
+        /outside HOLIDAY_CALENDAR_DIR/,
+      );
+      await expect(service.importCalendar(LOCK_ID, 'link.ics')).rejects.toThrow(
+        /outside HOLIDAY_CALENDAR_DIR/,
+      );
+    });
+  });
+});
@@ -0,0 +1,358 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { HolidayCalendarEntity, HolidayCalendarRepository } from '@infra/database';
+import { findHolidayEvent, parseHolidayCalendar } from './holiday-calendar';
+import { LockConfigService } from './lock-config.service';
+
+/**
+ * Schedule claim in credentialSubject.schedule, e.g. "weekdays 18:00-22:00":
+ * { "weekdays": ["mon", "tue", "wed", "thu", "fri"], "timeRanges": [{ "start": "18:00", "end": "22:00" }] }
+ * - weekdays: day names, or a bit mask with bit 0 = Monday ... bit 6 = Sunday (31 = Mon-Fri)
+ * - timeRanges: HH:MM, end exclusive; a range ending before it starts runs past midnight and
+ *   belongs to the day it starts on (fri 22:00-02:00 covers Saturday 01:00 but not Friday 01:00)
+ * - dateRanges: [{ "from": "2024-01-01", "to": "2024-06-30" }], both inclusive
+ * - timeZone: IANA time zone, defaults to the lock's time zone
+ */
+export interface AccessScheduleClaim {
+  weekdays?: number | string[];
+  timeRanges?: { start: string; end: string }[];
+  dateRanges?: { from: string; to: string }[];
+  timeZone?: string;
+}
+
+export type ScheduleRule =
+  'schedule' | 'timeZone' | 'dateRanges' | 'holiday' | 'weekdays' | 'timeRanges';
+
+/**
+ * The schedule rule a credential failed
+ */
+export interface ScheduleRuleFailure {
+  rule: ScheduleRule;
+  message: string;
+  timeZone: string;
+  localTime: string | null; // YYYY-MM-DD HH:MM (weekday) in timeZone
+  calendar?: string; // holiday calendar that blocked the date
+}
+
+interface LocalTime {
+  date: string; // YYYY-MM-DD
+  weekday: number; // 0 = Monday
+  minutes: number; // since midnight
+  label: string;
+}
+
+const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Schedule-based access: evaluates credentialSubject.schedule in the lock's time zone and
+ * applies the lock's holiday calendars (imported from iCalendar files)
+ * Credentials without a schedule claim are not restricted, and holiday calendars only
+ * apply to credentials with a schedule
+ */
+@Injectable()
+export class AccessScheduleService {
+  private readonly logger = new Logger(AccessScheduleService.name);
+
+  constructor(
+    private readonly lockConfigService: LockConfigService,
+    private readonly holidayCalendarRepository: HolidayCalendarRepository,
+  ) {}
+
+  /**
+   * Check a credential's schedule claim at `at`
+   * @returns the first rule that fails, or null if access is allowed
+   */
+  async evaluate(
+    lockId: number,
+    credential: any,
+    at: Date = new Date(),
+  ): Promise<ScheduleRuleFailure | null> {
+    const schedule: AccessScheduleClaim | undefined = credential?.credentialSubject?.schedule;
+    if (schedule === undefined || schedule === null) {
+      return null;
+    }
+
+    const lockTimeZone = this.lockConfigService.getTimeZone(lockId);
+    if (typeof schedule !== 'object' || Array.isArray(schedule)) {
+      return this.fail('schedule', 'Schedule claim must be an object', lockTimeZone, null);
+    }
+
+    const timeZone = schedule.timeZone || lockTimeZone;
+    if (!LockConfigService.isTimeZone(timeZone)) {
+      return this.fail('timeZone', `Unknown schedule time zone "${timeZone}"`, timeZone, null);
+    }
+    const local = AccessScheduleService.toLocalTime(at, timeZone);
+    const fail = (rule: ScheduleRule, message: string, calendar?: string) =>
+      this.fail(rule, message, timeZone, local, calendar);
+
+    if (schedule.dateRanges !== undefined) {
+      const ranges = schedule.dateRanges;
+      if (
+        !Array.isArray(ranges) ||
+        ranges.some((range) => !DATE_PATTERN.test(range?.from) || !DATE_PATTERN.test(range?.to))
+      ) {
+        return fail('dateRanges', 'dateRanges must be a list of { from, to } dates (YYYY-MM-DD)');
+      }
+      if (!ranges.some((range) => range.from <= local.date && local.date <= range.to)) {
+        return fail(
+          'dateRanges',
+          `${local.date} is outside the allowed dates (${ranges.map((range) => `${range.from} to ${range.to}`).join(', ')})`,
+        );
+      }
+    }
+
+    // Holiday calendars are lock-level, so their dates are in the lock's time zone
+    const lockDate = AccessScheduleService.toLocalTime(at, lockTimeZone).date;
+    const calendars = await this.holidayCalendarRepository.findByLock(lockId);
+    for (const calendar of calendars.filter((entry) => entry.mode === 'block')) {
+      const event = findHolidayEvent(calendar.events, lockDate);
+      if (event) {
+        return fail(
+          'holiday',
+          `${lockDate} is blocked by holiday calendar "${calendar.name}"${event.summary ? ` (${event.summary})` : ''}`,
+          calendar.name,
+        );
+      }
+    }
+    // Allow calendars open a date regardless of the weekday rule
+    const allowedByCalendar = (date: string) =>
+      calendars.some(
+        (calendar) => calendar.mode === 'allow' && !!findHolidayEvent(calendar.events, date),
+      );
+
+    let mask: number | null = null;
+    if (schedule.weekdays !== undefined) {
+      mask = AccessScheduleService.toWeekdayMask(schedule.weekdays);
+      if (mask === null) {
+        return fail(
+          'weekdays',
+          'weekdays must be a bit mask (bit 0 = Monday) or a list of day names',
+        );
+      }
+    }
+    // Whether the day `daysBack` days before today may open a time window
+    const dayAllowed = (daysBack: 0 | 1) =>
+      mask === null ||
+      (mask & (1 << ((local.weekday + 7 - daysBack) % 7))) !== 0 ||
+      allowedByCalendar(daysBack === 0 ? lockDate : AccessScheduleService.previousDate(lockDate));
+    const weekdayFailure = (daysBack: 0 | 1) => {
+      const allowed = WEEKDAYS.filter((_, day) => (mask ?? 127) & (1 << day));
+      const day = WEEKDAYS[(local.weekday + 7 - daysBack) % 7];
+      return fail(
+        'weekdays',
+        `${day} is not an allowed weekday (${allowed.join(', ') || 'none'})` +
+          (daysBack ? ' - the time window started the day before' : ''),
+      );
+    };
+
+    if (schedule.timeRanges === undefined) {
+      return dayAllowed(0) ? null : weekdayFailure(0);
+    }
+
+    const ranges = schedule.timeRanges;
+    if (
+      !Array.isArray(ranges) ||
+      ranges.some((range) => !TIME_PATTERN.test(range?.start) || !TIME_PATTERN.test(range?.end))
+    ) {
+      return fail('timeRanges', 'timeRanges must be a list of { start, end } times (HH:MM)');
+    }
+
+    // Days the matching windows started on: a range ending before it starts runs past
+    // midnight, so its early part belongs to the previous day's window
+    const windowDays: (0 | 1)[] = [];
+    for (const range of ranges) {
+      const start = AccessScheduleService.toMinutes(range.start);
+      const end = AccessScheduleService.toMinutes(range.end);
+      if (start < end) {
+        if (local.minutes >= start && local.minutes < end) {
+          windowDays.push(0);
+        }
+      } else if (local.minutes >= start) {
+        windowDays.push(0);
+      } else if (local.minutes < end) {
+        windowDays.push(1);
+      }
+    }
+
+    if (windowDays.some((daysBack) => dayAllowed(daysBack))) {
+      return null;
+    }
+    if (windowDays.length > 0) {
+      return weekdayFailure(windowDays[0]);
+    }
+    if (!dayAllowed(0)) {
+      return weekdayFailure(0);
+    }
+    return fail(
+      'timeRanges',
+      `${local.label.substring(11, 16)} is outside the allowed times (${ranges.map((range) => `${range.start}-${range.end}`).join(', ')})`,
+    );
+  }
+
+  /**
+   * Import an iCalendar file (http(s) URL, or a file in HOLIDAY_CALENDAR_DIR) as a holiday
+   * calendar of a lock
+   * @throws LockNotConfiguredError if the lock is not configured
+   * @throws ICalendarParseError if the file is not an iCalendar file
+   */
+  async importCalendar(
+    lockId: number,
+    source: string,
+    options: { name?: string; mode?: 'block' | 'allow' } = {},
+  ): Promise<{ calendar: HolidayCalendarEntity; skipped: number }> {
+    this.lockConfigService.getTimeZone(lockId); // throws if the lock is not configured
+    const mode = options.mode || 'block';
+    if (mode !== 'block' && mode !== 'allow') {
+      throw new Error('mode must be "block" or "allow"');
+    }
+
+    const parsed = parseHolidayCalendar(await this.readSource(source));
+    const calendar = await this.holidayCalendarRepository.save({
+      lockId,
+      name: options.name || parsed.name || source,
+      mode,
+      source,
+      events: parsed.events,
+    });
+
+    if (parsed.skipped > 0) {
+      this.logger.warn(
+        `⚠️  ${parsed.skipped} events of "${calendar.name}" skipped (no DTSTART or unsupported recurrence)`,
+      );
+    }
+    return { calendar, skipped: parsed.skipped };
+  }
+
+  async getCalendars(lockId: number): Promise<HolidayCalendarEntity[]> {
+    return this.holidayCalendarRepository.findByLock(lockId);
+  }
+
+  /**
+   * @throws Error if the lock has no calendar with this id
+   */
+  async removeCalendar(lockId: number, calendarId: number): Promise<void> {
+    const calendar = await this.holidayCalendarRepository.findById(calendarId);
+    if (!calendar || calendar.lockId !== lockId) {
+      throw new Error(`Holiday calendar ${calendarId} not found for lock ${lockId}`);
+    }
+    await this.holidayCalendarRepository.delete(calendarId);
+    this.logger.log(`🗑️  Holiday calendar "${calendar.name}" removed from lock ${lockId}`);
+  }
+
+  private async readSource(source: string): Promise<string> {
+    if (!source) {
+      throw new Error('source (iCalendar URL or file path) is required');
+    }
+    if (!/^https?:\/\//i.test(source)) {
+      return fs.readFile(await this.resolveLocalSource(source), 'utf8');
+    }
+
+    const response = await fetch(source, { signal: AbortSignal.timeout(15000) });
+    if (!response.ok) {
+      throw new Error(`Failed to download ${source}: HTTP ${response.status}`);
+    }
+    return response.text();
+  }
+
+  /**
+   * Local files are only read from HOLIDAY_CALENDAR_DIR, so the import endpoint can't read
+   * arbitrary files of the gateway (symlinks are resolved before the check)
+   */
+  private async resolveLocalSource(source: string): Promise<string> {
+    const dir = process.env.HOLIDAY_CALENDAR_DIR;
+    if (!dir) {
+      throw new Error(
+        'source must be an http(s) URL (set HOLIDAY_CALENDAR_DIR to import local files)',
+      );
+    }
+
+    const root = await fs.realpath(dir);
+    let file: string;
+    try {
+      file = await fs.realpath(path.resolve(root, source));
+    } catch {
+      throw new Error(`Calendar file ${source} not found in HOLIDAY_CALENDAR_DIR`);
+    }
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Calendar file ${source} is outside HOLIDAY_CALENDAR_DIR`);
+    }
+    return file;
+  }
+
+  private fail(
+    rule: ScheduleRule,
+    message: string,
+    timeZone: string,
+    local: LocalTime | null,
+    calendar?: string,
+  ): ScheduleRuleFailure {
+    return {
+      rule,
+      message,
+      timeZone,
+      localTime: local ? local.label : null,
+      ...(calendar ? { calendar } : {}),
+    };
+  }
+
+  private static toLocalTime(at: Date, timeZone: string): LocalTime {
+    const parts = Object.fromEntries(
+      new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        weekday: 'short',
+        hourCycle: 'h23',
+      })
+        .formatToParts(at)
+        .map((part) => [part.type, part.value]),
+    );
+    const date = `${parts.year}-${parts.month}-${parts.day}`;
+    const weekday = WEEKDAYS.indexOf(parts.weekday.toLowerCase());
+    return {
+      date,
+      weekday,
+      minutes: Number(parts.hour) * 60 + Number(parts.minute),
+      label: `${date} ${parts.hour}:${parts.minute} (${WEEKDAYS[weekday]})`,
+    };
+  }
+
+  private static toWeekdayMask(weekdays: number | string[]): number | null {
+    if (typeof weekdays === 'number') {
+      return Number.isInteger(weekdays) && weekdays >= 0 && weekdays <= 127 ? weekdays : null;
+    }
+    if (!Array.isArray(weekdays)) {
+      return null;
+    }
+
+    let mask = 0;
+    for (const name of weekdays) {
+      const day = WEEKDAYS.indexOf(String(name).substring(0, 3).toLowerCase());
+      if (day === -1) {
+        return null;
+      }
+      mask |= 1 << day;
+    }
+    return mask;
+  }
+
+  /**
+   * The day before a YYYY-MM-DD date
+   */
+  private static previousDate(date: string): string {
+    return new Date(Date.parse(`${date}T00:00:00Z`) - 24 * 60 * 60 * 1000)
+      .toISOString()
+      .substring(0, 10);
+  }
+
+  private static toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+}
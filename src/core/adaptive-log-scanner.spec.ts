@@ -0,0 +1,69 @@
+import { Logger } from '@nestjs/common';
+import { AdaptiveLogScanner } from './adaptive-log-scanner';
+
+describe('AdaptiveLogScanner', () => {
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  function scanner(limitsLearned: number[]) {
+    const instance = new AdaptiveLogScanner({
+      initialRange: 100,
+      maxRange: 100,
+      growAfterSuccesses: 1,
+      raiseLimitAfterSuccesses: 3,
+      interChunkDelayMs: 0,
+    });
+    instance.onLimitLearned = async (limit) => {
+      limitsLearned.push(limit);
+    };
+    return instance;
+  }
+
+  it('learns a range limit and raises it again after a run of successes', async () => {
+    const learned: number[] = [];
+    const instance = scanner(learned);
+    let rejectLargeRanges = true;
+
+    await instance.scan(
+      1,
+      1000,
+      async (from, to) => {
+        if (rejectLargeRanges && to - from + 1 > 25) {
+          rejectLargeRanges = false; // a single bad response
+          throw new Error('block range is too large');
+        }
+        return [];
+      },
+      async () => undefined,
+    );
+
+    expect(learned[0]).toBe(50);
+    expect(learned).toContain(100);
+    expect(instance.learnedLimit).toBe(100);
+  });
+
+  it('only probes above a limit the provider still enforces once per run of successes', async () => {
+    const instance = scanner([]);
+    const spans: number[] = [];
+    let rejected = 0;
+
+    await instance.scan(
+      1,
+      2000,
+      async (from, to) => {
+        if (to - from + 1 > 50) {
+          rejected++;
+          throw new Error('block range is too large');
+        }
+        spans.push(to - from + 1);
+        return [];
+      },
+      async () => undefined,
+    );
+
+    expect(spans.reduce((sum, span) => sum + span, 0)).toBe(2000);
+    expect(Math.max(...spans)).toBe(50);
+    expect(rejected).toBeLessThanOrEqual(Math.ceil(spans.length / 3) + 1);
+  });
+});
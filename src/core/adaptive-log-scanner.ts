@@ -0,0 +1,271 @@
+import { Logger } from '@nestjs/common';
+
+/**
+ * Tuning for the adaptive eth_getLogs scanner
+ */
+export interface AdaptiveLogScannerOptions {
+  initialRange: number; // window to start with (learned limit or batch size)
+  maxRange: number; // never query more blocks than this at once
+  learnedLimit?: number | null; // provider limit remembered from a previous run
+  growAfterSuccesses?: number; // consecutive successes before the window doubles
+  raiseLimitAfterSuccesses?: number; // consecutive successes at the learned limit before it doubles
+  maxRetries?: number; // retries for transient failures per chunk
+  retryBaseDelayMs?: number;
+  interChunkDelayMs?: number;
+}
+
+/**
+ * How an eth_getLogs failure should be handled
+ */
+export type LogQueryErrorKind = 'range-limit' | 'too-many-results' | 'transient' | 'fatal';
+
+const RANGE_LIMIT_PATTERNS = [
+  /block range/i,
+  /range (is )?too (large|wide)/i,
+  /exceed(s|ed)? (the )?max(imum)? (block )?range/i,
+  /up to a \d+ block range/i,
+  /eth_getLogs is limited to/i,
+];
+
+const TOO_MANY_RESULTS_PATTERNS = [
+  /more than \d+ results/i,
+  /too many (results|logs)/i,
+  /response size (exceeded|is larger)/i,
+  /log response size/i,
+  /query timeout exceeded/i,
+];
+
+const TRANSIENT_PATTERNS = [
+  /timeout/i,
+  /timed out/i,
+  /ECONNRESET/,
+  /ECONNREFUSED/,
+  /ENOTFOUND/,
+  /socket hang up/i,
+  /429/,
+  /rate limit/i,
+  /too many requests/i,
+  /bad gateway|service unavailable|gateway timeout/i,
+  /missing response/i,
+];
+
+/**
+ * eth_getLogs scanner that learns the provider's limits
+ * Bisects the window on range/result-size errors, grows it back after successes,
+ * and retries transient failures with exponential backoff
+ * A learned limit is raised again (up to maxRange) after a run of successes at it, so a
+ * single bad provider response does not cap every later scan
+ */
+export class AdaptiveLogScanner {
+  private readonly logger = new Logger(AdaptiveLogScanner.name);
+  private readonly growAfterSuccesses: number;
+  private readonly raiseLimitAfterSuccesses: number;
+  private readonly maxRange: number;
+  private readonly maxRetries: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly interChunkDelayMs: number;
+
+  private window: number;
+  private ceiling: number; // provider-imposed limit (learned from range errors)
+  private consecutiveSuccesses = 0;
+
+  /**
+   * Called when a new provider block-range limit has been learned (or raised again)
+   */
+  onLimitLearned: ((limit: number) => Promise<void>) | null = null;
+
+  constructor(options: AdaptiveLogScannerOptions) {
+    this.growAfterSuccesses = options.growAfterSuccesses ?? 5;
+    this.raiseLimitAfterSuccesses = options.raiseLimitAfterSuccesses ?? this.growAfterSuccesses * 4;
+    this.maxRange = Math.max(1, options.maxRange);
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 500;
+    this.interChunkDelayMs = options.interChunkDelayMs ?? 200;
+
+    this.ceiling = Math.max(
+      1,
+      Math.min(options.learnedLimit || options.maxRange, options.maxRange),
+    );
+    this.window = Math.max(1, Math.min(options.initialRange, this.ceiling));
+  }
+
+  get currentRange(): number {
+    return this.window;
+  }
+
+  get learnedLimit(): number {
+    return this.ceiling;
+  }
+
+  /**
+   * Scan [fromBlock, toBlock] in adaptive chunks
+   * @param query Fetches logs for an inclusive block range
+   * @param onChunk Handles each successfully fetched chunk, in order
+   */
+  async scan<T>(
+    fromBlock: number,
+    toBlock: number,
+    query: (from: number, to: number) => Promise<T[]>,
+    onChunk: (from: number, to: number, logs: T[]) => Promise<void>,
+  ): Promise<void> {
+    let cursor = fromBlock;
+
+    while (cursor <= toBlock) {
+      const end = Math.min(cursor + this.window - 1, toBlock);
+
+      let logs: T[];
+      try {
+        logs = await this.queryWithRetry(cursor, end, query);
+      } catch (error) {
+        const kind = AdaptiveLogScanner.classifyError(error);
+        const span = end - cursor + 1;
+
+        if ((kind === 'range-limit' || kind === 'too-many-results') && span > 1) {
+          await this.shrink(span, kind, error);
+          continue;
+        }
+        throw error;
+      }
+
+      await onChunk(cursor, end, logs);
+      await this.grow();
+      cursor = end + 1;
+
+      if (cursor <= toBlock && this.interChunkDelayMs > 0) {
+        await this.sleep(this.interChunkDelayMs);
+      }
+    }
+  }
+
+  /**
+   * Classify an RPC error by message / code
+   */
+  static classifyError(error: any): LogQueryErrorKind {
+    const message = [error?.message, error?.error?.message, error?.body, error?.reason]
+      .filter(Boolean)
+      .join(' ');
+
+    if (TOO_MANY_RESULTS_PATTERNS.some((pattern) => pattern.test(message))) {
+      return 'too-many-results';
+    }
+    if (RANGE_LIMIT_PATTERNS.some((pattern) => pattern.test(message))) {
+      return 'range-limit';
+    }
+    if (
+      error?.code === 'TIMEOUT' ||
+      error?.code === 'SERVER_ERROR' ||
+      error?.code === 'NETWORK_ERROR' ||
+      TRANSIENT_PATTERNS.some((pattern) => pattern.test(message))
+    ) {
+      return 'transient';
+    }
+    return 'fatal';
+  }
+
+  /**
+   * Errors caused by the request shape rather than the provider being down
+   * (these should not trigger RPC failover)
+   */
+  static isRequestError(error: any): boolean {
+    const kind = AdaptiveLogScanner.classifyError(error);
+    return kind === 'range-limit' || kind === 'too-many-results';
+  }
+
+  /**
+   * Some providers tell us the allowed range ("up to a 10 block range", "[0x1, 0xa]")
+   */
+  static suggestedRange(error: any): number | null {
+    const message = [error?.message, error?.error?.message, error?.body].filter(Boolean).join(' ');
+
+    const upTo = message.match(/up to a (\d+) block range/i);
+    if (upTo) {
+      return parseInt(upTo[1], 10);
+    }
+
+    const hexRange = message.match(/\[(0x[0-9a-f]+),\s*(0x[0-9a-f]+)\]/i);
+    if (hexRange) {
+      return parseInt(hexRange[2], 16) - parseInt(hexRange[1], 16) + 1;
+    }
+
+    return null;
+  }
+
+  private async queryWithRetry<T>(
+    from: number,
+    to: number,
+    query: (from: number, to: number) => Promise<T[]>,
+  ): Promise<T[]> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await query(from, to);
+      } catch (error) {
+        const transient = AdaptiveLogScanner.classifyError(error) === 'transient';
+        if (!transient || attempt >= this.maxRetries) {
+          throw error;
+        }
+        const delay = this.retryBaseDelayMs * 2 ** attempt;
+        this.logger.warn(
+          `   ⚠️ Transient error for ${from} → ${to}, retrying in ${delay}ms: ${error.message || error}`,
+        );
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  private async shrink(failedSpan: number, kind: LogQueryErrorKind, error: any) {
+    const suggested = AdaptiveLogScanner.suggestedRange(error);
+    const next = Math.max(
+      1,
+      suggested && suggested < failedSpan ? suggested : Math.floor(failedSpan / 2),
+    );
+
+    this.window = next;
+    this.consecutiveSuccesses = 0;
+    this.logger.warn(`   ✂️ ${kind} for ${failedSpan} blocks - shrinking window to ${next}`);
+
+    // Only hard range limits are a property of the provider; result-size limits depend on density
+    if (kind === 'range-limit' && next < this.ceiling) {
+      this.ceiling = next;
+      if (this.onLimitLearned) {
+        await this.onLimitLearned(next);
+      }
+    }
+  }
+
+  private async grow() {
+    this.consecutiveSuccesses++;
+    if (this.window >= this.ceiling) {
+      await this.raiseLimit();
+      return;
+    }
+    if (this.consecutiveSuccesses < this.growAfterSuccesses) {
+      return;
+    }
+    this.window = Math.min(this.ceiling, this.window * 2);
+    this.consecutiveSuccesses = 0;
+    this.logger.debug(`   📈 Growing eth_getLogs window to ${this.window}`);
+  }
+
+  /**
+   * Probe above the learned limit once the window has been working at it for a while
+   * If the provider still rejects the larger range, shrink() learns the old limit again
+   */
+  private async raiseLimit() {
+    if (
+      this.ceiling >= this.maxRange ||
+      this.consecutiveSuccesses < this.raiseLimitAfterSuccesses
+    ) {
+      return;
+    }
+    this.ceiling = Math.min(this.maxRange, this.ceiling * 2);
+    this.consecutiveSuccesses = 0;
+    this.logger.log(`   📈 Raising eth_getLogs limit to ${this.ceiling} blocks`);
+    if (this.onLimitLearned) {
+      await this.onLimitLearned(this.ceiling);
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,231 @@
+import { Logger } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DataSource } from 'typeorm';
+import {
+  BlockCheckpointEntity,
+  BlockCheckpointRepository,
+  ProviderLimitRepository,
+  RevokedCredentialEntity,
+  RevokedCredentialRepository,
+  SyncStateEntity,
+  SyncStateRepository,
+} from '@infra/database';
+import {
+  BLOCKCHAIN_EVENTS,
+  BlockchainListenerService,
+  ReorgEventData,
+} from './blockchain-listener.service';
+import { ChainEventInboxService } from './chain-event-inbox.service';
+import { JobSchedulerService } from './job-scheduler.service';
+
+const NETWORK = { name: 'sepolia', chainId: 11155111, contractAddress: '0x' + 'ab'.repeat(20) };
+const LOCK_ID = '1';
+
+describe('BlockchainListenerService reorg rollback', () => {
+  let dataSource: DataSource;
+  let revocations: RevokedCredentialRepository;
+  let checkpoints: BlockCheckpointRepository;
+  let syncState: SyncStateRepository;
+  let eventEmitter: EventEmitter2;
+  let eventInbox: { discardAboveBlock: jest.Mock };
+  let service: BlockchainListenerService;
+  let chain: Map<number, string | null>; // block number -> canonical hash (null = not returned)
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      entities: [RevokedCredentialEntity, BlockCheckpointEntity, SyncStateEntity],
+      synchronize: true,
+    });
+    await dataSource.initialize();
+
+    revocations = new RevokedCredentialRepository(
+      dataSource.getRepository(RevokedCredentialEntity),
+    );
+    checkpoints = new BlockCheckpointRepository(dataSource.getRepository(BlockCheckpointEntity));
+    syncState = new SyncStateRepository(dataSource.getRepository(SyncStateEntity));
+    eventEmitter = new EventEmitter2();
+    eventInbox = { discardAboveBlock: jest.fn().mockResolvedValue(0) };
+
+    service = new BlockchainListenerService(
+      eventEmitter,
+      syncState,
+      revocations,
+      checkpoints,
+      {} as ProviderLimitRepository,
+      eventInbox as unknown as ChainEventInboxService,
+      {} as JobSchedulerService,
+    );
+
+    chain = new Map();
+    const provider = {
+      getBlockNumber: async () => 120,
+      getBlock: async (blockNumber: number) => {
+        const hash = chain.has(blockNumber) ? chain.get(blockNumber) : `0xcanonical${blockNumber}`;
+        return hash === null ? null : { number: blockNumber, hash };
+      },
+    };
+    Object.assign(service, {
+      networkConfig: NETWORK,
+      lockIds: [LOCK_ID],
+      confirmations: 3,
+      rpcPool: { execute: (fn: (p: typeof provider) => Promise<unknown>) => fn(provider) },
+    });
+
+    // Blocks 100-102 synced while 101 and 102 were on a fork
+    for (const blockNumber of [100, 101, 102]) {
+      await checkpoints.record(
+        NETWORK.name,
+        NETWORK.contractAddress,
+        blockNumber,
+        `0xfork${blockNumber}`,
+      );
+    }
+    chain.set(100, '0xfork100');
+    for (const blockNumber of [99, 101, 102]) {
+      await revocations.save({
+        id: `${LOCK_ID}:0x${blockNumber}`,
+        lockId: LOCK_ID,
+        vcHash: `0x${blockNumber}`,
+        blockNumber,
+        blockHash: `0xfork${blockNumber}`,
+        status: 'confirmed',
+        revokedAt: new Date(),
+      });
+    }
+    await syncState.getOrCreate(NETWORK.chainId, NETWORK.name, NETWORK.contractAddress, LOCK_ID);
+    await syncState.updateLastSyncedBlock(NETWORK.chainId, NETWORK.contractAddress, [LOCK_ID], 102);
+    Object.assign(service, { lastSyncedBlock: 102 });
+  });
+
+  afterEach(async () => {
+    service['rpcGovernor'].destroy();
+    await dataSource.destroy();
+  });
+
+  const storedBlocks = async () =>
+    (await revocations.getAllRevocations())
+      .map((revocation) => revocation.blockNumber)
+      .sort((a, b) => a - b);
+
+  it('rolls back revocations, checkpoints and the sync position above the common ancestor', async () => {
+    const reorgs: ReorgEventData[] = [];
+    eventEmitter.on(BLOCKCHAIN_EVENTS.REORG_DETECTED, (data: ReorgEventData) => reorgs.push(data));
+
+    await expect(service['detectReorg']()).resolves.toBe(true);
+
+    expect(await storedBlocks()).toEqual([99]);
+    const remaining = await checkpoints.getRecent(NETWORK.name, NETWORK.contractAddress, 10);
+    expect(remaining.map((checkpoint) => checkpoint.blockNumber)).toEqual([100]);
+    const state = await syncState.getOrCreate(
+      NETWORK.chainId,
+      NETWORK.name,
+      NETWORK.contractAddress,
+      LOCK_ID,
+    );
+    expect(state.lastSyncedBlock).toBe(100);
+    expect(reorgs).toEqual([
+      expect.objectContaining({ commonAncestorBlock: 100, orphanedRevocations: 2 }),
+    ]);
+  });
+
+  it('does not roll back when the provider returns no block', async () => {
+    chain.set(102, null);
+
+    await expect(service['detectReorg']()).resolves.toBe(false);
+
+    expect(await storedBlocks()).toEqual([99, 101, 102]);
+    expect(service.getStats().reorgsDetected).toBe(0);
+  });
+
+  it('does not roll back when the checkpoints match the chain', async () => {
+    chain.set(101, '0xfork101');
+    chain.set(102, '0xfork102');
+
+    await expect(service['detectReorg']()).resolves.toBe(false);
+
+    expect(await storedBlocks()).toEqual([99, 101, 102]);
+  });
+
+  it('keeps a pending revocation pending when the provider returns no block', async () => {
+    await revocations.save({
+      id: `${LOCK_ID}:0x103`,
+      lockId: LOCK_ID,
+      vcHash: '0x103',
+      blockNumber: 103,
+      blockHash: '0xcanonical103',
+      status: 'pending',
+      revokedAt: new Date(),
+    });
+    chain.set(103, null);
+
+    await service['confirmPendingRevocations'](110);
+
+    expect(await storedBlocks()).toEqual([99, 101, 102, 103]);
+    expect(await revocations.countPending()).toBe(1);
+    expect(service.getStats().reorgsDetected).toBe(0);
+  });
+
+  it('rolls back a pending revocation found while a batch sync is scanning before re-syncing', async () => {
+    await revocations.save({
+      id: `${LOCK_ID}:0x105`,
+      lockId: LOCK_ID,
+      vcHash: '0x105',
+      blockNumber: 105,
+      blockHash: '0xfork105',
+      status: 'pending',
+      revokedAt: new Date(),
+    });
+
+    // The first scan commits blocks up to 110, then waits before its next chunk
+    let scanPaused: () => void;
+    const paused = new Promise<void>((resolve) => (scanPaused = resolve));
+    let resumeScan: () => void;
+    const resumed = new Promise<void>((resolve) => (resumeScan = resolve));
+    const scannedFrom: number[] = [];
+    Object.assign(service, {
+      detectReorg: jest.fn().mockResolvedValue(false),
+      refreshPauseState: jest.fn().mockResolvedValue(undefined),
+      scanLockLogs: jest.fn(
+        async (
+          from: number,
+          to: number,
+          _: string[],
+          onChunk: (from: number, to: number, parsed: []) => Promise<void>,
+        ) => {
+          scannedFrom.push(from);
+          if (scannedFrom.length === 1) {
+            await onChunk(from, 110, []);
+            scanPaused();
+            await resumed;
+            await onChunk(111, to, []);
+          }
+        },
+      ),
+    });
+
+    const sync = service.performBatchSync();
+    await paused;
+    expect(service['lastSyncedBlock']).toBe(110);
+
+    const rollback = service['confirmPendingRevocations'](120);
+    while (!service['batchSyncAborted']) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    resumeScan!();
+    await Promise.all([sync, rollback]);
+
+    expect(scannedFrom).toEqual([103, 105]);
+    expect(eventInbox.discardAboveBlock).toHaveBeenCalledWith(104);
+    expect(await storedBlocks()).toEqual([99, 101, 102]);
+    expect(
+      await syncState.getLastSyncedBlock(NETWORK.chainId, NETWORK.contractAddress, LOCK_ID),
+    ).toBe(104);
+    expect(service.getStats().reorgsDetected).toBe(1);
+  });
+});
@@ -2,7 +2,29 @@ import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/commo
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { ethers } from 'ethers';
 import { AccessControl, AccessControl__factory } from '../typechain-types';
-import { SyncStateRepository } from '@infra/database';
+import { RpcProvider, RpcProviderPool, RpcProviderStatus } from './rpc-provider-pool';
+import { RpcGovernor, RpcGovernorStatus, RpcPriority } from './rpc-governor';
+import { AdaptiveLogScanner } from './adaptive-log-scanner';
+import { ReceiptVerifier } from './receipt-verifier';
+import {
+  BlockCheckpointRepository,
+  ProviderLimitRepository,
+  RevokedCredentialEntity,
+  RevokedCredentialRepository,
+  SyncStateRepository,
+} from '@infra/database';
+import { NetworkRegistry } from '@infra/config';
+import { ChainEventInboxService } from './chain-event-inbox.service';
+import { describeSchedule, intervalSchedule, JobSchedulerService } from './job-scheduler.service';
+
+/**
+ * Jobs the listener registers with the scheduler
+ */
+export const LISTENER_JOBS = {
+  BATCH_SYNC: 'batch-sync',
+  RPC_PROBE: 'rpc-probe',
+  RECONNECT: 'chain-reconnect',
+} as const;
 
 /**
  * Events emitted by the blockchain listener
@@ -10,8 +32,14 @@ import { SyncStateRepository } from '@infra/database';
 export const BLOCKCHAIN_EVENTS = {
   CREDENTIAL_REVOKED: 'credential.revoked',
   BATCH_SYNC_COMPLETE: 'batch.sync.complete',
+  REVOCATIONS_CONFIRMED: 'credential.revocations.confirmed',
+  REORG_DETECTED: 'blockchain.reorg',
+  LOG_REJECTED: 'blockchain.log.rejected',
+  LOCK_OWNERSHIP_TRANSFERRED: 'lock.ownership.transferred',
+  CONTRACT_PAUSE_CHANGED: 'contract.pause.changed',
   LOCK_INFO_LOADED: 'lock.info.loaded',
   NEW_BLOCK: 'blockchain.newBlock',
+  SYNC_PROGRESS: 'sync.progress',
   ERROR: 'blockchain.error',
 } as const;
 
@@ -20,9 +48,13 @@ export const BLOCKCHAIN_EVENTS = {
  */
 interface NetworkConfig {
   name: string;
-  rpcUrl: string;
+  chainId: number;
+  rpcUrl: string; // primary endpoint
+  rpcUrls: string[]; // primary + fallbacks, in priority order
   contractAddress: string;
   startBlock: number;
+  blockTimeSeconds: number;
+  confirmations: number; // network default, CONFIRMATIONS overrides
 }
 
 /**
@@ -33,14 +65,88 @@ export interface RevocationEventData {
   revokedBy: string;
   transactionHash: string;
   blockNumber: number;
+  blockHash: string;
   logIndex: number;
-  timestamp: Date;
+  timestamp: Date; // block timestamp (when the revocation happened on-chain)
+  detectedAt: Date; // when this gateway saw the event
+  confirmed: boolean; // false until CONFIRMATIONS blocks deep
   source: 'real-time' | 'batch';
   network: string;
   contractAddress: string;
   lockId: string;
 }
 
+/**
+ * Lock ownership transfer event data
+ */
+export interface OwnershipTransferEventData {
+  lockId: string;
+  previousOwner: string;
+  newOwner: string;
+  signerAddress: string | null; // on-chain signer after the transfer
+  transactionHash: string;
+  blockNumber: number;
+  timestamp: Date;
+  source: 'real-time' | 'batch';
+}
+
+/**
+ * Pausable state of the AccessControl contract
+ * While paused no revocations can be published, so the revocation cache may be stale
+ */
+export interface ContractPauseState {
+  paused: boolean | null; // null until first read from the contract
+  since: string | null; // when the current state began (null if unknown)
+  account: string | null; // account that paused/unpaused
+  blockNumber: number | null;
+}
+
+/**
+ * Pause state change event data
+ */
+export interface PauseStateEventData extends ContractPauseState {
+  source: 'initial' | 'real-time' | 'poll';
+}
+
+/**
+ * Lock registration as stored in the AccessControl contract
+ */
+export interface OnChainLockInfo {
+  lockId: number;
+  exists: boolean;
+  owner: string | null;
+  signerAddress: string | null;
+  revokedCount: number;
+  network: string;
+  contractAddress: string;
+}
+
+/**
+ * Progress of the current (or last) batch sync run
+ * Blocks are counted towards the run's target block, i.e. the head when the run started
+ */
+export interface SyncProgress {
+  state: 'idle' | 'syncing';
+  lastResult: 'completed' | 'failed' | null;
+  startBlock: number | null;
+  targetBlock: number | null;
+  currentBlock: number | null; // last block scanned in this run
+  headBlock: number;
+  blocksTotal: number;
+  blocksScanned: number;
+  blocksRemaining: number;
+  percent: number;
+  eventsFound: number;
+  blocksPerSecond: number | null;
+  etaSeconds: number | null;
+  estimatedCompletionAt: string | null;
+  startedAt: string | null;
+  updatedAt: string | null;
+  finishedAt: string | null;
+  stalled: boolean; // syncing, but no chunk finished within SYNC_STALL_SECONDS
+  error: string | null;
+}
+
 /**
  * Hybrid sync statistics
  */
@@ -54,31 +160,113 @@ export interface HybridSyncStats {
   blocksBehind: number;
   pendingUpdates: number;
   totalRevocations: number;
+  confirmations: number;
+  reorgsDetected: number;
+  lastReorg: string | null;
+  reconnects: number;
+  lastDisconnect: string | null;
+  logsVerified: number;
+  logsRejected: number;
+  logsRecovered: number;
 }
 
 /**
- * Single-Lock Blockchain Listener Service
- * Monitors one specific lock configured via LOCK_ID environment variable
+ * How current the local revocation data is
+ * dataAsOf is the last time a batch sync completed (or a snapshot was imported)
+ */
+export interface RevocationDataFreshness {
+  online: boolean;
+  offlineSince: string | null;
+  dataAsOf: string | null;
+  stalenessSeconds: number | null;
+}
+
+/**
+ * A log that was not in its block's receipts (LOG_VERIFICATION=receipts)
+ */
+export interface LogRejectedEventData {
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  reason: string;
+  source: 'batch' | 'real-time';
+}
+
+/**
+ * Reorg rollback details
+ */
+export interface ReorgEventData {
+  commonAncestorBlock: number;
+  orphanedRevocations: number;
+  detectedAt: string;
+  network: string;
+  contractAddress: string;
+  lockIds: string[];
+}
+
+/**
+ * Stops a running batch sync before it commits another chunk (a reorg rollback is waiting)
+ */
+class BatchSyncAbortedError extends Error {
+  constructor() {
+    super('Batch sync aborted for a reorg rollback');
+    this.name = 'BatchSyncAbortedError';
+  }
+}
+
+/**
+ * Blockchain Listener Service
+ * Monitors every lock configured on this gateway with one subscription (topic1 = any of
+ * the lock ids) and one shared sync position
  * Implements real-time event listening + periodic batch sync (every 15 minutes)
- * Fetches lock's public key on startup for signature verification
  */
 @Injectable()
 export class BlockchainListenerService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(BlockchainListenerService.name);
-  private provider: ethers.providers.JsonRpcProvider | ethers.providers.WebSocketProvider;
+  private static readonly BLOCK_TIMESTAMP_CACHE_SIZE = 2048;
+  private provider: RpcProvider;
+  private rpcPool: RpcProviderPool;
+  // Outlives the pool so daily budgets and counters survive re-initialization
+  private readonly rpcGovernor = new RpcGovernor({
+    maxRequestsPerSecond: parseInt(process.env.RPC_MAX_REQUESTS_PER_SECOND || '0', 10),
+    dailyBudget: parseInt(process.env.RPC_DAILY_BUDGET || '0', 10),
+    budgetReservePercent: parseInt(process.env.RPC_BUDGET_RESERVE_PERCENT || '10', 10),
+    rateLimitBackoffMs: parseInt(process.env.RPC_RATE_LIMIT_BACKOFF_MS || '1000', 10),
+    rateLimitMaxBackoffMs: parseInt(process.env.RPC_RATE_LIMIT_MAX_BACKOFF_MS || '60000', 10),
+  });
+  private logScanners: Map<string, AdaptiveLogScanner> = new Map(); // per RPC URL
+  private receiptVerifier: ReceiptVerifier | null = null; // LOG_VERIFICATION=receipts
   private contract: AccessControl;
   private networkConfig: NetworkConfig;
 
-  // Lock-specific data
-  private lockId: string;
+  // Locks managed by this gateway
+  private lockIds: string[] = [];
+  private realtimeFilters: ethers.EventFilter[] = [];
 
   // Hybrid sync state
   private isListening = false;
-  private batchSyncInterval: NodeJS.Timeout | null = null;
+  private batchSyncRun: Promise<void> | null = null;
+  private batchSyncRequested = false;
+  private batchSyncAborted = false;
+  private rollbackTarget: number | null = null; // common ancestor of a rollback waiting to run
   private lastSyncedBlock: number = 0;
   private currentBlock: number = 0;
   private pendingUpdates: Set<string> = new Set(); // Track real-time updates to avoid duplicates
   private processingEvents: Set<string> = new Set(); // Lock for currently processing events
+  private processedOwnershipTransfers: Set<string> = new Set(); // txHash:logIndex
+  private blockTimestamps: Map<string, number> = new Map(); // block hash (or #number) -> unix seconds
+  private pauseState: ContractPauseState = {
+    paused: null,
+    since: null,
+    account: null,
+    blockNumber: null,
+  };
+
+  // Reorg protection
+  private confirmations = 3;
+  private checkpointDepth = 64;
+  private reorgCheckInProgress = false;
 
   // Statistics
   private stats = {
@@ -87,11 +275,45 @@ export class BlockchainListenerService implements OnModuleInit, OnModuleDestroy
     lastBatchSync: null as string | null,
     lastRealTimeUpdate: null as string | null,
     totalRevocations: 0,
+    reorgsDetected: 0,
+    lastReorg: null as string | null,
+    reconnects: 0,
+    lastDisconnect: null as string | null,
+    logsVerified: 0,
+    logsRejected: 0,
+    logsRecovered: 0,
   };
 
+  // Head block when the WebSocket last dropped (start of the gap to backfill)
+  private disconnectedAtBlock: number | null = null;
+
+  // Offline operation: set while no RPC provider can be reached
+  private offlineSince: Date | null = null;
+  private lastSyncCompletedAt: Date | null = null;
+
+  // Batch sync progress
+  private progress = {
+    state: 'idle' as SyncProgress['state'],
+    lastResult: null as SyncProgress['lastResult'],
+    startBlock: null as number | null,
+    targetBlock: null as number | null,
+    currentBlock: null as number | null,
+    eventsFound: 0,
+    startedAt: null as number | null,
+    updatedAt: null as number | null,
+    finishedAt: null as number | null,
+    error: null as string | null,
+  };
+  private lastProgressEmit = 0;
+
   constructor(
     private eventEmitter: EventEmitter2,
     private syncStateRepo: SyncStateRepository,
+    private revokedCredentialRepo: RevokedCredentialRepository,
+    private checkpointRepo: BlockCheckpointRepository,
+    private providerLimitRepo: ProviderLimitRepository,
+    private eventInbox: ChainEventInboxService,
+    private jobScheduler: JobSchedulerService,
   ) {}
 
   async onModuleInit() {
@@ -104,102 +326,202 @@ export class BlockchainListenerService implements OnModuleInit, OnModuleDestroy
 
   async onModuleDestroy() {
     await this.stopHybridSync();
+    this.rpcGovernor.destroy();
   }
 
   /**
-   * Get network configuration based on NETWORK environment variable
+   * Get network configuration based on NETWORK environment variable (name or chainId)
    */
   private getNetworkConfig(): NetworkConfig {
-    const network = process.env.NETWORK || 'sepolia';
-
-    if (network === 'mainnet') {
-      return {
-        name: 'mainnet',
-        rpcUrl: process.env.MAINNET_RPC_URL || '',
-        contractAddress: process.env.MAINNET_CONTRACT_ADDRESS || '',
-        startBlock: parseInt(process.env.MAINNET_START_BLOCK || '0', 10),
-      };
-    } else {
-      // Default to Sepolia testnet
-      return {
-        name: 'sepolia',
-        rpcUrl: process.env.SEPOLIA_RPC_URL || '',
-        contractAddress: process.env.SEPOLIA_CONTRACT_ADDRESS || '',
-        startBlock: parseInt(process.env.SEPOLIA_START_BLOCK || '0', 10),
-      };
-    }
+    const { network } = NetworkRegistry.resolve(process.env.NETWORK || 'sepolia');
+    return {
+      name: network.name,
+      chainId: network.chainId,
+      rpcUrl: network.rpcUrls[0] || '',
+      rpcUrls: network.rpcUrls,
+      contractAddress: network.contractAddress,
+      startBlock: network.startBlock,
+      blockTimeSeconds: network.blockTimeSeconds,
+      confirmations: network.confirmations,
+    };
   }
 
   /**
-   * Initialize blockchain connection for a specific lock
-   * Called by ConfigController after lock is configured
+   * Initialize blockchain connection for the configured locks
+   * Called again whenever a lock is added or removed; a running listener is restarted
    */
-  async initialize(lockId: number): Promise<void> {
+  async initialize(lockIds: number[]): Promise<void> {
     try {
-      // Set lock ID from parameter
-      this.lockId = lockId.toString();
+      if (this.rpcPool) {
+        await this.stopHybridSync();
+      }
+      this.lockIds = [...new Set(lockIds.map((lockId) => lockId.toString()))];
 
       this.networkConfig = this.getNetworkConfig();
+      this.confirmations = Math.max(
+        0,
+        process.env.CONFIRMATIONS
+          ? parseInt(process.env.CONFIRMATIONS, 10)
+          : this.networkConfig.confirmations,
+      );
+      this.checkpointDepth = Math.max(1, parseInt(process.env.REORG_CHECKPOINT_DEPTH || '64', 10));
 
       if (!this.networkConfig.rpcUrl || !this.networkConfig.contractAddress) {
         throw new Error(`${this.networkConfig.name} RPC URL or Contract Address not configured`);
       }
 
-      // Initialize provider based on URL scheme (wss:// = WebSocket, https:// = HTTP)
-      if (
-        this.networkConfig.rpcUrl.startsWith('wss://') ||
-        this.networkConfig.rpcUrl.startsWith('ws://')
-      ) {
-        this.logger.log('📡 Initializing WebSocket provider for real-time events...');
-        this.provider = new ethers.providers.WebSocketProvider(this.networkConfig.rpcUrl);
-      } else {
-        this.logger.log('📡 Initializing JSON-RPC provider (HTTP polling)...');
-        this.provider = new ethers.providers.JsonRpcProvider(this.networkConfig.rpcUrl);
+      // Initialize provider pool (each URL gets a WebSocket or HTTP provider based on its scheme)
+      this.rpcPool = new RpcProviderPool(this.networkConfig.rpcUrls, {
+        quorum: parseInt(process.env.RPC_QUORUM || '1', 10),
+        requestTimeoutMs: parseInt(process.env.RPC_REQUEST_TIMEOUT_MS || '30000', 10),
+        heartbeatIntervalMs: parseInt(process.env.WS_HEARTBEAT_INTERVAL_MS || '30000', 10),
+        heartbeatTimeoutMs: parseInt(process.env.WS_HEARTBEAT_TIMEOUT_MS || '10000', 10),
+        reconnectBaseDelayMs: parseInt(process.env.WS_RECONNECT_BASE_DELAY_MS || '1000', 10),
+        reconnectMaxDelayMs: parseInt(process.env.WS_RECONNECT_MAX_DELAY_MS || '60000', 10),
+        governor: this.rpcGovernor,
+        pollingIntervalMs: parseInt(process.env.RPC_POLLING_INTERVAL_MS || '4000', 10),
+      });
+      this.rpcPool.onFailover = (provider) => this.attachProvider(provider);
+      this.rpcPool.onDisconnect = (url, reason) => this.handleDisconnect(reason);
+      this.rpcPool.onReconnect = (provider, url, disconnectedAt) =>
+        this.handleReconnect(provider, disconnectedAt);
+      this.provider = this.rpcPool.getActiveProvider();
+      this.receiptVerifier =
+        process.env.LOG_VERIFICATION === 'receipts' ? new ReceiptVerifier(this.rpcPool) : null;
+      this.logger.log(
+        `📡 Initialized ${this.rpcPool.size} RPC provider(s)` +
+          (this.rpcPool.quorumSize > 1 ? ` (quorum ${this.rpcPool.quorumSize})` : ''),
+      );
+
+      // Test connection (fails over to the next provider if the primary is down)
+      let network: ethers.providers.Network;
+      try {
+        network = await this.rpcPool.execute((provider) => provider.getNetwork(), {
+          priority: 'realtime',
+        });
+      } catch (error) {
+        // Boot without the chain; verification answers from SQLite within the staleness budget
+        await this.enterOfflineMode(error);
+        return;
       }
+      await this.connect(network);
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to initialize blockchain listener: ${error.message}`,
+        error.stack,
+      );
+      this.eventEmitter.emit(BLOCKCHAIN_EVENTS.ERROR, error);
+      throw error;
+    }
+  }
 
-      // Test connection
-      const network = await this.provider.getNetwork();
-      this.logger.log(`Connected to network: ${network.name} (chainId: ${network.chainId})`);
+  /**
+   * Finish initialization once an RPC provider answered
+   */
+  private async connect(network: ethers.providers.Network) {
+    this.logger.log(`Connected to network: ${network.name} (chainId: ${network.chainId})`);
 
-      // Initialize contract with TypeChain factory
-      this.contract = AccessControl__factory.connect(
-        this.networkConfig.contractAddress,
-        this.provider,
+    // Refuse to sync from an RPC endpoint on a different chain than configured
+    if (network.chainId !== this.networkConfig.chainId) {
+      throw new Error(
+        `RPC endpoint is on chainId ${network.chainId}, but NETWORK=${this.networkConfig.name} expects chainId ${this.networkConfig.chainId}`,
       );
+    }
 
-      // Get current block
-      this.currentBlock = await this.provider.getBlockNumber();
-      // Load last synced block from DB if available; otherwise use configured startBlock
-      const persisted = await this.syncStateRepo.getOrCreate(
-        this.networkConfig.name,
-        this.networkConfig.contractAddress,
-        this.lockId,
-      );
-      this.lastSyncedBlock = Math.max(
-        persisted.lastSyncedBlock || 0,
-        this.networkConfig.startBlock,
-      );
+    // Initialize contract with TypeChain factory
+    this.contract = AccessControl__factory.connect(
+      this.networkConfig.contractAddress,
+      this.rpcPool.getActiveProvider(),
+    );
+    this.provider = this.rpcPool.getActiveProvider();
 
-      this.logger.log(`🔒 Monitoring Lock ID: ${this.lockId}`);
-      this.logger.log(`📍 Current block: ${this.currentBlock}`);
-      this.logger.log(`📍 Starting from block: ${this.lastSyncedBlock}`);
-      this.logger.log(`🌐 Using ${this.networkConfig.name} network`);
+    // Load the contract's Pausable state (later kept up to date by events + batch sync)
+    await this.refreshPauseState('initial');
 
-      // Emit event so other services can access the lock info
-      this.eventEmitter.emit(BLOCKCHAIN_EVENTS.LOCK_INFO_LOADED, this.lockId);
+    // Get current block
+    this.currentBlock = await this.rpcPool.execute((provider) => provider.getBlockNumber(), {
+      priority: 'realtime',
+    });
+    await this.loadSyncState();
 
-      // Start hybrid sync after initialization
-      await this.startHybridSync();
+    this.logger.log(`🔒 Monitoring Lock IDs: ${this.lockIds.join(', ')}`);
+    this.logger.log(`📍 Current block: ${this.currentBlock}`);
+    this.logger.log(`📍 Starting from block: ${this.lastSyncedBlock}`);
+    this.logger.log(`⛓️  Confirmations required: ${this.confirmations}`);
+    this.logger.log(`🌐 Using ${this.networkConfig.name} network`);
 
-      this.logger.log('✅ Blockchain listener initialized');
-    } catch (error) {
-      this.logger.error(
-        `❌ Failed to initialize blockchain listener: ${error.message}`,
-        error.stack,
+    // Emit event so other services can access the lock info
+    this.eventEmitter.emit(BLOCKCHAIN_EVENTS.LOCK_INFO_LOADED, this.lockIds);
+
+    // Start hybrid sync after initialization
+    await this.startHybridSync();
+    this.offlineSince = null;
+
+    this.logger.log('✅ Blockchain listener initialized');
+  }
+
+  /**
+   * No RPC provider reachable at startup: serve from the local cache and retry in the background
+   */
+  private async enterOfflineMode(error: Error) {
+    await this.loadSyncState();
+    this.offlineSince = this.offlineSince ?? new Date();
+
+    const retrySeconds = parseInt(process.env.OFFLINE_RETRY_INTERVAL_SECONDS || '30', 10);
+    this.logger.warn(
+      `📴 Chain unreachable (${error.message}) - starting offline with revocation data as of ` +
+        `${this.lastSyncCompletedAt ? this.lastSyncCompletedAt.toISOString() : 'never'}, retrying every ${retrySeconds}s`,
+    );
+
+    this.jobScheduler.register(LISTENER_JOBS.RECONNECT, {
+      ...intervalSchedule(retrySeconds),
+      description: 'Retry connecting to the chain while offline',
+      handler: () => this.retryConnect(),
+    });
+  }
+
+  /**
+   * Load the shared sync position from DB (otherwise the configured startBlock)
+   * Locks are scanned together, so a newly added lock pulls the position back to its own
+   */
+  private async loadSyncState() {
+    const persisted = [];
+    for (const lockId of this.lockIds) {
+      persisted.push(
+        await this.syncStateRepo.getOrCreate(
+          this.networkConfig.chainId,
+          this.networkConfig.name,
+          this.networkConfig.contractAddress,
+          lockId,
+        ),
       );
-      this.eventEmitter.emit(BLOCKCHAIN_EVENTS.ERROR, error);
-      throw error;
     }
+    this.lastSyncedBlock = Math.max(
+      Math.min(...persisted.map((state) => state.lastSyncedBlock || 0)),
+      this.networkConfig.startBlock,
+    );
+    this.lastSyncCompletedAt = persisted.some((state) => !state.lastSyncCompletedAt)
+      ? null
+      : new Date(Math.min(...persisted.map((state) => state.lastSyncCompletedAt.getTime())));
+  }
+
+  private async retryConnect() {
+    let network: ethers.providers.Network;
+    try {
+      network = await this.rpcPool.execute((provider) => provider.getNetwork(), {
+        priority: 'realtime',
+      });
+    } catch (error) {
+      this.logger.debug(`📴 Still offline: ${error.message}`);
+      return;
+    }
+
+    const offlineSeconds = this.offlineSince
+      ? Math.round((Date.now() - this.offlineSince.getTime()) / 1000)
+      : 0;
+    this.logger.log(`📶 Chain reachable again after ${offlineSeconds}s offline`);
+    await this.connect(network);
+    this.jobScheduler.unregister(LISTENER_JOBS.RECONNECT);
   }
 
   /**
@@ -216,14 +538,17 @@ export class BlockchainListenerService implements OnModuleInit, OnModuleDestroy
       return;
     }
 
-    if (!this.lockId) {
-      this.logger.error('Lock ID not loaded. Cannot start hybrid sync.');
+    if (this.lockIds.length === 0) {
+      this.logger.error('No lock IDs loaded. Cannot start hybrid sync.');
       return;
     }
 
     try {
+      const batchSyncSchedule = process.env.BATCH_SYNC_CRON
+        ? { cron: process.env.BATCH_SYNC_CRON }
+        : intervalSchedule(parseInt(process.env.BATCH_SYNC_INTERVAL_MINUTES || '15', 10) * 60);
       this.logger.log(
-        `🚀 Starting hybrid sync for Lock ${this.lockId} (batch every 15 minutes + real-time events)`,
+        `🚀 Starting hybrid sync for Locks ${this.lockIds.join(', ')} (batch sync ${describeSchedule(batchSyncSchedule)} + real-time events)`,
       );
 
       // Start real-time event listening first
@@ -236,25 +561,31 @@ export class BlockchainListenerService implements OnModuleInit, OnModuleDestroy
         await this.performBatchSync();
       }, 1000); // 1 second delay
 
-      // Start periodic batch sync (every 15 minutes)
-      const batchIntervalMinutes = parseInt(process.env.BATCH_SYNC_INTERVAL_MINUTES || '15', 10);
-      this.batchSyncInterval = setInterval(
-        async () => {
-          await this.performBatchSync();
-        },
-        batchIntervalMinutes * 60 * 1000,
-      );
+      // Start periodic batch sync
+      this.jobScheduler.register(LISTENER_JOBS.BATCH_SYNC, {
+        ...batchSyncSchedule,
+        description: 'Backfill confirmed revocation events up to the safe block',
+        handler: () => this.performBatchSync(),
+      });
 
       // Track current block (without logging every single block)
-      this.provider.on('block', async (blockNumber) => {
-        this.currentBlock = blockNumber;
-        this.eventEmitter.emit(BLOCKCHAIN_EVENTS.NEW_BLOCK, { blockNumber });
-      });
+      this.startBlockTracking();
+
+      // Periodically probe all RPC providers so failed ones can recover
+      if (this.rpcPool.size > 1) {
+        const probeIntervalMs = parseInt(process.env.RPC_HEALTH_CHECK_INTERVAL_MS || '60000', 10);
+        this.jobScheduler.register(LISTENER_JOBS.RPC_PROBE, {
+          ...intervalSchedule(probeIntervalMs / 1000),
+          description: 'Probe every RPC provider so failed ones can recover',
+          handler: () => this.rpcPool.probeAll(),
+        });
+      }
 
       // Log WebSocket connection status
-      const wsUrl = this.networkConfig.rpcUrl.includes('ws') ? 'WebSocket' : 'HTTP polling';
+      const activeUrl = this.rpcPool.getActiveUrl();
+      const wsUrl = RpcProviderPool.isWebSocketUrl(activeUrl) ? 'WebSocket' : 'HTTP polling';
       this.logger.log(`📡 Connection mode: ${wsUrl}`);
-      if (!this.networkConfig.rpcUrl.includes('ws')) {
+      if (!RpcProviderPool.isWebSocketUrl(activeUrl)) {
         this.logger.warn(
           '⚠️  Using HTTP polling - real-time events may be delayed. Consider using WebSocket URL (wss://...)',
         );
@@ -269,27 +600,104 @@ export class BlockchainListenerService implements OnModuleInit, OnModuleDestroy
   }
 
   /**
-   * Start real-time event listening (filtered to this lock only)
+   * Track the chain head on the active provider
+   */
+  private startBlockTracking() {
+    this.provider.on('block', async (blockNumber) => {
+      this.currentBlock = blockNumber;
+      this.eventEmitter.emit(BLOCKCHAIN_EVENTS.NEW_BLOCK, { blockNumber });
+      await this.confirmPendingRevocations(blockNumber);
+    });
+  }
+
+  /**
+   * Move the contract and all subscriptions to a new provider after failover
+   */
+  private attachProvider(provider: RpcProvider) {
+    const previous = this.provider;
+    previous?.removeAllListeners('block');
+    this.stopRealtimeListening();
+
+    this.provider = provider;
+    this.contract = this.contract.connect(provider);
+
+    if (this.isListening) {
+      this.startRealtimeListening();
+      this.startBlockTracking();
+    }
+  }
+
+  /**
+   * WebSocket dropped: remember where the gap starts
+   */
+  private handleDisconnect(reason: string) {
+    this.disconnectedAtBlock = this.currentBlock;
+    this.stats.lastDisconnect = new Date().toISOString();
+    this.logger.warn(
+      `🔌 Real-time connection lost at block ${this.currentBlock} (${reason}) - reconnecting...`,
+    );
+  }
+
+  /**
+   * WebSocket is back: re-register subscriptions and backfill the missed block range
+   */
+  private async handleReconnect(provider: RpcProvider, disconnectedAt: Date) {
+    this.stats.reconnects++;
+    this.attachProvider(provider);
+
+    const downtimeSeconds = Math.round((Date.now() - disconnectedAt.getTime()) / 1000);
+    const gapStart = this.disconnectedAtBlock ?? this.lastSyncedBlock;
+    this.disconnectedAtBlock = null;
+
+    try {
+      this.currentBlock = await this.rpcPool.execute(() => provider.getBlockNumber(), {
+        priority: 'realtime',
+      });
+      this.logger.log(
+        `🔁 Reconnected after ${downtimeSeconds}s - backfilling blocks ${gapStart} → ${this.currentBlock}`,
+      );
+    } catch (error) {
+      this.logger.warn(`Could not read head block after reconnect: ${error.message}`);
+    }
+
+    // Batch sync resumes from lastSyncedBlock, which covers the disconnected range
+    await this.performBatchSync();
+  }
+
+  /**
+   * Start real-time event listening (filtered to the configured locks)
    */
   private startRealtimeListening() {
-    this.logger.log(`🎧 Starting real-time event listening for Lock ${this.lockId}...`);
+    this.logger.log(
+      `🎧 Starting real-time event listening for Locks ${this.lockIds.join(', ')}...`,
+    );
 
     // Remove any existing listeners first to prevent duplicates
     this.stopRealtimeListening();
 
-    // Create filter for this lock's CredentialRevoked events
-    const filter = this.contract.filters.CredentialRevoked(this.lockId, null, null);
+    // One filter per event covering every configured lock (topic1 = any of the lock ids)
+    const iface = this.contract.interface;
+    const filter: ethers.EventFilter = {
+      address: this.contract.address,
+      topics: [iface.getEventTopic('CredentialRevoked'), this.getLockTopics()],
+    };
+    const ownershipFilter: ethers.EventFilter = {
+      address: this.contract.address,
+      topics: [iface.getEventTopic('LockOwnershipTransferred'), this.getLockTopics()],
+    };
+    this.realtimeFilters = [filter, ownershipFilter];
 
-    // Listen to CredentialRevoked events (only for this lock)
+    // Listen to CredentialRevoked events (only for the configured locks)
     // TypeChain event listeners receive event args first, then the event object as last parameter
     this.contract.on(filter, async (...args: any[]) => {
       try {
         // Parse arguments: [lockId, vcHash, owner, event]
         const event = args[args.length - 1]; // Last argument is the event object
+        const lockId = ethers.BigNumber.from(args[0]).toString();
         const vcHash = args[1] as string;
         const owner = args[2] as string;
 
-        const eventKey = vcHash; // Since we only monitor one lock, hash is unique
+        const eventKey = RevokedCredentialRepository.revocationId(lockId, vcHash);
 
         // Atomic check-and-set to prevent duplicate processing
         // This must be the FIRST thing we do before any async operations
@@ -305,31 +713,70 @@ export class BlockchainListenerService implements OnModuleInit, OnModuleDestroy
         this.pendingUpdates.add(eventKey);
 
         this.logger.log(`🔴 Real-time event detected: CredentialRevoked`);
+        this.logger.log(`   Lock ID: ${lockId}`);
         this.logger.log(`   VC Hash: ${vcHash.substring(0, 10)}...`);
         this.logger.log(`   Block: ${event.blockNumber}`);
 
+        const confirmed = this.isConfirmed(
+          event.blockNumber,
+          Math.max(this.currentBlock, event.blockNumber),
+        );
+        if (!confirmed) {
+          this.logger.log(`   ⏳ Pending until ${this.confirmations} confirmations`);
+        }
+
+        const detectedAt = new Date();
+        let timestamp = detectedAt;
+        try {
+          timestamp = await this.getBlockTimestamp(event.blockNumber, event.blockHash, 'realtime');
+        } catch (error) {
+          this.logger.warn(
+            `   ⚠️ Could not load block ${event.blockNumber} timestamp, using detection time: ${error.message}`,
+          );
+        }
+
         const revocationData: RevocationEventData = {
           vcHash,
           revokedBy: owner,
           transactionHash: event.transactionHash,
           blockNumber: event.blockNumber,
+          blockHash: event.blockHash,
           logIndex: event.logIndex,
-          timestamp: new Date(),
+          timestamp,
+          detectedAt,
+          confirmed,
           source: 'real-time',
           network: this.networkConfig.name,
           contractAddress: this.networkConfig.contractAddress,
-          lockId: this.lockId,
+          lockId,
         };
 
+        // Persist before processing; the inbox retries delivery until the handler succeeds
+        try {
+          if (!(await this.isVerifiedLog(event, 'real-time'))) {
+            this.processingEvents.delete(eventKey);
+            this.pendingUpdates.delete(eventKey);
+            return;
+          }
+          await this.eventInbox.enqueue(
+            BLOCKCHAIN_EVENTS.CREDENTIAL_REVOKED,
+            `${event.transactionHash}:${event.logIndex}`,
+            revocationData,
+            event.blockNumber,
+          );
+        } catch (error) {
+          // Leave it to the next batch sync, which commits revocations with its checkpoint
+          this.processingEvents.delete(eventKey);
+          this.pendingUpdates.delete(eventKey);
+          throw error;
+        }
+
         // Update statistics
         this.stats.realTimeUpdates++;
         this.stats.totalRevocations++;
         this.stats.lastRealTimeUpdate = new Date().toISOString();
 
-        // Emit event for processing
-        this.eventEmitter.emit(BLOCKCHAIN_EVENTS.CREDENTIAL_REVOKED, revocationData);
-
-        this.logger.log(`✅ Real-time revocation processed: ${vcHash.substring(0, 10)}...`);
+        this.logger.log(`✅ Real-time revocation queued: ${vcHash.substring(0, 10)}...`);
 
         // Remove from processing set after a short delay to ensure DB operation completes
         setTimeout(() => {
@@ -344,164 +791,1164 @@ export class BlockchainListenerService implements OnModuleInit, OnModuleDestroy
       }
     });
 
+    // Listen to LockOwnershipTransferred events (only for the configured locks)
+    this.contract.on(ownershipFilter, async (...args: any[]) => {
+      try {
+        const event = args[args.length - 1];
+        if (!(await this.isVerifiedLog(event, 'real-time'))) {
+          return;
+        }
+        await this.handleOwnershipTransfer(
+          ethers.BigNumber.from(args[0]).toString(),
+          args[1],
+          args[2],
+          event,
+          'real-time',
+        );
+      } catch (error) {
+        this.logger.error(
+          `❌ Error handling LockOwnershipTransferred event: ${error.message}`,
+          error.stack,
+        );
+        this.eventEmitter.emit(BLOCKCHAIN_EVENTS.ERROR, error);
+      }
+    });
+
+    // Listen to Paused / Unpaused (contract-wide, not lock-scoped)
+    this.contract.on('Paused', async (account: string, event: any) => {
+      await this.applyPauseState(true, account, event, 'real-time');
+    });
+    this.contract.on('Unpaused', async (account: string, event: any) => {
+      await this.applyPauseState(false, account, event, 'real-time');
+    });
+
     this.logger.log('✅ Real-time event listening active');
   }
 
   /**
-   * Stop real-time event listening
+   * Re-read paused() from the contract (catches events missed while disconnected)
    */
-  private stopRealtimeListening() {
-    if (this.contract) {
-      this.contract.removeAllListeners('CredentialRevoked');
-      this.logger.log('Stopped real-time event listening');
+  private async refreshPauseState(source: 'initial' | 'poll') {
+    try {
+      const paused = await this.rpcPool.execute(
+        (provider) => this.contract.connect(provider).paused(),
+        { priority: 'realtime' },
+      );
+      await this.applyPauseState(paused, null, null, source);
+    } catch (error) {
+      this.logger.warn(`⚠️ Could not read contract pause state: ${error.message}`);
     }
   }
 
-  /**
-   * Perform batch sync (every 15 minutes) - only for this lock
-   */
-  async performBatchSync() {
-    this.logger.log(`\n${'='.repeat(80)}`);
-    this.logger.log(`🔄 BATCH SYNC STARTED - Lock ${this.lockId}`);
-    this.logger.log(`${'='.repeat(80)}`);
-
-    try {
-      const currentBlock = await this.provider.getBlockNumber();
-      let fromBlock = this.lastSyncedBlock + 1;
-      const batchSize = parseInt(process.env.BATCH_SYNC_SIZE || '1000', 10);
-      let totalEvents = 0;
-      let newRevocations = 0;
-
-      this.logger.log(`📍 Current blockchain block: ${currentBlock}`);
-      this.logger.log(`📍 Last synced block:        ${this.lastSyncedBlock}`);
-      this.logger.log(`📍 Blocks to sync:           ${currentBlock - this.lastSyncedBlock}`);
-      this.logger.log(`📍 Batch size:               ${batchSize} blocks per query\n`);
+  private async applyPauseState(
+    paused: boolean,
+    account: string | null,
+    event: { blockNumber: number } | null,
+    source: PauseStateEventData['source'],
+  ) {
+    if (this.pauseState.paused === paused) {
+      return;
+    }
 
-      // Determine max logs block range. Some RPC providers (e.g. Alchemy free tier)
-      // restrict eth_getLogs requests to a very small block range (10 blocks).
-      // Allow override via LOGS_MAX_RANGE env var. If using Alchemy and no override,
-      // default to 10 to avoid the "Under the Free tier plan" error.
-      let logsMaxRange = parseInt(process.env.LOGS_MAX_RANGE || '0', 10);
-      if (!logsMaxRange || logsMaxRange <= 0) {
-        // Heuristic: if using Alchemy, default to 10; otherwise default to batchSize
-        if (this.networkConfig.rpcUrl && this.networkConfig.rpcUrl.includes('alchemy')) {
-          logsMaxRange = 10;
-        } else {
-          logsMaxRange = batchSize;
-        }
+    let since: string | null = source === 'initial' ? null : new Date().toISOString();
+    if (event) {
+      try {
+        since = (
+          await this.getBlockTimestamp(event.blockNumber, undefined, 'realtime')
+        ).toISOString();
+      } catch (error) {
+        this.logger.warn(`⚠️ Could not load block ${event.blockNumber}: ${error.message}`);
       }
+    }
 
-      while (fromBlock <= currentBlock) {
-        // Compute the outer toBlock based on configured batch size
-        const outerToBlock = Math.min(fromBlock + batchSize - 1, currentBlock);
+    this.pauseState = {
+      paused,
+      since,
+      account,
+      blockNumber: event ? event.blockNumber : null,
+    };
 
-        this.logger.log(`🔍 Scanning blocks ${fromBlock} → ${outerToBlock} (outer range)...`);
+    if (paused) {
+      this.logger.warn(
+        `⏸️  AccessControl contract is PAUSED [${source}]${account ? ` by ${account}` : ''}`,
+      );
+      this.logger.warn(`   Revocations cannot be published - PAUSED_ACCESS_POLICY applies`);
+    } else {
+      this.logger.log(`▶️  AccessControl contract is active [${source}]`);
+    }
 
-        // Break the outer range into provider-safe inner chunks
-        let innerFrom = fromBlock;
-        while (innerFrom <= outerToBlock) {
-          const innerTo = Math.min(innerFrom + logsMaxRange - 1, outerToBlock);
+    const data: PauseStateEventData = { ...this.pauseState, source };
+    this.eventEmitter.emit(BLOCKCHAIN_EVENTS.CONTRACT_PAUSE_CHANGED, data);
+  }
 
-          this.logger.log(
-            `   ▪️ Querying chunk ${innerFrom} → ${innerTo} (maxRange=${logsMaxRange})`,
-          );
+  /**
+   * Age of the local revocation data and whether the chain is reachable
+   */
+  getRevocationFreshness(): RevocationDataFreshness {
+    return {
+      online: this.isListening && this.offlineSince === null,
+      offlineSince: this.offlineSince ? this.offlineSince.toISOString() : null,
+      dataAsOf: this.lastSyncCompletedAt ? this.lastSyncCompletedAt.toISOString() : null,
+      stalenessSeconds: this.lastSyncCompletedAt
+        ? Math.floor((Date.now() - this.lastSyncCompletedAt.getTime()) / 1000)
+        : null,
+    };
+  }
 
-          // Query only events for this specific lock
-          const filter = this.contract.filters.CredentialRevoked(this.lockId, null, null);
-          let events = [];
-          try {
-            events = await this.contract.queryFilter(filter, innerFrom, innerTo);
-          } catch (err) {
-            this.logger.error(
-              `   ⚠️ Chunk query failed for ${innerFrom} → ${innerTo}: ${err.message || err}`,
-            );
-            // Re-throw to be handled by the outer catch
-            throw err;
-          }
+  /**
+   * How far the local revocation cache lags behind the chain
+   * The last sync time is the persisted one (sync_state), so a restart does not reset it
+   */
+  getCacheFreshness(): { blocksBehind: number; lastSyncAgeMs: number | null } {
+    return {
+      blocksBehind: Math.max(0, this.currentBlock - this.lastSyncedBlock),
+      lastSyncAgeMs: this.lastSyncCompletedAt
+        ? Date.now() - this.lastSyncCompletedAt.getTime()
+        : null,
+    };
+  }
 
-          this.logger.log(`   ▶️ Found ${events.length} events in chunk`);
+  /**
+   * Ask the contract directly whether a credential is revoked for a lock
+   * @throws Error if the listener is not initialized, the call fails or times out
+   */
+  async isCredentialRevokedOnChain(
+    lockId: string,
+    vcHash: string,
+    timeoutMs: number,
+  ): Promise<boolean> {
+    if (!this.contract) {
+      throw new Error('Blockchain listener not initialized');
+    }
 
-          for (const event of events) {
-            const vcHash = event.args.vcHash;
-            const eventKey = vcHash;
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`isCredentialRevoked timed out after ${timeoutMs}ms`)),
+        timeoutMs,
+      );
+    });
 
-            // Skip if we already processed this via real-time events
-            if (this.pendingUpdates.has(eventKey)) {
-              this.logger.debug(
-                `   ⏭️  Skipping duplicate: ${eventKey.substring(0, 10)}... (already in pendingUpdates)`,
-              );
-              continue;
-            }
+    try {
+      return await Promise.race([
+        this.rpcPool.execute(
+          (provider) => this.contract.connect(provider).isCredentialRevoked(lockId, vcHash),
+          { priority: 'verification' },
+        ),
+        timeout,
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
 
-            this.logger.log(
-              `   🆕 New revocation: ${vcHash.substring(0, 10)}... at block ${event.blockNumber}`,
-            );
+  /**
+   * Current Pausable state of the contract
+   */
+  getPauseState(): ContractPauseState {
+    return { ...this.pauseState };
+  }
 
-            const revocationData: RevocationEventData = {
-              vcHash,
-              revokedBy: event.args.owner,
-              transactionHash: event.transactionHash,
-              blockNumber: event.blockNumber,
-              logIndex: event.logIndex,
-              timestamp: new Date(),
-              source: 'batch',
-              network: this.networkConfig.name,
-              contractAddress: this.networkConfig.contractAddress,
-              lockId: this.lockId,
-            };
-
-            // Emit event for processing
-            this.eventEmitter.emit(BLOCKCHAIN_EVENTS.CREDENTIAL_REVOKED, revocationData);
-
-            totalEvents++;
-            newRevocations++;
-          }
+  /**
+   * Resolve the new on-chain signer and announce the ownership transfer
+   */
+  private async handleOwnershipTransfer(
+    lockId: string,
+    previousOwner: string,
+    newOwner: string,
+    event: { transactionHash: string; blockNumber: number; logIndex: number },
+    source: 'real-time' | 'batch',
+  ) {
+    const eventKey = `${event.transactionHash}:${event.logIndex}`;
+    if (this.processedOwnershipTransfers.has(eventKey)) {
+      return;
+    }
 
-          // Small delay between chunked requests to reduce rate-limiting
-          await this.sleep(200);
+    this.logger.warn(`\n${'='.repeat(80)}`);
+    this.logger.warn(`🔑 LOCK OWNERSHIP TRANSFERRED [${source.toUpperCase()}]`);
+    this.logger.warn(`   Lock ID:        ${lockId}`);
+    this.logger.warn(`   Previous owner: ${previousOwner}`);
+    this.logger.warn(`   New owner:      ${newOwner}`);
+    this.logger.warn(`   Block:          ${event.blockNumber}`);
+    this.logger.warn(`${'='.repeat(80)}\n`);
 
-          innerFrom = innerTo + 1;
-        }
+    let signerAddress: string | null = null;
+    try {
+      signerAddress = await this.getOnChainSigner(lockId);
+    } catch (error) {
+      this.logger.warn(`Could not resolve signer after ownership transfer: ${error.message}`);
+    }
+
+    let timestamp = new Date();
+    try {
+      timestamp = await this.getBlockTimestamp(
+        event.blockNumber,
+        undefined,
+        source === 'real-time' ? 'realtime' : 'backfill',
+      );
+    } catch (error) {
+      this.logger.warn(`Could not load block ${event.blockNumber} timestamp: ${error.message}`);
+    }
+
+    const data: OwnershipTransferEventData = {
+      lockId,
+      previousOwner,
+      newOwner,
+      signerAddress,
+      transactionHash: event.transactionHash,
+      blockNumber: event.blockNumber,
+      timestamp,
+      source,
+    };
+    await this.eventInbox.enqueue(
+      BLOCKCHAIN_EVENTS.LOCK_OWNERSHIP_TRANSFERRED,
+      eventKey,
+      data,
+      event.blockNumber,
+    );
+    this.processedOwnershipTransfers.add(eventKey);
+  }
+
+  /**
+   * Current signer address of a lock according to the contract
+   */
+  async getOnChainSigner(lockId: number | string): Promise<string> {
+    if (!this.contract) {
+      throw new Error('Blockchain listener not initialized');
+    }
+    return this.rpcPool.execute(
+      (provider) => this.contract.connect(provider).getSignerAddress(lockId),
+      { priority: 'verification' },
+    );
+  }
+
+  /**
+   * Read a lock's on-chain registration
+   * Works before initialize() by using a short-lived provider pool
+   */
+  async lookupLock(lockId: number): Promise<OnChainLockInfo> {
+    const networkConfig = this.networkConfig || this.getNetworkConfig();
+    if (!networkConfig.rpcUrl || !networkConfig.contractAddress) {
+      throw new Error(`${networkConfig.name} RPC URL or Contract Address not configured`);
+    }
+
+    const pool =
+      this.rpcPool ||
+      new RpcProviderPool(networkConfig.rpcUrls, {
+        governor: this.rpcGovernor,
+        requestTimeoutMs: parseInt(process.env.RPC_REQUEST_TIMEOUT_MS || '30000', 10),
+      });
+    try {
+      return await pool.execute(
+        async (provider) => {
+          const contract = AccessControl__factory.connect(networkConfig.contractAddress, provider);
+          const info: OnChainLockInfo = {
+            lockId,
+            exists: await contract.lockExistsView(lockId),
+            owner: null,
+            signerAddress: null,
+            revokedCount: 0,
+            network: networkConfig.name,
+            contractAddress: networkConfig.contractAddress,
+          };
+          if (info.exists) {
+            const lockInfo = await contract.getLockInfo(lockId);
+            info.owner = lockInfo.owner;
+            info.signerAddress = lockInfo.signerAddress;
+            info.revokedCount = lockInfo.revokedCount.toNumber();
+          }
+          return info;
+        },
+        { priority: 'verification' },
+      );
+    } finally {
+      if (pool !== this.rpcPool) {
+        await pool.destroy();
+      }
+    }
+  }
+
+  /**
+   * Stop real-time event listening
+   */
+  private stopRealtimeListening() {
+    if (this.contract) {
+      for (const filter of this.realtimeFilters) {
+        this.contract.removeAllListeners(filter);
+      }
+      this.realtimeFilters = [];
+      this.contract.removeAllListeners('CredentialRevoked');
+      this.contract.removeAllListeners('LockOwnershipTransferred');
+      this.contract.removeAllListeners('Paused');
+      this.contract.removeAllListeners('Unpaused');
+      this.logger.log('Stopped real-time event listening');
+    }
+  }
+
+  /**
+   * Perform batch sync (scheduled job) - every configured lock in one pass
+   * Never runs twice at once: a call made while a sync is running waits for it, and one
+   * follow-up sync then picks up blocks that arrived in the meantime
+   */
+  async performBatchSync(): Promise<void> {
+    if (this.batchSyncRun) {
+      this.logger.log('⏭️  Batch sync already running - queued a follow-up sync');
+      this.batchSyncRequested = true;
+      return this.batchSyncRun;
+    }
+
+    return this.startBatchSyncRun();
+  }
+
+  /**
+   * Start the batch sync loop; `before` runs first, inside the same mutex
+   * Callers must check that no run is in progress
+   */
+  private startBatchSyncRun(before?: () => Promise<void>): Promise<void> {
+    this.batchSyncRun = (async () => {
+      await before?.();
+      do {
+        this.batchSyncRequested = false;
+        await this.runBatchSync();
+      } while (this.batchSyncRequested && this.isListening && !this.batchSyncAborted);
+    })().finally(() => {
+      this.batchSyncRun = null;
+    });
+    return this.batchSyncRun;
+  }
+
+  /**
+   * Roll back to the common ancestor inside the batch sync mutex, then re-sync from it
+   * A running sync is stopped before its next chunk: it would otherwise keep committing
+   * checkpoints past the orphaned range after the rewind
+   */
+  private async rollbackAndResync(commonAncestorBlock: number): Promise<void> {
+    if (this.rollbackTarget !== null) {
+      // A rollback is already waiting for the running sync - it goes to the lower ancestor
+      this.rollbackTarget = Math.min(this.rollbackTarget, commonAncestorBlock);
+      return;
+    }
+    this.rollbackTarget = commonAncestorBlock;
+
+    while (this.batchSyncRun) {
+      this.batchSyncAborted = true;
+      await this.batchSyncRun;
+    }
+    this.batchSyncAborted = false;
+
+    try {
+      await this.startBatchSyncRun(async () => {
+        const target = this.rollbackTarget as number;
+        this.rollbackTarget = null;
+        await this.rollbackTo(target);
+      });
+    } catch (error) {
+      this.logger.error(`❌ Reorg rollback failed: ${error.message}`, error.stack);
+    }
+  }
+
+  /**
+   * Whether a batch sync is in progress
+   */
+  isBatchSyncRunning(): boolean {
+    return this.batchSyncRun !== null;
+  }
+
+  private async runBatchSync() {
+    this.logger.log(`\n${'='.repeat(80)}`);
+    this.logger.log(`🔄 BATCH SYNC STARTED - Locks ${this.lockIds.join(', ')}`);
+    this.logger.log(`${'='.repeat(80)}`);
+
+    if (!this.rpcGovernor.isBackfillAllowed()) {
+      this.logger.warn(
+        `⏭️  RPC daily budget reserved for verification / real-time calls - skipping batch sync`,
+      );
+      return;
+    }
+
+    try {
+      // Roll back anything a reorg orphaned before scanning forward again
+      await this.detectReorg();
+      await this.refreshPauseState('poll');
+
+      const currentBlock = await this.rpcPool.execute((provider) => provider.getBlockNumber());
+      this.currentBlock = Math.max(this.currentBlock, currentBlock);
+      const safeBlock = Math.max(this.lastSyncedBlock, this.getSafeBlock(currentBlock));
+      const fromBlock = this.lastSyncedBlock + 1;
+      const batchSize = parseInt(process.env.BATCH_SYNC_SIZE || '1000', 10);
+      let totalEvents = 0;
+      let newRevocations = 0;
+
+      this.logger.log(`📍 Current blockchain block: ${currentBlock}`);
+      this.logger.log(`📍 Last synced block:        ${this.lastSyncedBlock}`);
+      this.logger.log(`📍 Blocks to sync:           ${currentBlock - this.lastSyncedBlock}`);
+      this.logger.log(`📍 Confirmed up to block:    ${safeBlock}`);
+      this.logger.log(`📍 Batch size:               ${batchSize} blocks per query\n`);
+
+      this.startProgress(fromBlock, currentBlock);
+
+      await this.scanLockLogs(
+        fromBlock,
+        currentBlock,
+        ['CredentialRevoked', 'LockOwnershipTransferred'],
+        async (from, to, parsed) => {
+          const events = parsed.filter(({ event }) => event.name === 'CredentialRevoked');
+          const transfers = parsed.filter(({ event }) => event.name === 'LockOwnershipTransferred');
+
+          this.logger.log(
+            `   ▪️ Chunk ${from} → ${to}: ${events.length} revocations, ${transfers.length} ownership transfers`,
+          );
+
+          const detectedAt = new Date();
+          const revocations = [];
+          for (const { log, event } of events) {
+            const lockId = event.args.lockId.toString();
+            const vcHash: string = event.args.vcHash;
+            const confirmed = log.blockNumber <= safeBlock;
+            this.logger.log(
+              `   🆕 Revocation: ${vcHash.substring(0, 10)}... on lock ${lockId} at block ${log.blockNumber}` +
+                (confirmed ? '' : ' (pending)'),
+            );
+            revocations.push({
+              id: RevokedCredentialRepository.revocationId(lockId, vcHash),
+              lockId,
+              vcHash,
+              blockNumber: log.blockNumber,
+              blockHash: log.blockHash,
+              transactionHash: log.transactionHash,
+              status: confirmed ? ('confirmed' as const) : ('pending' as const),
+              revokedAt: await this.getBlockTimestamp(log.blockNumber, log.blockHash),
+              detectedAt,
+            });
+          }
+
+          // Transfers are in the inbox before the checkpoint can move past them
+          for (const { log, event } of transfers) {
+            await this.handleOwnershipTransfer(
+              event.args.lockId.toString(),
+              event.args.previousOwner,
+              event.args.newOwner,
+              log,
+              'batch',
+            );
+          }
+
+          if (this.batchSyncAborted) {
+            throw new BatchSyncAbortedError();
+          }
+
+          // Revocations and the sync position are committed together; the unconfirmed tail
+          // above safeBlock is stored as pending and rescanned next time
+          const chunkCheckpoint = Math.max(this.lastSyncedBlock, Math.min(to, safeBlock));
+          newRevocations += await this.syncStateRepo.commitChunk(
+            this.networkConfig.chainId,
+            this.networkConfig.contractAddress,
+            this.lockIds,
+            chunkCheckpoint,
+            revocations,
+          );
+          this.lastSyncedBlock = chunkCheckpoint;
+          totalEvents += events.length;
+
+          for (const { log } of events) {
+            await this.recordCheckpoint(log.blockNumber, log.blockHash);
+          }
+
+          this.updateProgress(to, events.length);
+        },
+      );
 
-        fromBlock = outerToBlock + 1;
+      // Remember the confirmed head's hash for reorg detection
+      const safeHeader = await this.rpcPool.execute((provider) => provider.getBlock(safeBlock));
+      if (safeHeader) {
+        await this.recordCheckpoint(safeBlock, safeHeader.hash);
       }
+      await this.checkpointRepo.prune(
+        this.networkConfig.name,
+        this.networkConfig.contractAddress,
+        this.checkpointDepth,
+      );
 
-      this.lastSyncedBlock = currentBlock;
       this.stats.batchUpdates += totalEvents;
       this.stats.totalRevocations += totalEvents;
       this.stats.lastBatchSync = new Date().toISOString();
+      this.lastSyncCompletedAt = new Date();
+      this.offlineSince = null;
+      await this.syncStateRepo.markSyncCompleted(
+        this.networkConfig.chainId,
+        this.networkConfig.contractAddress,
+        this.lockIds,
+        this.lastSyncCompletedAt,
+      );
 
       // Clear pending updates after successful batch sync
       this.pendingUpdates.clear();
+      this.finishProgress('completed');
 
       this.logger.log(`\n✅ BATCH SYNC COMPLETE!`);
       this.logger.log(`   📊 Total events found:    ${totalEvents}`);
       this.logger.log(`   ✨ New revocations saved: ${newRevocations}`);
-      this.logger.log(`   📍 Synced to block:       ${currentBlock}`);
+      this.logger.log(`   📍 Synced to block:       ${safeBlock} (head ${currentBlock})`);
       this.logger.log(`${'='.repeat(80)}\n`);
 
       // Emit batch sync complete event
       this.eventEmitter.emit(BLOCKCHAIN_EVENTS.BATCH_SYNC_COMPLETE, {
         totalEvents,
         newRevocations,
-        fromBlock: this.lastSyncedBlock - (currentBlock - this.lastSyncedBlock),
-        toBlock: currentBlock,
+        fromBlock,
+        toBlock: this.lastSyncedBlock,
         timestamp: new Date().toISOString(),
         network: this.networkConfig.name,
         contractAddress: this.networkConfig.contractAddress,
-        lockId: this.lockId,
+        lockIds: this.lockIds,
       });
     } catch (error) {
+      if (error instanceof BatchSyncAbortedError) {
+        this.logger.warn(`⏹️  ${error.message} - resuming from the common ancestor`);
+        this.finishProgress('failed', error.message);
+        return;
+      }
       this.logger.error(`❌ Batch sync failed: ${error.message}`, error.stack);
+      this.finishProgress('failed', error.message);
+      if (!this.offlineSince && !this.rpcPool.getStatus().some((provider) => provider.healthy)) {
+        this.offlineSince = new Date();
+        this.logger.warn('📴 No RPC provider reachable - serving revocations offline');
+      }
       this.eventEmitter.emit(BLOCKCHAIN_EVENTS.ERROR, error);
     }
   }
 
   /**
-   * Small helper to pause between RPC calls
+   * Progress of the current batch sync run, with throughput and ETA
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  getSyncProgress(): SyncProgress {
+    const { startBlock, targetBlock, currentBlock, startedAt, updatedAt } = this.progress;
+    const blocksTotal =
+      startBlock !== null && targetBlock !== null ? Math.max(0, targetBlock - startBlock + 1) : 0;
+    const blocksScanned =
+      startBlock !== null && currentBlock !== null ? Math.max(0, currentBlock - startBlock + 1) : 0;
+    const blocksRemaining = Math.max(0, blocksTotal - blocksScanned);
+    const syncing = this.progress.state === 'syncing';
+
+    const elapsedSeconds = startedAt !== null ? ((updatedAt ?? Date.now()) - startedAt) / 1000 : 0;
+    const blocksPerSecond =
+      blocksScanned > 0 && elapsedSeconds > 0
+        ? Math.round((blocksScanned / elapsedSeconds) * 100) / 100
+        : null;
+    const etaSeconds =
+      syncing && blocksPerSecond ? Math.ceil(blocksRemaining / blocksPerSecond) : null;
+    const stallSeconds = parseInt(process.env.SYNC_STALL_SECONDS || '300', 10);
+
+    return {
+      state: this.progress.state,
+      lastResult: this.progress.lastResult,
+      startBlock,
+      targetBlock,
+      currentBlock,
+      headBlock: this.currentBlock,
+      blocksTotal,
+      blocksScanned,
+      blocksRemaining,
+      percent:
+        blocksTotal > 0 ? Math.floor((blocksScanned / blocksTotal) * 100) : syncing ? 0 : 100,
+      eventsFound: this.progress.eventsFound,
+      blocksPerSecond,
+      etaSeconds,
+      estimatedCompletionAt:
+        etaSeconds !== null ? new Date(Date.now() + etaSeconds * 1000).toISOString() : null,
+      startedAt: startedAt !== null ? new Date(startedAt).toISOString() : null,
+      updatedAt: updatedAt !== null ? new Date(updatedAt).toISOString() : null,
+      finishedAt:
+        this.progress.finishedAt !== null ? new Date(this.progress.finishedAt).toISOString() : null,
+      stalled: syncing && Date.now() - (updatedAt ?? startedAt ?? Date.now()) > stallSeconds * 1000,
+      error: this.progress.error,
+    };
+  }
+
+  private startProgress(fromBlock: number, targetBlock: number) {
+    this.progress = {
+      state: 'syncing',
+      lastResult: this.progress.lastResult,
+      startBlock: fromBlock,
+      targetBlock,
+      currentBlock: null,
+      eventsFound: 0,
+      startedAt: Date.now(),
+      updatedAt: null,
+      finishedAt: null,
+      error: null,
+    };
+    this.emitProgress(true);
+  }
+
+  private updateProgress(scannedTo: number, events: number) {
+    this.progress.currentBlock = scannedTo;
+    this.progress.eventsFound += events;
+    this.progress.updatedAt = Date.now();
+
+    const progress = this.getSyncProgress();
+    this.logger.log(
+      `   ⏱️  ${progress.percent}% (${progress.blocksScanned}/${progress.blocksTotal} blocks` +
+        (progress.blocksPerSecond ? `, ${progress.blocksPerSecond} blocks/s` : '') +
+        (progress.etaSeconds !== null ? `, ETA ${progress.etaSeconds}s` : '') +
+        ')',
+    );
+    this.emitProgress(false);
+  }
+
+  private finishProgress(result: 'completed' | 'failed', error: string | null = null) {
+    if (this.progress.state !== 'syncing') {
+      return;
+    }
+    this.progress.state = 'idle';
+    this.progress.lastResult = result;
+    this.progress.finishedAt = Date.now();
+    this.progress.error = error;
+    this.emitProgress(true);
+  }
+
+  /**
+   * Emit SYNC_PROGRESS at most every SYNC_PROGRESS_INTERVAL_SECONDS (start / end always)
+   */
+  private emitProgress(force: boolean) {
+    const intervalMs = parseInt(process.env.SYNC_PROGRESS_INTERVAL_SECONDS || '10', 10) * 1000;
+    if (!force && Date.now() - this.lastProgressEmit < intervalMs) {
+      return;
+    }
+    this.lastProgressEmit = Date.now();
+    this.eventEmitter.emit(BLOCKCHAIN_EVENTS.SYNC_PROGRESS, {
+      ...this.getSyncProgress(),
+      network: this.networkConfig?.name,
+      lockIds: this.lockIds,
+    });
+  }
+
+  /**
+   * Scan the configured locks' events in [fromBlock, toBlock] with the adaptive scanner
+   * One eth_getLogs per chunk covers every requested event (topic1 = any lock id);
+   * in quorum mode K providers must return the same set of logs
+   */
+  private async scanLockLogs(
+    fromBlock: number,
+    toBlock: number,
+    eventNames: string[],
+    onChunk: (
+      from: number,
+      to: number,
+      parsed: { log: ethers.providers.Log; event: ethers.utils.LogDescription }[],
+    ) => Promise<void>,
+  ): Promise<void> {
+    const batchSize = parseInt(process.env.BATCH_SYNC_SIZE || '1000', 10);
+    // eth_getLogs window adapts to the provider (bisects on limit errors, grows on success)
+    const scanner = await this.getLogScanner(batchSize);
+    const iface = this.contract.interface;
+    const lockScopedTopics = [
+      eventNames.map((name) => iface.getEventTopic(name)),
+      this.getLockTopics(),
+    ];
+
+    this.logger.log(
+      `🔍 Scanning blocks ${fromBlock} → ${toBlock} (window=${scanner.currentRange}, limit=${scanner.learnedLimit})...`,
+    );
+
+    await scanner.scan(
+      fromBlock,
+      toBlock,
+      (from, to) =>
+        this.rpcPool.executeWithQuorum(
+          (provider) =>
+            provider.getLogs({
+              address: this.contract.address,
+              topics: lockScopedTopics,
+              fromBlock: from,
+              toBlock: to,
+            }),
+          (logs) =>
+            logs
+              .map((log) => `${log.blockHash}:${log.transactionHash}:${log.logIndex}`)
+              .sort()
+              .join(','),
+          { isRequestError: (error) => AdaptiveLogScanner.isRequestError(error) },
+        ),
+      async (from, to, logs) => {
+        const checked = await this.verifyLogs(logs, 'batch', (log) =>
+          this.matchesLockTopics(log, lockScopedTopics),
+        );
+        await onChunk(
+          from,
+          to,
+          checked.map((log) => ({ log, event: iface.parseLog(log) })),
+        );
+      },
+    );
+  }
+
+  /**
+   * topic1 values of the configured locks (indexed uint256 lockId)
+   */
+  private getLockTopics(): string[] {
+    return this.lockIds.map((lockId) =>
+      ethers.utils.hexZeroPad(ethers.BigNumber.from(lockId).toHexString(), 32),
+    );
+  }
+
+  /**
+   * Check logs against their blocks' receipts when LOG_VERIFICATION=receipts
+   * Logs missing from the receipts are rejected; matching logs the RPC left out are added
+   * @throws LogVerificationUnavailableError if a block could not be verified (retried later)
+   */
+  private async verifyLogs(
+    logs: ethers.providers.Log[],
+    source: LogRejectedEventData['source'],
+    matches?: (log: { address: string; topics: string[] }) => boolean,
+  ): Promise<ethers.providers.Log[]> {
+    if (!this.receiptVerifier || logs.length === 0) {
+      return logs;
+    }
+
+    const result = await this.receiptVerifier.verifyLogs(
+      logs,
+      source === 'real-time' ? 'realtime' : 'backfill',
+      matches,
+    );
+
+    for (const { log, reason } of result.rejected) {
+      this.logger.error(
+        `🚫 Rejected log ${log.transactionHash}:${log.logIndex} at block ${log.blockNumber}: ${reason}`,
+      );
+      const rejected: LogRejectedEventData = {
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex,
+        reason,
+        source,
+      };
+      this.eventEmitter.emit(BLOCKCHAIN_EVENTS.LOG_REJECTED, rejected);
+    }
+    for (const log of result.recovered) {
+      this.logger.warn(
+        `🩹 Log ${log.logIndex} at block ${log.blockNumber} is in the receipts but was not returned by the RPC`,
+      );
+    }
+
+    this.stats.logsVerified += result.verified.length;
+    this.stats.logsRejected += result.rejected.length;
+    this.stats.logsRecovered += result.recovered.length;
+
+    return [...result.verified, ...result.recovered].sort(
+      (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex,
+    );
+  }
+
+  private async isVerifiedLog(
+    log: ethers.providers.Log,
+    source: LogRejectedEventData['source'],
+  ): Promise<boolean> {
+    return (await this.verifyLogs([log], source)).length > 0;
+  }
+
+  /**
+   * Whether a log matches the lock-scoped eth_getLogs filter
+   */
+  private matchesLockTopics(
+    log: { address: string; topics: string[] },
+    topics: (string | string[])[],
+  ): boolean {
+    return (
+      log.address.toLowerCase() === this.contract.address.toLowerCase() &&
+      topics.every((topic, i) => {
+        const actual = log.topics[i]?.toLowerCase();
+        return Array.isArray(topic)
+          ? topic.some((candidate) => candidate.toLowerCase() === actual)
+          : topic.toLowerCase() === actual;
+      })
+    );
+  }
+
+  /**
+   * Collect the configured locks' CredentialRevoked events in an already synced range
+   * Nothing is stored and the sync position is left untouched
+   * @param onProgress Called after each chunk with the last block scanned
+   */
+  async scanRevocations(
+    fromBlock: number,
+    toBlock: number,
+    onProgress?: (scannedTo: number, found: number) => void,
+  ): Promise<Partial<RevokedCredentialEntity>[]> {
+    if (!this.contract || this.lockIds.length === 0) {
+      throw new Error('Blockchain listener not initialized');
+    }
+
+    const to = Math.min(toBlock, this.lastSyncedBlock);
+    const detectedAt = new Date();
+    const found: Partial<RevokedCredentialEntity>[] = [];
+
+    this.logger.log(
+      `🔁 Rescanning Locks ${this.lockIds.join(', ')} revocations: ${fromBlock} → ${to}`,
+    );
+
+    await this.scanLockLogs(fromBlock, to, ['CredentialRevoked'], async (from, chunkTo, parsed) => {
+      for (const { log, event } of parsed) {
+        const lockId = event.args.lockId.toString();
+        const vcHash: string = event.args.vcHash;
+        found.push({
+          id: RevokedCredentialRepository.revocationId(lockId, vcHash),
+          lockId,
+          vcHash,
+          blockNumber: log.blockNumber,
+          blockHash: log.blockHash,
+          transactionHash: log.transactionHash,
+          status: 'confirmed',
+          revokedAt: await this.getBlockTimestamp(log.blockNumber, log.blockHash),
+          detectedAt,
+        });
+      }
+      if (onProgress) {
+        onProgress(chunkTo, found.length);
+      }
+    });
+
+    return found;
+  }
+
+  /**
+   * Re-scan an already synced range and insert revocations missing from the local cache
+   * @returns number of revocations that were missing
+   */
+  async rescanRevocations(fromBlock: number, toBlock: number): Promise<number> {
+    const found = await this.scanRevocations(fromBlock, toBlock);
+
+    const missing = [];
+    for (const revocation of found) {
+      if (
+        !(await this.revokedCredentialRepo.isVcHashRevoked(revocation.vcHash, revocation.lockId))
+      ) {
+        missing.push(revocation);
+      }
+    }
+
+    if (missing.length > 0) {
+      await this.revokedCredentialRepo.batchSave(missing);
+      this.logger.warn(`   🩹 Recovered ${missing.length} missing revocation(s)`);
+    }
+
+    this.stats.totalRevocations += missing.length;
+    return missing.length;
+  }
+
+  /**
+   * Number of revocations the contract holds for a lock
+   * @param blockTag block to read the count at (latest if omitted)
+   */
+  async getRevokedCountOnChain(lockId: string, blockTag?: number): Promise<number> {
+    if (!this.contract) {
+      throw new Error('Blockchain listener not initialized');
+    }
+    const count = await this.rpcPool.execute((provider) =>
+      this.contract.connect(provider).getRevokedSignatureCount(lockId, { blockTag }),
+    );
+    return count.toNumber();
+  }
+
+  /**
+   * Batch-check which of the given hashes the contract considers revoked for a lock
+   */
+  async getRevokedStatusOnChain(lockId: string, vcHashes: string[]): Promise<boolean[]> {
+    if (!this.contract) {
+      throw new Error('Blockchain listener not initialized');
+    }
+    return this.rpcPool.execute((provider) =>
+      this.contract.connect(provider).getRevokedSignatures(lockId, vcHashes),
+    );
+  }
+
+  /**
+   * Locks the listener is monitoring
+   */
+  getLockIds(): string[] {
+    return [...this.lockIds];
+  }
+
+  /**
+   * Block the revocation cache is synced up to
+   */
+  getLastSyncedBlock(): number {
+    return this.lastSyncedBlock;
+  }
+
+  /**
+   * Configured start block of the current network
+   */
+  getStartBlock(): number {
+    return this.networkConfig ? this.networkConfig.startBlock : 0;
+  }
+
+  /**
+   * Get (or create) the adaptive eth_getLogs scanner for the active provider
+   * Starts from the limit learned in a previous run if one is stored
+   */
+  private async getLogScanner(batchSize: number): Promise<AdaptiveLogScanner> {
+    const rpcUrl = this.rpcPool.getActiveUrl();
+    const existing = this.logScanners.get(rpcUrl);
+    if (existing) {
+      return existing;
+    }
+
+    // LOGS_MAX_RANGE is an explicit upper bound; otherwise the batch size is
+    const configuredMax = parseInt(process.env.LOGS_MAX_RANGE || '0', 10);
+    const maxRange = configuredMax > 0 ? Math.min(configuredMax, batchSize) : batchSize;
+    const learnedLimit = await this.providerLimitRepo.getMaxLogsRange(rpcUrl);
+
+    const scanner = new AdaptiveLogScanner({
+      initialRange: learnedLimit || maxRange,
+      maxRange,
+      learnedLimit,
+      growAfterSuccesses: parseInt(process.env.LOGS_GROW_AFTER_SUCCESSES || '5', 10),
+      maxRetries: parseInt(process.env.LOGS_MAX_RETRIES || '3', 10),
+      retryBaseDelayMs: parseInt(process.env.LOGS_RETRY_BASE_DELAY_MS || '500', 10),
+      // The governor paces requests when a rate limit is configured
+      interChunkDelayMs: this.rpcGovernor.getStatus().maxRequestsPerSecond > 0 ? 0 : undefined,
+    });
+    scanner.onLimitLearned = async (limit) => {
+      this.logger.warn(`📏 Learned eth_getLogs limit for active provider: ${limit} blocks`);
+      await this.providerLimitRepo.saveMaxLogsRange(rpcUrl, limit);
+    };
+
+    if (learnedLimit) {
+      this.logger.log(`📏 Using stored eth_getLogs limit: ${learnedLimit} blocks`);
+    }
+
+    this.logScanners.set(rpcUrl, scanner);
+    return scanner;
+  }
+
+  /**
+   * On-chain timestamp of a block
+   * Cached by block hash so a backfill fetches each block header at most once
+   * @throws Error if the block can't be loaded
+   */
+  private async getBlockTimestamp(
+    blockNumber: number,
+    blockHash?: string,
+    priority: RpcPriority = 'backfill',
+  ): Promise<Date> {
+    const key = blockHash || `#${blockNumber}`;
+    let seconds = this.blockTimestamps.get(key);
+
+    if (seconds === undefined) {
+      const block = await this.rpcPool.execute(
+        (provider) => provider.getBlock(blockHash || blockNumber),
+        { priority },
+      );
+      if (!block) {
+        throw new Error(`Block ${blockHash || blockNumber} not found`);
+      }
+      seconds = block.timestamp;
+
+      this.blockTimestamps.set(key, seconds);
+      if (this.blockTimestamps.size > BlockchainListenerService.BLOCK_TIMESTAMP_CACHE_SIZE) {
+        // Maps iterate in insertion order - drop the oldest entry
+        this.blockTimestamps.delete(this.blockTimestamps.keys().next().value);
+      }
+    }
+
+    return new Date(seconds * 1000);
+  }
+
+  /**
+   * Highest block that has at least CONFIRMATIONS confirmations at the given head
+   */
+  private getSafeBlock(headBlock: number): number {
+    return this.confirmations > 0 ? headBlock - this.confirmations + 1 : headBlock;
+  }
+
+  /**
+   * Whether an event mined in blockNumber is deep enough to be trusted
+   */
+  private isConfirmed(blockNumber: number, headBlock: number): boolean {
+    return blockNumber <= this.getSafeBlock(headBlock);
+  }
+
+  private async recordCheckpoint(blockNumber: number, blockHash: string): Promise<void> {
+    if (!blockHash) {
+      return;
+    }
+    await this.checkpointRepo.record(
+      this.networkConfig.name,
+      this.networkConfig.contractAddress,
+      blockNumber,
+      blockHash,
+    );
+  }
+
+  /**
+   * Compare stored checkpoints against the chain and roll back on mismatch
+   * @returns true if a reorg was detected and rolled back
+   */
+  private async detectReorg(): Promise<boolean> {
+    if (this.reorgCheckInProgress) {
+      return false;
+    }
+    this.reorgCheckInProgress = true;
+
+    try {
+      const checkpoints = await this.checkpointRepo.getRecent(
+        this.networkConfig.name,
+        this.networkConfig.contractAddress,
+        this.checkpointDepth,
+      );
+
+      let lowestMismatch: number | null = null;
+      let commonAncestor: number | null = null;
+
+      // Walk down from the newest checkpoint until we find one the chain still agrees with
+      for (const checkpoint of checkpoints) {
+        const block = await this.rpcPool.execute((provider) =>
+          provider.getBlock(checkpoint.blockNumber),
+        );
+        if (!block) {
+          // Not proof of a reorg: the node may be lagging - check again on the next sync
+          this.logger.warn(
+            `⚠️  Checkpoint block ${checkpoint.blockNumber} not returned by the RPC provider - reorg check skipped`,
+          );
+          return false;
+        }
+        if (block.hash === checkpoint.blockHash) {
+          commonAncestor = checkpoint.blockNumber;
+          break;
+        }
+        lowestMismatch = checkpoint.blockNumber;
+      }
+
+      if (lowestMismatch === null) {
+        return false;
+      }
+
+      if (commonAncestor === null) {
+        this.logger.warn(
+          `⚠️  Reorg deeper than ${checkpoints.length} checkpoints - rolling back to ${lowestMismatch - 1}`,
+        );
+        commonAncestor = lowestMismatch - 1;
+      }
+
+      await this.rollbackTo(commonAncestor);
+      return true;
+    } finally {
+      this.reorgCheckInProgress = false;
+    }
+  }
+
+  /**
+   * Remove revocations and checkpoints above the common ancestor and rewind the sync position
+   * Must run while no batch sync is scanning (see rollbackAndResync)
+   */
+  private async rollbackTo(commonAncestorBlock: number): Promise<void> {
+    this.logger.warn(`\n${'!'.repeat(80)}`);
+    this.logger.warn(`🔀 CHAIN REORG DETECTED - rolling back to block ${commonAncestorBlock}`);
+
+    // Undelivered events of orphaned blocks would write their revocations after the rollback;
+    // the re-sync ingests the canonical ones
+    const discardedEvents = await this.eventInbox.discardAboveBlock(commonAncestorBlock);
+    const orphanedRevocations =
+      await this.revokedCredentialRepo.deleteAboveBlock(commonAncestorBlock);
+    await this.checkpointRepo.deleteAbove(
+      this.networkConfig.name,
+      this.networkConfig.contractAddress,
+      commonAncestorBlock,
+    );
+
+    this.lastSyncedBlock = Math.min(this.lastSyncedBlock, commonAncestorBlock);
+    await this.syncStateRepo.updateLastSyncedBlock(
+      this.networkConfig.chainId,
+      this.networkConfig.contractAddress,
+      this.lockIds,
+      this.lastSyncedBlock,
+    );
+    this.pendingUpdates.clear();
+
+    this.stats.reorgsDetected++;
+    this.stats.lastReorg = new Date().toISOString();
+
+    this.logger.warn(`   🗑️  Orphaned revocations removed: ${orphanedRevocations}`);
+    this.logger.warn(`   📥 Orphaned inbox events dropped: ${discardedEvents}`);
+    this.logger.warn(`   📍 Sync position rewound to:     ${this.lastSyncedBlock}`);
+    this.logger.warn(`${'!'.repeat(80)}\n`);
+
+    const reorgData: ReorgEventData = {
+      commonAncestorBlock,
+      orphanedRevocations,
+      detectedAt: this.stats.lastReorg,
+      network: this.networkConfig.name,
+      contractAddress: this.networkConfig.contractAddress,
+      lockIds: this.lockIds,
+    };
+    this.eventEmitter.emit(BLOCKCHAIN_EVENTS.REORG_DETECTED, reorgData);
+  }
+
+  /**
+   * Promote pending revocations once they are deep enough
+   * Verifies the stored block hash first so orphaned revocations are rolled back instead;
+   * only a different hash is a reorg, a block the provider does not return stays pending
+   */
+  private async confirmPendingRevocations(headBlock: number): Promise<void> {
+    if (this.reorgCheckInProgress) {
+      return;
+    }
+    this.reorgCheckInProgress = true;
+
+    let commonAncestor: number | null = null;
+    try {
+      const pending = await this.revokedCredentialRepo.findPending();
+      const safeBlock = this.getSafeBlock(headBlock);
+      const confirmedIds: string[] = [];
+
+      for (const revocation of pending) {
+        if (revocation.blockNumber > safeBlock) {
+          continue;
+        }
+
+        const block = await this.rpcPool.execute(
+          (provider) => provider.getBlock(revocation.blockNumber),
+          { priority: 'realtime' },
+        );
+        if (!block) {
+          // A lagging or load-balanced node may not have the block yet - retry on the next head
+          this.logger.warn(
+            `⚠️  Block ${revocation.blockNumber} not returned by the RPC provider - revocation ${revocation.vcHash.substring(0, 10)}... stays pending`,
+          );
+          continue;
+        }
+        if (revocation.blockHash && block.hash !== revocation.blockHash) {
+          this.logger.warn(
+            `⚠️  Pending revocation ${revocation.vcHash.substring(0, 10)}... orphaned at block ${revocation.blockNumber}`,
+          );
+          commonAncestor = revocation.blockNumber - 1;
+          break;
+        }
+        confirmedIds.push(revocation.id);
+      }
+
+      if (confirmedIds.length > 0) {
+        await this.revokedCredentialRepo.markConfirmed(confirmedIds);
+        this.logger.log(
+          `✅ ${confirmedIds.length} revocation(s) reached ${this.confirmations} confirmations`,
+        );
+        this.eventEmitter.emit(BLOCKCHAIN_EVENTS.REVOCATIONS_CONFIRMED, {
+          ids: confirmedIds,
+          blockNumber: headBlock,
+        });
+      }
+    } catch (error) {
+      this.logger.error(`Failed to confirm pending revocations: ${error.message}`, error.stack);
+    } finally {
+      this.reorgCheckInProgress = false;
+    }
+
+    // Roll back and re-ingest the canonical chain from the common ancestor
+    if (commonAncestor !== null) {
+      await this.rollbackAndResync(commonAncestor);
+    }
   }
 
   /**
@@ -512,18 +1959,14 @@ export class BlockchainListenerService implements OnModuleInit, OnModuleDestroy
 
     this.stopRealtimeListening();
 
-    if (this.batchSyncInterval) {
-      clearInterval(this.batchSyncInterval);
-      this.batchSyncInterval = null;
-    }
+    this.jobScheduler.unregister(LISTENER_JOBS.BATCH_SYNC);
+    this.jobScheduler.unregister(LISTENER_JOBS.RPC_PROBE);
+    this.jobScheduler.unregister(LISTENER_JOBS.RECONNECT);
 
-    if (this.provider) {
-      await this.provider.removeAllListeners();
-      // Close WebSocket connection if using WebSocketProvider
-      if ('destroy' in this.provider && typeof this.provider.destroy === 'function') {
-        await this.provider.destroy();
-        this.logger.log('📡 WebSocket connection closed');
-      }
+    if (this.rpcPool) {
+      // Removes listeners and closes WebSocket connections on every provider
+      await this.rpcPool.destroy();
+      this.logger.log('📡 RPC provider connections closed');
     }
 
     this.isListening = false;
@@ -546,6 +1989,11 @@ export class BlockchainListenerService implements OnModuleInit, OnModuleDestroy
     // Stop current operations
     this.stopRealtimeListening();
 
+    // Let a running sync finish first so it cannot move the position past the reset
+    if (this.batchSyncRun) {
+      await this.batchSyncRun;
+    }
+
     // Reset sync position
     this.lastSyncedBlock = this.networkConfig.startBlock;
     this.pendingUpdates.clear();
@@ -573,6 +2021,14 @@ export class BlockchainListenerService implements OnModuleInit, OnModuleDestroy
       blocksBehind: Math.max(0, this.currentBlock - this.lastSyncedBlock),
       pendingUpdates: this.pendingUpdates.size,
       totalRevocations: this.stats.totalRevocations,
+      confirmations: this.confirmations,
+      reorgsDetected: this.stats.reorgsDetected,
+      lastReorg: this.stats.lastReorg,
+      reconnects: this.stats.reconnects,
+      lastDisconnect: this.stats.lastDisconnect,
+      logsVerified: this.stats.logsVerified,
+      logsRejected: this.stats.logsRejected,
+      logsRecovered: this.stats.logsRecovered,
     };
   }
 
@@ -581,46 +2037,67 @@ export class BlockchainListenerService implements OnModuleInit, OnModuleDestroy
    */
   async healthCheck() {
     try {
-      const currentBlock = await this.provider.getBlockNumber();
+      const currentBlock = await this.rpcPool.execute((provider) => provider.getBlockNumber(), {
+        priority: 'realtime',
+      });
       const blocksBehind = currentBlock - this.lastSyncedBlock;
 
       return {
         healthy: blocksBehind < 100, // Consider healthy if less than 100 blocks behind
-        lockId: this.lockId,
+        lockIds: this.lockIds,
         currentBlock,
         lastSyncedBlock: this.lastSyncedBlock,
         blocksBehind,
         isListening: this.isListening,
-        batchSyncActive: !!this.batchSyncInterval,
+        batchSyncActive: this.jobScheduler.isActive(LISTENER_JOBS.BATCH_SYNC),
         network: this.networkConfig.name,
         contractAddress: this.networkConfig.contractAddress,
+        contractPaused: this.pauseState.paused,
       };
     } catch (error) {
       return {
         healthy: false,
         error: error.message,
-        lockId: this.lockId,
+        lockIds: this.lockIds,
         isListening: this.isListening,
-        batchSyncActive: !!this.batchSyncInterval,
+        batchSyncActive: this.jobScheduler.isActive(LISTENER_JOBS.BATCH_SYNC),
       };
     }
   }
 
+  /**
+   * Per-provider RPC health (empty until initialized)
+   */
+  getRpcStatus(): RpcProviderStatus[] {
+    return this.rpcPool ? this.rpcPool.getStatus() : [];
+  }
+
+  /**
+   * RPC rate limit / daily budget counters
+   */
+  getRpcGovernorStatus(): RpcGovernorStatus {
+    return this.rpcGovernor.getStatus();
+  }
+
   /**
    * Get listener status
    */
   getStatus() {
     return {
-      lockId: this.lockId,
+      lockIds: this.lockIds,
       isListening: this.isListening,
       currentBlock: this.currentBlock,
       lastSyncedBlock: this.lastSyncedBlock,
       blocksBehind: Math.max(0, this.currentBlock - this.lastSyncedBlock),
       network: this.networkConfig?.name || 'not configured',
+      chainId: this.networkConfig?.chainId ?? null,
       contractAddress: this.networkConfig?.contractAddress || 'not configured',
       connected: this.provider ? 'connected' : 'disconnected',
-      batchSyncActive: !!this.batchSyncInterval,
+      batchSyncActive: this.jobScheduler.isActive(LISTENER_JOBS.BATCH_SYNC),
       pendingUpdates: this.pendingUpdates.size,
+      contractPaused: this.pauseState.paused,
+      pausedSince: this.pauseState.paused ? this.pauseState.since : null,
+      offlineSince: this.offlineSince ? this.offlineSince.toISOString() : null,
     };
   }
 }
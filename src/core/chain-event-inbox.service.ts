@@ -0,0 +1,227 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  ChainEventInboxEntity,
+  ChainEventInboxRepository,
+  ChainEventStatus,
+} from '@infra/database';
+import { intervalSchedule, JobSchedulerService } from './job-scheduler.service';
+
+/**
+ * Events emitted by the inbox
+ */
+export const CHAIN_EVENT_INBOX_EVENTS = {
+  DEAD_LETTERED: 'inbox.event.dead',
+} as const;
+
+export const INBOX_DRAIN_JOB = 'inbox-drain';
+export const INBOX_PRUNE_JOB = 'inbox-prune';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Persistent inbox between the blockchain listener and the event handlers
+ * - the listener enqueues chain events before anything is processed or checkpointed
+ * - events are delivered with emitAsync; a handler that throws gets the event again later
+ *   (exponential backoff) until EVENT_INBOX_MAX_ATTEMPTS, then it is dead-lettered
+ * - dead events stay in the table until an operator replays them
+ * Delivery is at-least-once, so handlers must be idempotent
+ */
+@Injectable()
+export class ChainEventInboxService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ChainEventInboxService.name);
+  private drainRun: Promise<void> | null = null;
+  private drainRequested = false;
+
+  private static readonly CLAIM_BATCH_SIZE = 50;
+
+  constructor(
+    private readonly eventEmitter: EventEmitter2,
+    private readonly inboxRepository: ChainEventInboxRepository,
+    private readonly jobScheduler: JobSchedulerService,
+  ) {}
+
+  onModuleInit() {
+    const pollIntervalMs = parseInt(process.env.EVENT_INBOX_POLL_INTERVAL_MS || '5000', 10);
+    this.jobScheduler.register(INBOX_DRAIN_JOB, {
+      ...intervalSchedule(pollIntervalMs / 1000),
+      description: 'Deliver inbox events that are due (first attempts and retries)',
+      handler: () => this.drain(),
+    });
+    this.drain();
+
+    this.jobScheduler.register(INBOX_PRUNE_JOB, {
+      cron: '0 0 * * * *',
+      description: 'Delete delivered inbox events older than EVENT_INBOX_RETENTION_HOURS',
+      handler: () => this.pruneDelivered(),
+    });
+  }
+
+  onModuleDestroy() {
+    this.jobScheduler.unregister(INBOX_DRAIN_JOB);
+    this.jobScheduler.unregister(INBOX_PRUNE_JOB);
+  }
+
+  /**
+   * Persist a chain event and schedule its delivery
+   * @param eventKey Stable identity of the log (the same log enqueued twice is stored once)
+   * @returns true if the event was new
+   * @throws Error if the event could not be stored - callers must not advance past it
+   */
+  async enqueue(
+    eventName: string,
+    eventKey: string,
+    payload: object,
+    blockNumber: number | null = null,
+  ): Promise<boolean> {
+    const added = await this.inboxRepository.enqueue({
+      eventKey: `${eventName}:${eventKey}`,
+      eventName,
+      payload: JSON.stringify(payload),
+      blockNumber,
+    });
+    if (added) {
+      this.drain();
+    }
+    return added;
+  }
+
+  /**
+   * Deliver every due event; concurrent calls are folded into one extra pass
+   */
+  async drain(): Promise<void> {
+    if (this.drainRun) {
+      this.drainRequested = true;
+      return;
+    }
+    this.drainRun = this.runDrain().finally(() => {
+      this.drainRun = null;
+    });
+    return this.drainRun;
+  }
+
+  /**
+   * Drop undelivered events of blocks above `blockNumber` (orphaned by a reorg)
+   * Waits for events a running drain already claimed, so none of them is delivered after
+   * this returns
+   * @returns number of events dropped
+   */
+  async discardAboveBlock(blockNumber: number): Promise<number> {
+    const discarded = await this.inboxRepository.deleteUndeliveredAboveBlock(blockNumber);
+    await this.drainRun;
+    if (discarded > 0) {
+      this.logger.warn(`📥 ${discarded} event(s) of orphaned blocks above ${blockNumber} dropped`);
+    }
+    return discarded;
+  }
+
+  private async runDrain(): Promise<void> {
+    try {
+      // Nothing is in flight outside a drain, so leftovers were interrupted (crash, DB error)
+      const released = await this.inboxRepository.releaseProcessing();
+      if (released > 0) {
+        this.logger.warn(`📥 ${released} event(s) interrupted mid-delivery - queued again`);
+      }
+
+      do {
+        this.drainRequested = false;
+        let batch: ChainEventInboxEntity[];
+        do {
+          batch = await this.inboxRepository.claimDue(ChainEventInboxService.CLAIM_BATCH_SIZE);
+          for (const event of batch) {
+            await this.deliver(event);
+          }
+        } while (batch.length === ChainEventInboxService.CLAIM_BATCH_SIZE);
+      } while (this.drainRequested);
+    } catch (error) {
+      this.logger.error(`❌ Inbox drain failed: ${error.message}`, error.stack);
+    }
+  }
+
+  /**
+   * Queue dead-lettered events again with a fresh attempt budget
+   * @param id Single event to replay; all dead events when omitted
+   * @returns number of events queued
+   */
+  async replay(id?: number): Promise<number> {
+    const replayed = await this.inboxRepository.replayDead(id !== undefined ? [id] : undefined);
+    if (replayed > 0) {
+      this.logger.log(`🔁 Replaying ${replayed} dead-lettered event(s)`);
+      this.drain();
+    }
+    return replayed;
+  }
+
+  async getEvents(status?: ChainEventStatus, limit?: number): Promise<ChainEventInboxEntity[]> {
+    return this.inboxRepository.findByStatus(status, limit);
+  }
+
+  async getEvent(id: number): Promise<ChainEventInboxEntity | null> {
+    return this.inboxRepository.findById(id);
+  }
+
+  async getCounts(): Promise<Record<ChainEventStatus, number>> {
+    return this.inboxRepository.countByStatus();
+  }
+
+  private async deliver(event: ChainEventInboxEntity) {
+    try {
+      await this.eventEmitter.emitAsync(event.eventName, this.parsePayload(event.payload));
+      await this.inboxRepository.markDone(event.id);
+    } catch (error) {
+      const attempts = event.attempts + 1;
+      const maxAttempts = parseInt(process.env.EVENT_INBOX_MAX_ATTEMPTS || '8', 10);
+
+      if (attempts >= maxAttempts) {
+        await this.inboxRepository.markFailed(event.id, error.message, null);
+        this.logger.error(
+          `💀 Event ${event.id} (${event.eventName}) dead-lettered after ${attempts} attempts: ${error.message}`,
+        );
+        this.eventEmitter.emit(CHAIN_EVENT_INBOX_EVENTS.DEAD_LETTERED, {
+          id: event.id,
+          eventName: event.eventName,
+          eventKey: event.eventKey,
+          attempts,
+          error: error.message,
+        });
+        return;
+      }
+
+      const baseDelayMs = parseInt(process.env.EVENT_INBOX_RETRY_BASE_DELAY_MS || '1000', 10);
+      const maxDelayMs = parseInt(process.env.EVENT_INBOX_RETRY_MAX_DELAY_MS || '300000', 10);
+      const delayMs = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempts - 1));
+      await this.inboxRepository.markFailed(
+        event.id,
+        error.message,
+        new Date(Date.now() + delayMs),
+      );
+      this.logger.warn(
+        `⚠️ Event ${event.id} (${event.eventName}) failed (attempt ${attempts}/${maxAttempts}), ` +
+          `retrying in ${delayMs}ms: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Payloads are stored as JSON; Date fields come back as Date objects
+   */
+  private parsePayload(payload: string): unknown {
+    return JSON.parse(payload, (_key, value) =>
+      typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : value,
+    );
+  }
+
+  private async pruneDelivered() {
+    const retentionHours = parseInt(process.env.EVENT_INBOX_RETENTION_HOURS || '168', 10);
+    if (retentionHours <= 0) {
+      return;
+    }
+
+    const pruned = await this.inboxRepository.pruneDone(
+      new Date(Date.now() - retentionHours * 60 * 60 * 1000),
+    );
+    if (pruned > 0) {
+      this.logger.log(`🧹 Pruned ${pruned} delivered inbox event(s)`);
+    }
+  }
+}
@@ -3,6 +3,13 @@ import { CredentialVerifierService } from './credential-verifier.service';
 import { BlockchainListenerService } from './blockchain-listener.service';
 import { EventProcessorService } from './event-processor.service';
 import { LockConfigService } from './lock-config.service';
+import { ReconciliationService } from './reconciliation.service';
+import { RescanService } from './rescan.service';
+import { ChainEventInboxService } from './chain-event-inbox.service';
+import { SnapshotService } from './snapshot.service';
+import { JobSchedulerService } from './job-scheduler.service';
+import { AccessScheduleService } from './access-schedule.service';
+import { HolderChallengeService } from './holder-challenge.service';
 import { DatabaseModule } from '@infra/database';
 
 /**
@@ -13,16 +20,30 @@ import { DatabaseModule } from '@infra/database';
 @Module({
   imports: [DatabaseModule],
   providers: [
+    JobSchedulerService,
     CredentialVerifierService,
     BlockchainListenerService,
     EventProcessorService,
     LockConfigService,
+    ReconciliationService,
+    RescanService,
+    ChainEventInboxService,
+    SnapshotService,
+    AccessScheduleService,
+    HolderChallengeService,
   ],
   exports: [
+    JobSchedulerService,
     CredentialVerifierService,
     BlockchainListenerService,
     EventProcessorService,
     LockConfigService,
+    ReconciliationService,
+    RescanService,
+    ChainEventInboxService,
+    SnapshotService,
+    AccessScheduleService,
+    HolderChallengeService,
   ],
 })
 export class CoreModule {}
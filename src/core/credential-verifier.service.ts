@@ -6,6 +6,69 @@ import {
   VerificationResult,
 } from '@mrazakos/vc-ecdsa-crypto';
 import { RevokedCredentialRepository } from '@infra/database';
+import { ConfigModule } from '@infra/config';
+import { LockConfigService, LockNotConfiguredError, TrustedKey } from './lock-config.service';
+import { AccessScheduleService, ScheduleRuleFailure } from './access-schedule.service';
+import { HolderChallengeService } from './holder-challenge.service';
+import { BlockchainListenerService, RevocationDataFreshness } from './blockchain-listener.service';
+
+/**
+ * Where a revocation answer came from
+ * - cache: local revoked_credentials table (listener is up to date)
+ * - chain: live isCredentialRevoked() call because the cache is stale
+ * - chain-cache: recent live answer reused
+ * - failure-policy: cache stale and chain unreachable, LIVE_REVOCATION_FAILURE_POLICY decided
+ * - staleness-budget: chain unreachable and the cache is older than the access level's budget
+ */
+export type RevocationSource =
+  'cache' | 'chain' | 'chain-cache' | 'failure-policy' | 'staleness-budget';
+
+/**
+ * How current the revocation answer was, and why it was accepted or refused
+ */
+export interface RevocationFreshness extends RevocationDataFreshness {
+  accessLevel: string;
+  budgetSeconds: number | null; // null = no budget, LIVE_REVOCATION_FAILURE_POLICY applies
+  reason: string;
+}
+
+export interface RevocationCheckResult {
+  revoked: boolean;
+  source: RevocationSource;
+  freshness: RevocationFreshness;
+}
+
+/**
+ * Machine-readable reasons a credential was refused
+ * - WRONG_LOCK: the credential was issued for another lock (lock id, allowed lock ids,
+ *   nickname or location claim), so the holder is at the wrong door
+ * - OUTSIDE_SCHEDULE: the credential's schedule or a holiday calendar does not allow access
+ *   now (scheduleRule names the rule)
+ * - CHALLENGE_FAILED: the challenge was missing, unknown, expired, already used or issued by
+ *   another lock - request a new one
+ * - HOLDER_SIGNATURE_INVALID: the challenge was not signed by the credential's holder key
+ */
+export type VerificationFailureCode =
+  'WRONG_LOCK' | 'OUTSIDE_SCHEDULE' | 'CHALLENGE_FAILED' | 'HOLDER_SIGNATURE_INVALID';
+
+/**
+ * The lock key a credential's signature was verified with
+ */
+export interface VerifiedKey {
+  keyId: number | null;
+  publicKey: string;
+  validFrom: string | null;
+  validUntil: string | null;
+}
+
+export type CredentialVerificationResult = VerificationResult & {
+  lockId?: number; // lock the credential was routed to
+  errorCode?: VerificationFailureCode;
+  scheduleRule?: ScheduleRuleFailure;
+  verifiedKey?: VerifiedKey;
+  revocationSource?: RevocationSource;
+  revocationFreshness?: RevocationFreshness;
+};
 
 /**
  * Core service for verifying Verifiable Credentials using ECDSA
@@ -16,8 +79,16 @@ export class CredentialVerifierService {
   private readonly logger = new Logger(CredentialVerifierService.name);
   private readonly vcVerifier: VCVerifier;
   private readonly vcRevoke: VCRevoke;
+  private readonly liveRevocationCache: Map<string, { revoked: boolean; checkedAt: number }> =
+    new Map();
 
-  constructor(private readonly revokedCredentialRepository: RevokedCredentialRepository) {
+  constructor(
+    private readonly revokedCredentialRepository: RevokedCredentialRepository,
+    private readonly lockConfigService: LockConfigService,
+    private readonly blockchainListener: BlockchainListenerService,
+    private readonly accessScheduleService: AccessScheduleService,
+    private readonly holderChallengeService: HolderChallengeService,
+  ) {
     this.vcVerifier = new VCVerifier();
     this.vcRevoke = new VCRevoke();
 
@@ -25,39 +96,151 @@ export class CredentialVerifierService {
   }
   /**
    * Verify a Verifiable Credential with embedded signature
+   * The credential is checked against the lock it is presented at: its lock binding claims,
+   * that lock's trusted keys (newest first, see key rotation) and revocations
+   * A gateway with several locks needs options.lockId - the credential's own lockId claim
+   * cannot say which door it is presented at; with a single lock it defaults to that lock
    * @param credential The VC to verify (SigningResult format with lockId, userDataHash, etc.)
-   * @param publicKey The public key to verify against
-   * @param isRevoked Whether the signature has been revoked
-   * @returns VerificationResult with detailed checks
+   * @param options.lockId Lock the credential is presented at (required with several locks)
+   * @param options.presentation Challenge and holder signature (see HolderChallengeService),
+   *   checked before the credential itself; required per HOLDER_BINDING_POLICY
+   * @returns VerificationResult with detailed checks and the revocation source
    */
   async verifyCredential(
     credential: VerifiableCredential,
-    publicKey: string,
-  ): Promise<VerificationResult> {
+    options: { lockId?: number; presentation?: { challenge?: string; signature?: string } } = {},
+  ): Promise<CredentialVerificationResult> {
     const verifiedAt = new Date();
-    let result: VerificationResult;
+    let result: CredentialVerificationResult;
 
     this.logger.log('Starting credential verification process');
-    this.logger.log(`🔑 Public Key Used:   ${publicKey.substring(0, 30)}...`);
+
+    if (options.lockId === undefined && this.lockConfigService.getLockIds().length > 1) {
+      const error =
+        'lockId of the lock the credential is presented at is required on a gateway with several locks';
+      this.logger.warn(`🚫 ${error}`);
+      return { verified: false, error };
+    }
+
+    let lockId: number;
+    try {
+      lockId = options.lockId ?? this.lockConfigService.resolveLockId(credential);
+      if (!this.lockConfigService.isReady(lockId)) {
+        throw new LockNotConfiguredError(lockId);
+      }
+    } catch (error) {
+      this.logger.warn(`🚫 ${error.message}`);
+      return {
+        verified: false,
+        error: error.message,
+        // A credential naming a lock this gateway does not manage is for another door
+        errorCode:
+          error instanceof LockNotConfiguredError && options.lockId === undefined
+            ? 'WRONG_LOCK'
+            : undefined,
+      };
+    }
+
+    const trustedKeys = this.lockConfigService.getTrustedKeys(lockId, verifiedAt);
+    this.logger.log(`🏢 Routed to Lock:    ${lockId}`);
+    this.logger.log(`🔑 Trusted Keys:      ${trustedKeys.length}`);
     const proof = Array.isArray(credential.proof) ? credential.proof[0] : credential.proof;
     this.logger.log(`📝 Proof Value:       ${(proof as any)?.proofValue?.substring(0, 30)}...`);
     this.logger.log(`🆔 Verification Method: ${(proof as any)?.verificationMethod}`);
 
+    const holderFailure = this.checkHolderBinding(lockId, credential, options.presentation);
+    if (holderFailure) {
+      this.logger.warn(`🔏 Holder binding failed: ${holderFailure.error}`);
+      return { verified: false, ...holderFailure, lockId };
+    }
+
     try {
-      if (await this.isRevoked(credential)) {
+      const bindingError = this.lockConfigService.checkLockBinding(lockId, credential);
+      if (bindingError) {
+        this.logger.warn(`🚪 Wrong lock: ${bindingError}`);
         result = {
           verified: false,
-          error: 'Signature has been revoked',
+          error: bindingError,
+          errorCode: 'WRONG_LOCK',
+          lockId,
         };
 
         return result;
       }
 
-      this.logger.log(`🔐 Calling vcVerifier.verifyOffChainCredential()...`);
-      result = await this.vcVerifier.verifyOffChainCredential(credential, publicKey, {
-        checkExpiration: true,
-        currentTime: verifiedAt,
-      });
+      const trustError =
+        trustedKeys.length === 0
+          ? `No trusted key for lock ${lockId} - call POST /api/v1/config/rekey with the new signer's public key`
+          : this.lockConfigService.checkCredentialTrust(lockId, credential);
+      if (trustError) {
+        this.logger.warn(`🚫 ${trustError}`);
+        result = {
+          verified: false,
+          error: trustError,
+          lockId,
+        };
+
+        return result;
+      }
+
+      const revocation = await this.checkRevocation(credential, lockId);
+      if (revocation.revoked) {
+        result = {
+          verified: false,
+          error:
+            revocation.source === 'failure-policy'
+              ? 'Revocation status unavailable (cache stale, chain unreachable)'
+              : revocation.source === 'staleness-budget'
+                ? revocation.freshness.reason
+                : 'Signature has been revoked',
+          lockId,
+          revocationSource: revocation.source,
+          revocationFreshness: revocation.freshness,
+        };
+
+        return result;
+      }
+
+      const verification = await this.verifyWithTrustedKeys(credential, trustedKeys, verifiedAt);
+      result = verification.result;
+      result.lockId = lockId;
+      if (result.verified) {
+        result.verifiedKey = verification.key;
+      }
+      result.revocationSource = revocation.source;
+      result.revocationFreshness = revocation.freshness;
+
+      if (result.verified) {
+        const pauseError = this.checkPausePolicy(credential);
+        if (pauseError) {
+          this.logger.warn(`⏸️  ${pauseError}`);
+          result = {
+            verified: false,
+            error: pauseError,
+            lockId,
+            revocationFreshness: revocation.freshness,
+          };
+          return result;
+        }
+
+        const scheduleRule = await this.accessScheduleService.evaluate(
+          lockId,
+          credential,
+          verifiedAt,
+        );
+        if (scheduleRule) {
+          this.logger.warn(`🕒 Outside schedule (${scheduleRule.rule}): ${scheduleRule.message}`);
+          result = {
+            verified: false,
+            error: scheduleRule.message,
+            errorCode: 'OUTSIDE_SCHEDULE',
+            scheduleRule,
+            lockId,
+            revocationFreshness: revocation.freshness,
+          };
+          return result;
+        }
+      }
 
       this.logger.log(`Credential verified at ${verifiedAt.toISOString()}`);
       this.logger.log(`Verification result: ${JSON.stringify(result)}`);
@@ -67,18 +250,314 @@ export class CredentialVerifierService {
       result = {
         verified: false,
         error: `Signature verification error: ${error.message}`,
+        lockId,
       };
       return result;
     }
   }
 
-  async isRevoked(credential: VerifiableCredential): Promise<boolean> {
+  /**
+   * Check the challenge-response presentation against HOLDER_BINDING_POLICY
+   * - if-bound: credentials with a holder key must be presented with a signed challenge
+   * - required: every credential must be presented with a signed challenge
+   * @returns the failure, or null if the presentation is valid or not needed
+   */
+  private checkHolderBinding(
+    lockId: number,
+    credential: VerifiableCredential,
+    presentation?: { challenge?: string; signature?: string },
+  ): { error: string; errorCode: VerificationFailureCode } | null {
+    if (!presentation) {
+      const policy = process.env.HOLDER_BINDING_POLICY || 'if-bound';
+      if (policy === 'required' || HolderChallengeService.hasHolderKey(credential)) {
+        return {
+          error:
+            'Credential must be presented with a signed challenge - request one from GET /api/v1/verify/challenge',
+          errorCode: 'CHALLENGE_FAILED',
+        };
+      }
+      return null;
+    }
+
+    const failure = this.holderChallengeService.verifyPresentation(
+      lockId,
+      credential,
+      presentation,
+    );
+    if (!failure) {
+      this.logger.log(`🔏 Holder signature verified for challenge ${presentation.challenge}`);
+      return null;
+    }
+    return {
+      error: failure.error,
+      errorCode: failure.challengeFailed ? 'CHALLENGE_FAILED' : 'HOLDER_SIGNATURE_INVALID',
+    };
+  }
+
+  /**
+   * Try each trusted key, newest first, until one verifies the signature
+   * @returns the first successful result, otherwise the result for the newest key
+   */
+  private async verifyWithTrustedKeys(
+    credential: VerifiableCredential,
+    trustedKeys: TrustedKey[],
+    verifiedAt: Date,
+  ): Promise<{ result: CredentialVerificationResult; key: VerifiedKey }> {
+    let first: { result: CredentialVerificationResult; key: VerifiedKey } | null = null;
+
+    for (const trustedKey of trustedKeys) {
+      this.logger.log(
+        `🔐 Calling vcVerifier.verifyOffChainCredential() with key ${trustedKey.publicKey.substring(0, 30)}...`,
+      );
+      const result: CredentialVerificationResult = await this.vcVerifier.verifyOffChainCredential(
+        credential,
+        trustedKey.publicKey,
+        { checkExpiration: true, currentTime: verifiedAt },
+      );
+      const key: VerifiedKey = {
+        keyId: trustedKey.keyId,
+        publicKey: trustedKey.publicKey,
+        validFrom: trustedKey.validFrom ? trustedKey.validFrom.toISOString() : null,
+        validUntil: trustedKey.validUntil ? trustedKey.validUntil.toISOString() : null,
+      };
+      if (result.verified) {
+        return { result, key };
+      }
+      first = first ?? { result, key };
+    }
+
+    return first as { result: CredentialVerificationResult; key: VerifiedKey };
+  }
+
+  /**
+   * Apply PAUSED_ACCESS_POLICY while the AccessControl contract is paused
+   * (revocations can't be published, so the revocation cache may be stale)
+   * @returns an error message, or null if access is allowed
+   */
+  private checkPausePolicy(credential: VerifiableCredential): string | null {
+    const pauseState = this.blockchainListener.getPauseState();
+    if (!pauseState.paused) {
+      return null;
+    }
+
+    const policy = process.env.PAUSED_ACCESS_POLICY || 'deny-except-admin';
+    const isAdmin = this.getAccessLevel(credential) === 'admin';
+
+    switch (policy) {
+      case 'allow':
+        return null;
+      case 'deny-except-admin':
+        return isAdmin ? null : 'Contract is paused: only admin credentials are accepted';
+      case 'issued-before-pause': {
+        const issued = Date.parse(
+          (credential as any).issuanceDate || (credential as any).validFrom,
+        );
+        const pausedAt = pauseState.since ? Date.parse(pauseState.since) : NaN;
+        if (isAdmin || (!isNaN(issued) && !isNaN(pausedAt) && issued < pausedAt)) {
+          return null;
+        }
+        return 'Contract is paused: only credentials issued before the pause are accepted';
+      }
+      default:
+        return 'Contract is paused: access denied';
+    }
+  }
+
+  private getAccessLevel(credential: VerifiableCredential): string {
+    const subject = credential.credentialSubject as any;
+    if (subject?.accessLevel === 'admin' || (subject?.permissions || []).includes('admin')) {
+      return 'admin';
+    }
+    return subject?.accessLevel || 'standard';
+  }
+
+  async isRevoked(credential: VerifiableCredential, lockId: number): Promise<boolean> {
+    return (await this.checkRevocation(credential, lockId)).revoked;
+  }
+
+  /**
+   * Check revocation status on a lock, falling back to a live contract call when the cache
+   * is stale
+   * Offline (or when the live call fails) the cache is trusted only within the staleness
+   * budget of the credential's access level (REVOCATION_STALENESS_BUDGET_HOURS)
+   */
+  async checkRevocation(
+    credential: VerifiableCredential,
+    lockId: number,
+  ): Promise<RevocationCheckResult> {
     const vcHash = this.vcRevoke.getCredentialHash(credential);
     this.logger.log(`🔍 VC Hash:           ${vcHash}`);
 
-    const isRevoked = await this.revokedCredentialRepository.isVcHashRevoked(vcHash);
-    this.logger.log(`🚫 Is Revoked:        ${isRevoked ? '❌ YES' : '✅ NO'}`);
+    const revocation = await this.revokedCredentialRepository.findByVcHash(vcHash, String(lockId));
+    let isRevoked = !!revocation;
+
+    // Unconfirmed revocations follow PENDING_REVOCATION_POLICY (deny by default)
+    if (revocation && revocation.status === 'pending') {
+      const policy = process.env.PENDING_REVOCATION_POLICY || 'deny';
+      isRevoked = policy !== 'allow';
+      this.logger.log(`⏳ Revocation pending confirmation (policy: ${policy})`);
+    }
+
+    const accessLevel = this.getAccessLevel(credential);
+    const budgetSeconds = this.getStalenessBudgetSeconds(accessLevel);
+    const dataFreshness = this.blockchainListener.getRevocationFreshness();
+    const freshness = (reason: string): RevocationFreshness => ({
+      ...dataFreshness,
+      accessLevel,
+      budgetSeconds,
+      reason,
+    });
+
+    let result: RevocationCheckResult = {
+      revoked: isRevoked,
+      source: 'cache',
+      freshness: freshness(
+        revocation ? 'Revocation found in local cache' : 'Revocation cache is up to date',
+      ),
+    };
+
+    // A cached revocation is final; only a "not revoked" answer can be stale
+    if (!revocation && (!dataFreshness.online || this.isCacheStale())) {
+      const live = dataFreshness.online
+        ? await this.checkRevocationOnChain(String(lockId), vcHash)
+        : null;
+      if (live?.source === 'chain' || live?.source === 'chain-cache') {
+        result = {
+          ...live,
+          freshness: freshness('Revocation cache is stale, answered by the contract'),
+        };
+      } else if (budgetSeconds === null) {
+        const policy = process.env.LIVE_REVOCATION_FAILURE_POLICY || 'fail-closed';
+        result = {
+          revoked: policy !== 'fail-open',
+          source: 'failure-policy',
+          freshness: freshness(
+            `Revocation cache is stale and the chain is unreachable (policy: ${policy})`,
+          ),
+        };
+      } else {
+        result = this.applyStalenessBudget(dataFreshness, accessLevel, budgetSeconds, freshness);
+      }
+    }
+
+    this.logger.log(
+      `🚫 Is Revoked:        ${result.revoked ? '❌ YES' : '✅ NO'} (source: ${result.source})`,
+    );
+
+    return result;
+  }
+
+  private isCacheStale(): boolean {
+    const { blocksBehind, lastSyncAgeMs } = this.blockchainListener.getCacheFreshness();
+    const maxBlocksBehind = parseInt(process.env.REVOCATION_STALE_BLOCKS || '100', 10);
+    const maxSyncAgeMs =
+      parseInt(
+        process.env.REVOCATION_STALE_SECONDS ||
+          String(parseInt(process.env.BATCH_SYNC_INTERVAL_MINUTES || '15', 10) * 2 * 60),
+        10,
+      ) * 1000;
+
+    const stale =
+      blocksBehind > maxBlocksBehind || lastSyncAgeMs === null || lastSyncAgeMs > maxSyncAgeMs;
+    if (stale) {
+      this.logger.warn(
+        `⚠️ Revocation cache is stale (${blocksBehind} blocks behind, last sync ${
+          lastSyncAgeMs === null ? 'never' : `${Math.round(lastSyncAgeMs / 1000)}s ago`
+        })`,
+      );
+    }
+    return stale;
+  }
+
+  /**
+   * Budget for an access level from REVOCATION_STALENESS_BUDGET_HOURS ("default" covers the rest)
+   * @returns seconds, or null when no budget applies
+   */
+  private getStalenessBudgetSeconds(accessLevel: string): number | null {
+    const { budgets } = ConfigModule.parseStalenessBudgets(
+      process.env.REVOCATION_STALENESS_BUDGET_HOURS,
+    );
+    const hours = budgets[accessLevel] ?? budgets.default;
+    return hours === undefined ? null : Math.round(hours * 60 * 60);
+  }
+
+  private applyStalenessBudget(
+    dataFreshness: RevocationDataFreshness,
+    level: string,
+    budgetSeconds: number,
+    freshness: (reason: string) => RevocationFreshness,
+  ): RevocationCheckResult {
+    const { stalenessSeconds } = dataFreshness;
+    const budget = this.formatDuration(budgetSeconds);
+
+    if (stalenessSeconds === null) {
+      this.logger.warn(`⏳ No completed sync yet - ${level} access denied`);
+      return {
+        revoked: true,
+        source: 'staleness-budget',
+        freshness: freshness(
+          `Chain unreachable and revocation data was never synced (${level} budget ${budget})`,
+        ),
+      };
+    }
 
-    return isRevoked;
+    const age = this.formatDuration(stalenessSeconds);
+    if (stalenessSeconds > budgetSeconds) {
+      this.logger.warn(`⏳ Revocation data is ${age} old, over the ${level} budget of ${budget}`);
+      return {
+        revoked: true,
+        source: 'staleness-budget',
+        freshness: freshness(
+          `Chain unreachable and revocation data is ${age} old, over the ${level} budget of ${budget}`,
+        ),
+      };
+    }
+
+    return {
+      revoked: false,
+      source: 'cache',
+      freshness: freshness(
+        `Chain unreachable, revocation data is ${age} old, within the ${level} budget of ${budget}`,
+      ),
+    };
+  }
+
+  private formatDuration(seconds: number): string {
+    if (seconds < 60 * 60) {
+      return `${Math.floor(seconds / 60)}m`;
+    }
+    const hours = Math.floor(seconds / (60 * 60));
+    const minutes = Math.floor((seconds % (60 * 60)) / 60);
+    return minutes ? `${hours}h${minutes}m` : `${hours}h`;
+  }
+
+  /**
+   * Live contract call (answers are reused for LIVE_REVOCATION_CACHE_TTL_SECONDS)
+   * @returns null if the chain is unreachable
+   */
+  private async checkRevocationOnChain(
+    lockId: string,
+    vcHash: string,
+  ): Promise<Pick<RevocationCheckResult, 'revoked' | 'source'> | null> {
+    const ttlMs = parseInt(process.env.LIVE_REVOCATION_CACHE_TTL_SECONDS || '60', 10) * 1000;
+    const cacheKey = RevokedCredentialRepository.revocationId(lockId, vcHash);
+    const cached = this.liveRevocationCache.get(cacheKey);
+    if (cached && Date.now() - cached.checkedAt < ttlMs) {
+      return { revoked: cached.revoked, source: 'chain-cache' };
+    }
+
+    try {
+      const timeoutMs = parseInt(process.env.LIVE_REVOCATION_TIMEOUT_MS || '3000', 10);
+      const revoked = await this.blockchainListener.isCredentialRevokedOnChain(
+        lockId,
+        vcHash,
+        timeoutMs,
+      );
+      this.liveRevocationCache.set(cacheKey, { revoked, checkedAt: Date.now() });
+      return { revoked, source: 'chain' };
+    } catch (error) {
+      this.logger.error(`❌ Live revocation check failed: ${error.message}`);
+      return null;
+    }
   }
 }
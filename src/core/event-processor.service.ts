@@ -1,11 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { OnEvent } from '@nestjs/event-emitter';
 import { BLOCKCHAIN_EVENTS, RevocationEventData } from '@core/blockchain-listener.service';
-import {
-  RevokedCredentialRepository,
-  SignatureEntryRepository,
-  SyncStateRepository,
-} from '@infra/database';
+import { RevokedCredentialRepository, SignatureEntryRepository } from '@infra/database';
 import { ethers } from 'ethers';
 
 /**
@@ -19,46 +15,72 @@ export class EventProcessorService {
   constructor(
     private readonly revokedCredentialRepository: RevokedCredentialRepository,
     private readonly signatureEntryRepository: SignatureEntryRepository,
-    private readonly syncStateRepository: SyncStateRepository,
   ) {}
 
   /**
-   * Handle CredentialRevoked event (both real-time and batch)
-   * For single-lock monitoring - no lockId needed in database
+   * Handle CredentialRevoked event (delivered from the chain event inbox)
+   * Revocations are stored per lock, so the same VC hash can be revoked on several locks
+   * Errors are rethrown so the inbox retries the event instead of dropping it
    */
-  @OnEvent(BLOCKCHAIN_EVENTS.CREDENTIAL_REVOKED)
+  @OnEvent(BLOCKCHAIN_EVENTS.CREDENTIAL_REVOKED, { suppressErrors: false })
   async handleCredentialRevoked(data: RevocationEventData) {
     try {
-      const { vcHash, blockNumber, timestamp, source, revokedBy, transactionHash } = data;
+      const {
+        lockId,
+        vcHash,
+        blockNumber,
+        blockHash,
+        timestamp,
+        detectedAt,
+        source,
+        revokedBy,
+        transactionHash,
+        confirmed,
+      } = data;
 
       this.logger.log(`\n${'='.repeat(80)}`);
       this.logger.log(`🔔 REVOCATION EVENT RECEIVED [${source.toUpperCase()}]`);
       this.logger.log(`${'='.repeat(80)}`);
+      this.logger.log(`🏢 Lock ID:           ${lockId}`);
       this.logger.log(`📋 VC Hash:           ${vcHash}`);
       this.logger.log(`👤 Revoked By:        ${revokedBy}`);
       this.logger.log(`🧱 Block Number:      ${blockNumber}`);
       this.logger.log(`🔗 Transaction Hash:  ${transactionHash}`);
-      this.logger.log(`⏰ Timestamp:         ${timestamp.toISOString()}`);
+      this.logger.log(`⏰ Block Time:        ${timestamp.toISOString()}`);
+      this.logger.log(`👀 Detected At:       ${detectedAt.toISOString()}`);
+      this.logger.log(`⛓️  Status:            ${confirmed ? 'confirmed' : 'pending'}`);
       this.logger.log(`${'='.repeat(80)}\n`);
 
       // Check if already cached to avoid duplicates
-      const exists = await this.revokedCredentialRepository.isVcHashRevoked(vcHash);
+      const existing = await this.revokedCredentialRepository.findByVcHash(vcHash, lockId);
+
+      if (existing) {
+        // A pending revocation seen again once it is deep enough gets promoted
+        if (existing.status === 'pending' && confirmed) {
+          await this.revokedCredentialRepository.markConfirmed([existing.id]);
+          this.logger.log(`✅ Pending revocation ${vcHash.substring(0, 10)}... now confirmed`);
+          return;
+        }
 
-      if (exists) {
         this.logger.warn(
           `⚠️  Credential ${vcHash.substring(0, 10)}... ALREADY IN DATABASE (skipping duplicate)`,
         );
         return;
       }
 
-      // Save revocation to database (no lockId - single lock instance)
+      // Save revocation to database
       let savedSuccessfully = false;
       try {
         await this.revokedCredentialRepository.save({
-          id: vcHash, // Use hash as primary key since we only monitor one lock
+          id: RevokedCredentialRepository.revocationId(lockId, vcHash),
+          lockId,
           vcHash,
           blockNumber,
+          blockHash,
+          transactionHash,
+          status: confirmed ? 'confirmed' : 'pending',
           revokedAt: timestamp,
+          detectedAt,
         });
         savedSuccessfully = true;
       } catch (saveError) {
@@ -94,7 +116,7 @@ export class EventProcessorService {
           this.logger.log(`   (No revoked credentials in database)`);
         } else {
           allRevoked.forEach((revoked, index) => {
-            this.logger.log(`   ${index + 1}. Hash: ${revoked.vcHash}`);
+            this.logger.log(`   ${index + 1}. Hash: ${revoked.vcHash} (lock ${revoked.lockId})`);
             this.logger.log(`      Block: ${revoked.blockNumber}`);
             this.logger.log(`      Revoked At: ${revoked.revokedAt.toISOString()}`);
             this.logger.log(`      Created At: ${revoked.createdAt.toISOString()}`);
@@ -109,6 +131,7 @@ export class EventProcessorService {
         `❌ Failed to process CredentialRevoked event: ${error.message}`,
         error.stack,
       );
+      throw error;
     }
   }
 
@@ -118,7 +141,7 @@ export class EventProcessorService {
   @OnEvent(BLOCKCHAIN_EVENTS.BATCH_SYNC_COMPLETE)
   async handleBatchSyncComplete(data: any) {
     try {
-      const { totalEvents, fromBlock, toBlock, newRevocations, network, contractAddress, lockId } =
+      const { totalEvents, fromBlock, toBlock, newRevocations, network, contractAddress, lockIds } =
         data;
 
       this.logger.log(`\n${'='.repeat(80)}`);
@@ -132,23 +155,10 @@ export class EventProcessorService {
       const totalRevoked = await this.revokedCredentialRepository.countAll();
       const totalEntries = await this.signatureEntryRepository.countAll();
 
-      // Persist the toBlock as lastSyncedBlock (batch sync already updated it in blockchain listener)
-      // This is a backup/confirmation that the state is persisted
-      if (network && contractAddress && lockId) {
-        try {
-          await this.syncStateRepository.updateLastSyncedBlock(
-            network,
-            contractAddress,
-            lockId,
-            toBlock,
-          );
-          this.logger.debug(`📌 Confirmed lastSyncedBlock at ${toBlock} (batch sync complete)`);
-        } catch (syncErr) {
-          this.logger.warn(
-            `Failed to update lastSyncedBlock in batch complete: ${syncErr.message}`,
-          );
-        }
-      }
+      // lastSyncedBlock is committed per chunk by the listener, together with the revocations
+      this.logger.debug(
+        `📌 Checkpoint for ${network}/${contractAddress} locks ${lockIds.join(', ')} at block ${toBlock}`,
+      );
 
       this.logger.log(
         `📊 Total in DB:        ${totalRevoked} revocations, ${totalEntries} entries`,
@@ -161,9 +171,13 @@ export class EventProcessorService {
 
   /**
    * Log a signature entry (when signature is used for verification)
-   * This creates an audit trail of signature usage
+   * This creates an audit trail of signature usage, including which lock key verified it
    */
-  async logSignatureEntry(signature: string, publicKey?: string): Promise<void> {
+  async logSignatureEntry(
+    signature: string,
+    publicKey?: string,
+    verifiedBy: { lockId?: number; keyId?: number | null } = {},
+  ): Promise<void> {
     try {
       // Check if signature is revoked
       const signatureHash = ethers.utils.keccak256(ethers.utils.toUtf8Bytes(signature));
@@ -174,6 +188,8 @@ export class EventProcessorService {
         id: `entry-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
         signatureHash,
         publicKey: publicKey || 'N/A',
+        lockId: verifiedBy.lockId ?? null,
+        keyId: verifiedBy.keyId ?? null,
         timestamp: new Date(),
       });
 
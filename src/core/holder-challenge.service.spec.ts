@@ -0,0 +1,39 @@
+import { ethers } from 'ethers';
+import { ChallengeLimitError, HolderChallengeService } from './holder-challenge.service';
+
+describe('HolderChallengeService', () => {
+  let service: HolderChallengeService;
+
+  beforeEach(() => {
+    service = new HolderChallengeService();
+  });
+
+  it('refuses new challenges for a lock at the limit instead of dropping outstanding ones', async () => {
+    const first = service.issue(1);
+    for (let i = 1; i < 1000; i++) {
+      service.issue(1);
+    }
+
+    expect(() => service.issue(1)).toThrow(ChallengeLimitError);
+
+    // The first challenge is still usable, and using it frees a slot
+    const holder = new ethers.Wallet(ethers.utils.randomBytes(32));
+    const credential = { credentialSubject: { holderAddress: holder.address } };
+    expect(
+      service.verifyPresentation(1, credential, {
+        challenge: first.challenge,
+        signature: await holder.signMessage(first.message),
+      }),
+    ).toBeNull();
+    expect(() => service.issue(1)).not.toThrow();
+  });
+
+  it('keeps the limit per lock', () => {
+    for (let i = 0; i < 1000; i++) {
+      service.issue(1);
+    }
+
+    expect(() => service.issue(1)).toThrow(ChallengeLimitError);
+    expect(service.issue(2).lockId).toBe(2);
+  });
+});
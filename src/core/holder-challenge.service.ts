@@ -0,0 +1,198 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+
+/**
+ * A challenge issued by a lock (GET /api/v1/verify/challenge)
+ */
+export interface HolderChallenge {
+  challenge: string;
+  lockId: number;
+  message: string; // what the holder signs (EIP-191 personal_sign)
+  issuedAt: string;
+  expiresAt: string;
+}
+
+/**
+ * A credential presented together with the holder's signature over a challenge
+ */
+export interface HolderPresentation {
+  credential: any;
+  challenge: string;
+  signature: string;
+}
+
+/**
+ * Too many challenges of a lock are outstanding
+ */
+export class ChallengeLimitError extends Error {
+  constructor(
+    readonly lockId: number,
+    readonly limit: number,
+  ) {
+    super(
+      `Too many outstanding challenges for lock ${lockId} (${limit}) - retry when they are used or expired`,
+    );
+    this.name = 'ChallengeLimitError';
+  }
+}
+
+interface PendingChallenge {
+  lockId: number;
+  expiresAt: number;
+}
+
+/**
+ * Nonce challenges for holder binding, so a copied credential cannot be replayed
+ * - each challenge is for one lock, short-lived (HOLDER_CHALLENGE_TTL_SECONDS) and single use
+ * - the holder signs challengeMessage(challenge, lockId) with the key bound in
+ *   credentialSubject.holderPublicKey / credentialSubject.holderAddress
+ * Outstanding challenges are kept in memory; a restart invalidates them. Each lock has at
+ * most MAX_OUTSTANDING_PER_LOCK of them, so flooding one lock can't push out the challenges
+ * of holders at that or any other lock
+ */
+@Injectable()
+export class HolderChallengeService {
+  private readonly logger = new Logger(HolderChallengeService.name);
+  private challenges: Map<string, PendingChallenge> = new Map();
+
+  private static readonly MAX_OUTSTANDING_PER_LOCK = 1000;
+
+  /**
+   * Issue a challenge for a lock
+   * @throws ChallengeLimitError if the lock has too many outstanding challenges
+   */
+  issue(lockId: number): HolderChallenge {
+    this.pruneExpired();
+    let outstanding = 0;
+    for (const pending of this.challenges.values()) {
+      if (pending.lockId === lockId) {
+        outstanding++;
+      }
+    }
+    if (outstanding >= HolderChallengeService.MAX_OUTSTANDING_PER_LOCK) {
+      throw new ChallengeLimitError(lockId, HolderChallengeService.MAX_OUTSTANDING_PER_LOCK);
+    }
+
+    const ttlSeconds = parseInt(process.env.HOLDER_CHALLENGE_TTL_SECONDS || '60', 10);
+    const issuedAt = Date.now();
+    const expiresAt = issuedAt + ttlSeconds * 1000;
+    const challenge = ethers.utils.hexlify(ethers.utils.randomBytes(32));
+    this.challenges.set(challenge, { lockId, expiresAt });
+
+    return {
+      challenge,
+      lockId,
+      message: HolderChallengeService.challengeMessage(challenge, lockId),
+      issuedAt: new Date(issuedAt).toISOString(),
+      expiresAt: new Date(expiresAt).toISOString(),
+    };
+  }
+
+  /**
+   * Consume a challenge and check the holder's signature over it
+   * The challenge is used up even if the check fails
+   * @returns an error message and whether the challenge (rather than the signature) failed,
+   *   or null if the presentation is bound to the credential's holder
+   */
+  verifyPresentation(
+    lockId: number,
+    credential: any,
+    presentation: { challenge?: string; signature?: string },
+  ): { error: string; challengeFailed: boolean } | null {
+    const challengeError = this.consume(presentation.challenge, lockId);
+    if (challengeError) {
+      return { error: challengeError, challengeFailed: true };
+    }
+
+    const holderAddress = HolderChallengeService.getHolderAddress(credential);
+    if (!holderAddress) {
+      return {
+        error:
+          'Credential has no valid holder key (credentialSubject.holderPublicKey or holderAddress)',
+        challengeFailed: false,
+      };
+    }
+
+    let recovered: string;
+    try {
+      recovered = ethers.utils
+        .verifyMessage(
+          HolderChallengeService.challengeMessage(presentation.challenge as string, lockId),
+          presentation.signature || '',
+        )
+        .toLowerCase();
+    } catch (error) {
+      return {
+        error: `Invalid holder signature: ${error.reason || error.message}`,
+        challengeFailed: false,
+      };
+    }
+    if (recovered !== holderAddress) {
+      return {
+        error: `Holder signature is from ${recovered}, not the credential holder ${holderAddress}`,
+        challengeFailed: false,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Lowercase address of the holder key bound in credentialSubject, or null if there is none
+   */
+  static getHolderAddress(credential: any): string | null {
+    const subject = credential?.credentialSubject || {};
+    try {
+      if (subject.holderPublicKey) {
+        return ethers.utils.computeAddress(subject.holderPublicKey).toLowerCase();
+      }
+      if (subject.holderAddress) {
+        return ethers.utils.getAddress(subject.holderAddress).toLowerCase();
+      }
+    } catch {
+      return null;
+    }
+    return null;
+  }
+
+  static hasHolderKey(credential: any): boolean {
+    const subject = credential?.credentialSubject || {};
+    return !!(subject.holderPublicKey || subject.holderAddress);
+  }
+
+  /**
+   * Message the holder signs: ties the challenge to the lock it was issued by
+   */
+  static challengeMessage(challenge: string, lockId: number): string {
+    return `Access request for lock ${lockId}\nChallenge: ${challenge}`;
+  }
+
+  private consume(challenge: string | undefined, lockId: number): string | null {
+    if (!challenge) {
+      return 'Challenge required - request one from GET /api/v1/verify/challenge';
+    }
+
+    const pending = this.challenges.get(challenge);
+    this.challenges.delete(challenge);
+    if (!pending) {
+      return 'Unknown or already used challenge';
+    }
+    if (pending.expiresAt <= Date.now()) {
+      return 'Challenge expired';
+    }
+    if (pending.lockId !== lockId) {
+      this.logger.warn(`⚠️  Challenge for lock ${pending.lockId} presented at lock ${lockId}`);
+      return `Challenge was issued by lock ${pending.lockId}, not lock ${lockId}`;
+    }
+    return null;
+  }
+
+  private pruneExpired() {
+    const now = Date.now();
+    for (const [challenge, pending] of this.challenges) {
+      if (pending.expiresAt <= now) {
+        this.challenges.delete(challenge);
+      }
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import { HolidayCalendarEvent } from '@infra/database';
+
+/**
+ * Thrown when a file is not an iCalendar (RFC 5545) calendar
+ */
+export class ICalendarParseError extends Error {
+  constructor(reason: string) {
+    super(`Invalid iCalendar file: ${reason}`);
+    this.name = 'ICalendarParseError';
+  }
+}
+
+export interface ParsedHolidayCalendar {
+  name: string | null; // X-WR-CALNAME
+  events: HolidayCalendarEvent[];
+  skipped: number; // events without DTSTART or with an unsupported recurrence
+}
+
+/**
+ * Read the events of an iCalendar file as whole days
+ * Only the date part of DTSTART / DTEND is used (holiday calendars are all-day events);
+ * recurring events are supported for RRULE:FREQ=YEARLY (with UNTIL or COUNT)
+ * @throws ICalendarParseError if the content is not a VCALENDAR
+ */
+export function parseHolidayCalendar(ics: string): ParsedHolidayCalendar {
+  // Long lines are folded onto continuation lines starting with a space or tab
+  const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  if (!lines.some((line) => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new ICalendarParseError('BEGIN:VCALENDAR not found');
+  }
+
+  let name: string | null = null;
+  const events: HolidayCalendarEvent[] = [];
+  let skipped = 0;
+  let current: Map<string, string> | null = null;
+
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+    const property = line.substring(0, separator).split(';')[0].trim().toUpperCase();
+    const value = line.substring(separator + 1).trim();
+
+    if (property === 'BEGIN' && value.toUpperCase() === 'VEVENT') {
+      current = new Map();
+    } else if (property === 'END' && value.toUpperCase() === 'VEVENT' && current) {
+      const event = toEvent(current);
+      if (event) {
+        events.push(event);
+      } else {
+        skipped++;
+      }
+      current = null;
+    } else if (current) {
+      current.set(property, value);
+    } else if (property === 'X-WR-CALNAME') {
+      name = unescapeText(value);
+    }
+  }
+
+  return { name, events, skipped };
+}
+
+/**
+ * First event of a calendar that covers a date (YYYY-MM-DD)
+ */
+export function findHolidayEvent(
+  events: HolidayCalendarEvent[],
+  date: string,
+): HolidayCalendarEvent | undefined {
+  return events.find((event) => {
+    if (!event.yearly) {
+      return event.startDate <= date && date < event.endDate;
+    }
+    if (date < event.startDate) {
+      return false;
+    }
+
+    // The occurrence of this year, or of last year when it spans New Year
+    const span = daysBetween(event.startDate, event.endDate);
+    const year = Number(date.substring(0, 4));
+    return [year - 1, year].some((occurrenceYear) => {
+      const start = `${occurrenceYear}${event.startDate.substring(4)}`;
+      return (
+        start >= event.startDate &&
+        (!event.until || start <= event.until) &&
+        start <= date &&
+        date < addDays(start, span)
+      );
+    });
+  });
+}
+
+function toEvent(properties: Map<string, string>): HolidayCalendarEvent | null {
+  const start = toDate(properties.get('DTSTART'));
+  if (!start) {
+    return null;
+  }
+
+  const rrule = properties.get('RRULE');
+  const rule = new Map((rrule || '').split(';').map((part) => part.split('=') as [string, string]));
+  if (rrule && rule.get('FREQ')?.toUpperCase() !== 'YEARLY') {
+    return null;
+  }
+
+  let until: string | null = toDate(rule.get('UNTIL')) ?? null;
+  const count = parseInt(rule.get('COUNT') || '', 10);
+  if (!until && count > 0) {
+    until = `${Number(start.substring(0, 4)) + count - 1}${start.substring(4)}`;
+  }
+
+  // DTEND is exclusive for dates; a date-time end still covers the day it ends on
+  const endValue = properties.get('DTEND');
+  const end = toDate(endValue);
+  const endsDuringDay = !!endValue && /T(?!0{6})\d{6}/.test(endValue);
+  const endDate = end ? (endsDuringDay ? addDays(end, 1) : end) : addDays(start, 1);
+
+  return {
+    summary: properties.has('SUMMARY') ? unescapeText(properties.get('SUMMARY') as string) : null,
+    startDate: start,
+    endDate: endDate > start ? endDate : addDays(start, 1),
+    yearly: !!rrule,
+    until,
+  };
+}
+
+/**
+ * YYYY-MM-DD from an iCalendar DATE or DATE-TIME value
+ */
+function toDate(value: string | undefined): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value || '');
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+function addDays(date: string, days: number): string {
+  const time = Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000;
+  return new Date(time).toISOString().substring(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([,;\\])/g, '$1').replace(/\\n/gi, ' ');
+}
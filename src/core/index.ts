@@ -2,3 +2,15 @@ export * from './entities';
 export * from './credential-verifier.service';
 export * from './blockchain-listener.service';
 export * from './event-processor.service';
+export * from './reconciliation.service';
+export * from './rescan.service';
+export * from './chain-event-inbox.service';
+export * from './snapshot.service';
+export * from './job-scheduler.service';
+export * from './rpc-provider-pool';
+export * from './rpc-governor';
+export * from './adaptive-log-scanner';
+export * from './receipt-verifier';
+export * from './access-schedule.service';
+export * from './holiday-calendar';
+export * from './holder-challenge.service';
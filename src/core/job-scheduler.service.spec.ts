@@ -0,0 +1,76 @@
+import { Logger } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { intervalSchedule, JobSchedulerService } from './job-scheduler.service';
+
+describe('JobSchedulerService', () => {
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  describe('intervalSchedule', () => {
+    it.each([
+      [5, { cron: '*/5 * * * * *' }],
+      [15 * 60, { cron: '0 */15 * * * *' }],
+      [6 * 60 * 60, { cron: '0 0 */6 * * *' }],
+      [24 * 60 * 60, { cron: '0 0 0 * * *' }],
+    ])('uses cron for %is, which divides its period', (seconds, schedule) => {
+      expect(intervalSchedule(seconds)).toEqual(schedule);
+    });
+
+    it.each([7, 45 * 60, 90 * 60, 5 * 60 * 60, 2 * 24 * 60 * 60, 1.5])(
+      'keeps %ss as an interval',
+      (seconds) => {
+        expect(intervalSchedule(seconds)).toEqual({ intervalSeconds: seconds });
+      },
+    );
+  });
+
+  describe('interval jobs', () => {
+    let scheduler: JobSchedulerService;
+    let handler: jest.Mock;
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z') });
+      scheduler = new JobSchedulerService(new SchedulerRegistry());
+      handler = jest.fn().mockResolvedValue(undefined);
+      scheduler.register('job', { intervalSeconds: 90 * 60, description: 'test', handler });
+    });
+
+    afterEach(() => {
+      scheduler.onModuleDestroy();
+      jest.useRealTimers();
+    });
+
+    it('runs every interval, counted from registration', async () => {
+      expect(scheduler.get('job')).toMatchObject({
+        cron: null,
+        intervalSeconds: 5400,
+        nextRunAt: '2024-06-01T13:30:00.000Z',
+      });
+
+      await jest.advanceTimersByTimeAsync(3 * 60 * 60 * 1000);
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(scheduler.get('job')?.nextRunAt).toBe('2024-06-01T16:30:00.000Z');
+    });
+
+    it('stops while paused and switches to cron when rescheduled', async () => {
+      scheduler.pause('job');
+      await jest.advanceTimersByTimeAsync(2 * 60 * 60 * 1000);
+      expect(handler).not.toHaveBeenCalled();
+      expect(scheduler.get('job')?.nextRunAt).toBeNull();
+
+      scheduler.resume('job');
+      scheduler.resume('job');
+      scheduler.reschedule('job', { cron: '0 0 * * * *' });
+      expect(scheduler.get('job')).toMatchObject({
+        cron: '0 0 * * * *',
+        intervalSeconds: null,
+        nextRunAt: '2024-06-01T15:00:00.000Z',
+      });
+
+      await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,343 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob, CronTime } from 'cron';
+
+/**
+ * When a job runs: a cron expression, or a fixed interval counted from when it was scheduled
+ */
+export type JobSchedule = { cron: string } | { intervalSeconds: number };
+
+/**
+ * A recurring background job
+ */
+export type ScheduledJobDefinition = JobSchedule & {
+  description: string;
+  handler: () => Promise<unknown>;
+  paused?: boolean;
+};
+
+/**
+ * Schedule and run state of a job (exposed on /api/v1/scheduler/jobs)
+ */
+export interface ScheduledJobInfo {
+  name: string;
+  description: string;
+  cron: string | null;
+  intervalSeconds: number | null; // set instead of cron for interval jobs
+  paused: boolean;
+  running: boolean;
+  nextRunAt: string | null;
+  runs: number;
+  skippedOverlaps: number; // ticks skipped because the previous run was still going
+  lastTrigger: 'scheduled' | 'manual' | null;
+  lastStartedAt: string | null;
+  lastFinishedAt: string | null;
+  lastDurationMs: number | null;
+  lastResult: 'completed' | 'failed' | null;
+  lastError: string | null;
+}
+
+interface JobEntry {
+  info: ScheduledJobInfo;
+  handler: () => Promise<unknown>;
+  nextIntervalRunAt: number | null; // interval jobs: when the timer fires next
+}
+
+/**
+ * Schedule for a fixed interval
+ * Intervals that divide the minute / hour / day evenly become cron expressions (runs stay on
+ * round times); any other interval, e.g. 90 or 45 minutes, runs as a plain interval - cron
+ * steps restart at every boundary and would change it
+ */
+export function intervalSchedule(seconds: number): JobSchedule {
+  const divides = (unit: number, period: number) =>
+    seconds % unit === 0 && period % (seconds / unit) === 0;
+
+  if (seconds < 60 && divides(1, 60)) {
+    return { cron: `*/${seconds} * * * * *` };
+  }
+  if (seconds < 60 * 60 && divides(60, 60)) {
+    return { cron: `0 */${seconds / 60} * * * *` };
+  }
+  if (seconds < 24 * 60 * 60 && divides(60 * 60, 24)) {
+    return { cron: `0 0 */${seconds / (60 * 60)} * * *` };
+  }
+  if (seconds === 24 * 60 * 60) {
+    return { cron: '0 0 0 * * *' };
+  }
+  return { intervalSeconds: seconds };
+}
+
+/**
+ * Human-readable schedule of a job (cron expression or interval)
+ */
+export function describeSchedule(schedule: JobSchedule): string {
+  return 'cron' in schedule ? schedule.cron : `every ${schedule.intervalSeconds}s`;
+}
+
+/**
+ * Recurring jobs (batch sync, reconciliation, maintenance) on the Nest scheduler registry
+ * - owning services register their jobs with a cron expression or an interval (defaults come
+ *   from env)
+ * - schedules can be changed, paused, resumed and triggered at runtime; changes are not
+ *   persisted, a restart goes back to the env defaults
+ * - a job never overlaps itself: ticks that fire while it is still running are skipped
+ */
+@Injectable()
+export class JobSchedulerService implements OnModuleDestroy {
+  private readonly logger = new Logger(JobSchedulerService.name);
+  private jobs = new Map<string, JobEntry>();
+
+  constructor(private readonly schedulerRegistry: SchedulerRegistry) {}
+
+  onModuleDestroy() {
+    for (const name of [...this.jobs.keys()]) {
+      this.unregister(name);
+    }
+  }
+
+  /**
+   * Register (or replace) a job
+   * @throws Error if the cron expression is invalid
+   */
+  register(name: string, definition: ScheduledJobDefinition) {
+    this.validateSchedule(definition);
+    this.unregister(name);
+
+    const entry: JobEntry = {
+      handler: definition.handler,
+      nextIntervalRunAt: null,
+      info: {
+        name,
+        description: definition.description,
+        cron: 'cron' in definition ? definition.cron : null,
+        intervalSeconds: 'intervalSeconds' in definition ? definition.intervalSeconds : null,
+        paused: !!definition.paused,
+        running: false,
+        nextRunAt: null,
+        runs: 0,
+        skippedOverlaps: 0,
+        lastTrigger: null,
+        lastStartedAt: null,
+        lastFinishedAt: null,
+        lastDurationMs: null,
+        lastResult: null,
+        lastError: null,
+      },
+    };
+    this.jobs.set(name, entry);
+
+    this.addTimer(entry);
+    if (!entry.info.paused) {
+      this.start(entry);
+    }
+
+    this.logger.log(
+      `🗓️  Job ${name} scheduled (${describeSchedule(definition)})${entry.info.paused ? ' - paused' : ''}`,
+    );
+  }
+
+  /**
+   * Stop and remove a job; a run in progress finishes
+   */
+  unregister(name: string) {
+    const entry = this.jobs.get(name);
+    if (!entry) {
+      return;
+    }
+    this.removeTimer(entry);
+    this.jobs.delete(name);
+  }
+
+  list(): ScheduledJobInfo[] {
+    return [...this.jobs.keys()].map((name) => this.get(name) as ScheduledJobInfo);
+  }
+
+  get(name: string): ScheduledJobInfo | null {
+    const entry = this.jobs.get(name);
+    if (!entry) {
+      return null;
+    }
+    return { ...entry.info, nextRunAt: this.nextRunAt(name, entry) };
+  }
+
+  /**
+   * Whether the job is registered and not paused
+   */
+  isActive(name: string): boolean {
+    const entry = this.jobs.get(name);
+    return !!entry && !entry.info.paused;
+  }
+
+  /**
+   * Change a job's schedule; paused jobs stay paused
+   * @throws Error if the job does not exist or the schedule is invalid
+   */
+  reschedule(name: string, schedule: JobSchedule): ScheduledJobInfo {
+    const entry = this.getEntry(name);
+    this.validateSchedule(schedule);
+
+    this.removeTimer(entry);
+    entry.info.cron = 'cron' in schedule ? schedule.cron : null;
+    entry.info.intervalSeconds = 'intervalSeconds' in schedule ? schedule.intervalSeconds : null;
+    this.addTimer(entry);
+    if (!entry.info.paused) {
+      this.start(entry);
+    }
+
+    this.logger.log(`🗓️  Job ${name} rescheduled (${describeSchedule(schedule)})`);
+    return this.get(name) as ScheduledJobInfo;
+  }
+
+  /**
+   * @throws Error if the job does not exist
+   */
+  pause(name: string): ScheduledJobInfo {
+    const entry = this.getEntry(name);
+    this.stop(entry);
+    entry.info.paused = true;
+
+    this.logger.log(`⏸️  Job ${name} paused`);
+    return this.get(name) as ScheduledJobInfo;
+  }
+
+  /**
+   * @throws Error if the job does not exist
+   */
+  resume(name: string): ScheduledJobInfo {
+    const entry = this.getEntry(name);
+    if (entry.info.paused) {
+      this.start(entry);
+    }
+    entry.info.paused = false;
+
+    this.logger.log(`▶️  Job ${name} resumed`);
+    return this.get(name) as ScheduledJobInfo;
+  }
+
+  /**
+   * Run a job now in the background (also works while it is paused)
+   * @throws Error if the job does not exist or is already running
+   */
+  trigger(name: string): ScheduledJobInfo {
+    const entry = this.getEntry(name);
+    if (entry.info.running) {
+      throw new Error(`Job ${name} is already running (started ${entry.info.lastStartedAt})`);
+    }
+
+    this.run(entry, 'manual');
+    return this.get(name) as ScheduledJobInfo;
+  }
+
+  private async run(entry: JobEntry, trigger: 'scheduled' | 'manual') {
+    const { info } = entry;
+    if (info.running) {
+      info.skippedOverlaps++;
+      this.logger.warn(`⏭️  Job ${info.name} still running since ${info.lastStartedAt}, skipping`);
+      return;
+    }
+
+    const startedAt = Date.now();
+    info.running = true;
+    info.runs++;
+    info.lastTrigger = trigger;
+    info.lastStartedAt = new Date(startedAt).toISOString();
+
+    try {
+      await entry.handler();
+      info.lastResult = 'completed';
+      info.lastError = null;
+    } catch (error) {
+      info.lastResult = 'failed';
+      info.lastError = error.message;
+      this.logger.error(`❌ Job ${info.name} failed: ${error.message}`, error.stack);
+    } finally {
+      info.running = false;
+      info.lastFinishedAt = new Date().toISOString();
+      info.lastDurationMs = Date.now() - startedAt;
+    }
+  }
+
+  private getEntry(name: string): JobEntry {
+    const entry = this.jobs.get(name);
+    if (!entry) {
+      throw new Error(`Job ${name} not found (jobs: ${[...this.jobs.keys()].join(', ')})`);
+    }
+    return entry;
+  }
+
+  private nextRunAt(name: string, entry: JobEntry): string | null {
+    if (entry.info.paused) {
+      return null;
+    }
+    if (!entry.info.cron) {
+      return entry.nextIntervalRunAt ? new Date(entry.nextIntervalRunAt).toISOString() : null;
+    }
+    if (!this.schedulerRegistry.doesExist('cron', name)) {
+      return null;
+    }
+    return this.schedulerRegistry.getCronJob(name).nextDate().toJSDate().toISOString();
+  }
+
+  /**
+   * Create the (stopped) cron job of a cron-scheduled job; interval jobs get their timer on start
+   */
+  private addTimer(entry: JobEntry) {
+    if (entry.info.cron) {
+      const job = new CronJob(entry.info.cron, () => {
+        this.run(entry, 'scheduled');
+      });
+      this.schedulerRegistry.addCronJob(entry.info.name, job);
+    }
+  }
+
+  private removeTimer(entry: JobEntry) {
+    this.stop(entry);
+    if (this.schedulerRegistry.doesExist('cron', entry.info.name)) {
+      this.schedulerRegistry.deleteCronJob(entry.info.name);
+    }
+  }
+
+  private start(entry: JobEntry) {
+    const { name, cron, intervalSeconds } = entry.info;
+    if (cron) {
+      this.schedulerRegistry.getCronJob(name).start();
+      return;
+    }
+
+    const intervalMs = (intervalSeconds as number) * 1000;
+    entry.nextIntervalRunAt = Date.now() + intervalMs;
+    const timer = setInterval(() => {
+      entry.nextIntervalRunAt = Date.now() + intervalMs;
+      this.run(entry, 'scheduled');
+    }, intervalMs);
+    this.schedulerRegistry.addInterval(name, timer);
+  }
+
+  private stop(entry: JobEntry) {
+    const { name } = entry.info;
+    if (this.schedulerRegistry.doesExist('cron', name)) {
+      this.schedulerRegistry.getCronJob(name).stop();
+    }
+    if (this.schedulerRegistry.doesExist('interval', name)) {
+      this.schedulerRegistry.deleteInterval(name);
+    }
+    entry.nextIntervalRunAt = null;
+  }
+
+  private validateSchedule(schedule: JobSchedule) {
+    if ('cron' in schedule) {
+      this.parseCron(schedule.cron);
+    } else if (!Number.isFinite(schedule.intervalSeconds) || schedule.intervalSeconds <= 0) {
+      throw new Error(`Invalid interval ${schedule.intervalSeconds}s - must be positive`);
+    }
+  }
+
+  private parseCron(cron: string): CronTime {
+    try {
+      return new CronTime(cron);
+    } catch (error) {
+      throw new Error(`Invalid cron expression "${cron}": ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import { Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { DataSource } from 'typeorm';
+import {
+  HolidayCalendarEntity,
+  HolidayCalendarRepository,
+  LockConfigEntity,
+  LockConfigRepository,
+  LockKeyHistoryEntity,
+  LockKeyHistoryRepository,
+  RevokedCredentialEntity,
+  RevokedCredentialRepository,
+} from '@infra/database';
+import { BlockchainListenerService } from './blockchain-listener.service';
+import { JobSchedulerService } from './job-scheduler.service';
+import { LockConfigService } from './lock-config.service';
+
+const LOCK_ID = 7;
+const HOUR = 60 * 60 * 1000;
+
+describe('LockConfigService key rotation', () => {
+  let dataSource: DataSource;
+  let keyHistory: LockKeyHistoryRepository;
+  let service: LockConfigService;
+  let currentKey: ethers.Wallet;
+  let signer: ethers.Wallet; // the lock's on-chain signer, rotated in on-chain
+  let getOnChainSigner: jest.Mock;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      entities: [
+        LockConfigEntity,
+        LockKeyHistoryEntity,
+        RevokedCredentialEntity,
+        HolidayCalendarEntity,
+      ],
+      synchronize: true,
+    });
+    await dataSource.initialize();
+
+    const lockConfigRepository = new LockConfigRepository(
+      dataSource.getRepository(LockConfigEntity),
+    );
+    keyHistory = new LockKeyHistoryRepository(dataSource.getRepository(LockKeyHistoryEntity));
+
+    currentKey = ethers.Wallet.createRandom();
+    signer = ethers.Wallet.createRandom();
+    // The cached signer is the one before the on-chain rotation
+    await lockConfigRepository.saveConfig(
+      LOCK_ID,
+      currentKey.publicKey,
+      currentKey.address.toLowerCase(),
+      '0x00000000000000000000000000000000000000aa',
+      null,
+      null,
+      null,
+    );
+    await keyHistory.record({
+      lockId: LOCK_ID,
+      publicKey: currentKey.publicKey,
+      signerAddress: currentKey.address.toLowerCase(),
+      reason: 'configured',
+      validFrom: new Date(Date.now() - HOUR),
+    });
+
+    getOnChainSigner = jest.fn().mockResolvedValue(signer.address);
+    service = new LockConfigService(
+      lockConfigRepository,
+      keyHistory,
+      new RevokedCredentialRepository(dataSource.getRepository(RevokedCredentialEntity)),
+      new HolidayCalendarRepository(dataSource.getRepository(HolidayCalendarEntity)),
+      {
+        initialize: jest.fn().mockResolvedValue(undefined),
+        getOnChainSigner,
+      } as unknown as BlockchainListenerService,
+      { register: jest.fn(), unregister: jest.fn() } as unknown as JobSchedulerService,
+    );
+    await service.onModuleInit();
+  });
+
+  afterEach(async () => {
+    await dataSource.destroy();
+  });
+
+  it('rejects a key that does not derive to the on-chain signer', async () => {
+    await expect(
+      service.rotateKey(LOCK_ID, ethers.Wallet.createRandom().publicKey),
+    ).rejects.toThrow(`the on-chain signer for lock ${LOCK_ID} is ${signer.address.toLowerCase()}`);
+    expect(getOnChainSigner).toHaveBeenCalledWith(LOCK_ID);
+
+    const history = await keyHistory.findByLock(LOCK_ID);
+    expect(history).toHaveLength(1);
+    expect(history[0].validUntil).toBeNull();
+  });
+
+  it('does not retire the current keys when recording the new key fails', async () => {
+    await expect(
+      keyHistory.retireAndRecord(LOCK_ID, new Date(), {
+        lockId: null as unknown as number,
+        publicKey: signer.publicKey,
+        reason: 'rotated',
+      }),
+    ).rejects.toThrow();
+
+    const history = await keyHistory.findByLock(LOCK_ID);
+    expect(history).toHaveLength(1);
+    expect(history[0].validUntil).toBeNull();
+  });
+
+  it('trusts the rotated-in key from validFrom and the previous key until the overlap ends', async () => {
+    const now = Date.now();
+    const { previousKeysValidUntil } = await service.rotateKey(LOCK_ID, signer.publicKey, {
+      validFrom: new Date(now + HOUR),
+      overlapHours: 2,
+    });
+    expect(previousKeysValidUntil.getTime()).toBe(now + 3 * HOUR);
+
+    const trustedAt = (offset: number) =>
+      service.getTrustedKeys(LOCK_ID, new Date(now + offset)).map((key) => key.publicKey);
+    expect(trustedAt(0)).toEqual([currentKey.publicKey]);
+    expect(trustedAt(2 * HOUR)).toEqual([signer.publicKey, currentKey.publicKey]);
+    expect(trustedAt(4 * HOUR)).toEqual([signer.publicKey]);
+  });
+
+  it('rejects the compressed form of a key that is already trusted', async () => {
+    getOnChainSigner.mockResolvedValue(currentKey.address);
+
+    await expect(
+      service.rotateKey(LOCK_ID, ethers.utils.computePublicKey(currentKey.publicKey, true)),
+    ).rejects.toThrow(/already trusted/);
+    expect(await keyHistory.findByLock(LOCK_ID)).toHaveLength(1);
+  });
+});
@@ -1,114 +1,775 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
-import { LockConfigRepository } from '@infra/database';
-import { BlockchainListenerService } from './blockchain-listener.service';
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { ethers } from 'ethers';
+import {
+  HolidayCalendarRepository,
+  LockConfigRepository,
+  LockKeyHistoryEntity,
+  LockKeyHistoryRepository,
+  RevokedCredentialRepository,
+} from '@infra/database';
+import {
+  BLOCKCHAIN_EVENTS,
+  BlockchainListenerService,
+  OnChainLockInfo,
+  OwnershipTransferEventData,
+} from './blockchain-listener.service';
+import { JobSchedulerService } from './job-scheduler.service';
+
+export const KEY_ROTATION_JOB = 'key-rotation';
+
+/**
+ * A single reason a lock configuration was rejected
+ */
+export interface LockConfigValidationIssue {
+  field: 'lockId' | 'publicKey' | 'network';
+  code:
+    | 'INVALID_LOCK_ID'
+    | 'INVALID_PUBLIC_KEY'
+    | 'LOCK_NOT_FOUND'
+    | 'SIGNER_MISMATCH'
+    | 'CHAIN_UNAVAILABLE';
+  message: string;
+}
+
+/**
+ * Outcome of validating a lock configuration against the contract
+ */
+export interface LockConfigValidationResult {
+  valid: boolean;
+  errors: LockConfigValidationIssue[];
+  lockId: number;
+  publicKey: string;
+  signerAddress: string | null; // address the public key derives to
+  lockInfo: OnChainLockInfo | null;
+}
+
+/**
+ * Thrown by configure() when the lock ID / public key don't match the chain
+ */
+export class LockConfigValidationError extends Error {
+  constructor(readonly errors: LockConfigValidationIssue[]) {
+    super(`Invalid lock configuration: ${errors.map((issue) => issue.message).join('; ')}`);
+    this.name = 'LockConfigValidationError';
+  }
+}
+
+/**
+ * Thrown when a credential is for a lock this gateway does not manage
+ */
+export class LockNotConfiguredError extends Error {
+  constructor(readonly lockId: number | null) {
+    super(
+      lockId === null
+        ? 'Credential has no lockId and this gateway manages several locks'
+        : `Lock ${lockId} is not configured on this gateway`,
+    );
+    this.name = 'LockNotConfiguredError';
+  }
+}
+
+/**
+ * A public key a lock's credentials are currently verified against
+ */
+export interface TrustedKey {
+  keyId: number | null; // lock_key_history entry, null for a lock without key history
+  publicKey: string;
+  validFrom: Date | null;
+  validUntil: Date | null;
+}
+
+/**
+ * A lock managed by this gateway
+ */
+interface ConfiguredLock {
+  lockId: number;
+  nickname: string | null;
+  location: string | null;
+  timeZone: string | null;
+  publicKey: string; // newest valid key, used for new credentials
+  signerAddress: string | null;
+  ownerAddress: string | null;
+  keyHistory: LockKeyHistoryEntity[];
+}
 
 /**
- * Service to manage lock configuration (Lock ID and Public Key)
- * Loads configuration from database on startup if available
+ * Service to manage the locks of this gateway (lock ID and public key per lock)
+ * Loads the lock registry from database on startup if available
+ * Tracks on-chain ownership transfers and retires the previous owner's key
+ * Keys can be rotated with an overlap window; a job retires rotated-out keys when it ends
  */
 @Injectable()
-export class LockConfigService implements OnModuleInit {
+export class LockConfigService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(LockConfigService.name);
 
-  private lockId: number | null = null;
-  private publicKey: string | null = null;
-  private isConfigured: boolean = false;
+  private locks: Map<number, ConfiguredLock> = new Map();
 
   constructor(
     private readonly lockConfigRepository: LockConfigRepository,
+    private readonly lockKeyHistoryRepository: LockKeyHistoryRepository,
+    private readonly revokedCredentialRepository: RevokedCredentialRepository,
+    private readonly holidayCalendarRepository: HolidayCalendarRepository,
     private readonly blockChainListener: BlockchainListenerService,
+    private readonly jobScheduler: JobSchedulerService,
   ) {}
 
   /**
-   * Load configuration from database on module initialization
+   * Load the lock registry from database on module initialization
    */
   async onModuleInit() {
     try {
-      const config = await this.lockConfigRepository.findConfig();
-      if (config) {
-        this.lockId = config.lockId;
-        this.publicKey = config.publicKey;
-        this.isConfigured = true;
-        this.logger.log(`✅ Lock configuration loaded from database`);
-        this.logger.log(`   Lock ID: ${this.lockId}`);
-        this.logger.log(`   Public Key: ${this.publicKey.substring(0, 20)}...`);
-        this.blockChainListener.initialize(this.lockId);
+      const configs = await this.lockConfigRepository.findAll();
+      if (configs.length > 0) {
+        // Revocations cached while the gateway had a single lock belong to that lock
+        await this.revokedCredentialRepository.adoptLegacyRows(String(configs[0].lockId));
+
+        for (const config of configs) {
+          this.locks.set(config.lockId, {
+            lockId: config.lockId,
+            nickname: config.nickname,
+            location: config.location,
+            timeZone: config.timeZone,
+            publicKey: config.publicKey,
+            signerAddress: config.signerAddress || LockConfigService.toAddress(config.publicKey),
+            ownerAddress: config.ownerAddress,
+            keyHistory: [],
+          });
+          await this.loadKeyHistory(config.lockId);
+          this.logger.log(
+            `✅ Lock ${config.lockId}${config.nickname ? ` (${config.nickname})` : ''} loaded - ` +
+              `Public Key: ${config.publicKey.substring(0, 20)}...`,
+          );
+        }
+        // Without the chain the listener starts offline; other failures are logged there
+        this.blockChainListener.initialize(this.getLockIds()).catch(() => undefined);
       } else {
         this.logger.warn(`⚠️  No lock configuration found. Please call POST /api/v1/config/init`);
       }
     } catch (error) {
       this.logger.error(`Failed to load lock configuration: ${error.message}`, error.stack);
     }
+
+    this.jobScheduler.register(KEY_ROTATION_JOB, {
+      cron: '0 * * * * *',
+      description: 'Switch to rotated-in lock keys and retire keys whose overlap has ended',
+      handler: () => this.applyKeySchedule(),
+    });
+  }
+
+  onModuleDestroy() {
+    this.jobScheduler.unregister(KEY_ROTATION_JOB);
   }
 
   /**
-   * Configure the lock with ID and public key
-   * Persists to database
+   * Add a lock with its ID and public key
+   * The lock must be registered on-chain and the key must derive to its signer address
+   * Persists to database unless dryRun is set; the caller restarts the listener
+   * @throws LockConfigValidationError if on-chain validation fails
    */
-  async configure(lockId: number, publicKey: string): Promise<void> {
-    if (this.isConfigured) {
-      throw new Error('Lock is already configured. Call reset() first to reconfigure.');
+  async configure(
+    lockId: number,
+    publicKey: string,
+    options: { dryRun?: boolean; nickname?: string; location?: string; timeZone?: string } = {},
+  ): Promise<LockConfigValidationResult> {
+    if (this.locks.has(lockId) && !options.dryRun) {
+      throw new Error(`Lock ${lockId} is already configured. Remove it first to reconfigure.`);
     }
-
-    // Validate inputs
-    if (!lockId || lockId < 0) {
-      throw new Error('Invalid lockId: must be a positive number');
+    if (options.timeZone && !LockConfigService.isTimeZone(options.timeZone)) {
+      throw new Error(`Invalid timeZone "${options.timeZone}": must be an IANA time zone`);
     }
 
-    if (!publicKey || !publicKey.startsWith('0x')) {
-      throw new Error('Invalid publicKey: must start with 0x');
+    const validation = await this.validateConfiguration(lockId, publicKey);
+    if (options.dryRun) {
+      return validation;
+    }
+    if (!validation.valid) {
+      throw new LockConfigValidationError(validation.errors);
     }
 
+    const signerAddress = validation.signerAddress;
+    const ownerAddress = validation.lockInfo.owner.toLowerCase();
+    const nickname = options.nickname || null;
+    const location = options.location || null;
+    const timeZone = options.timeZone || null;
+
     // Save to database
-    await this.lockConfigRepository.saveConfig(lockId, publicKey);
+    await this.lockConfigRepository.saveConfig(
+      lockId,
+      publicKey,
+      signerAddress,
+      ownerAddress,
+      nickname,
+      location,
+      timeZone,
+    );
+    await this.lockKeyHistoryRepository.record({
+      lockId,
+      publicKey,
+      signerAddress,
+      ownerAddress,
+      reason: 'configured',
+    });
 
     // Update in-memory state
-    this.lockId = lockId;
-    this.publicKey = publicKey;
-    this.isConfigured = true;
+    this.locks.set(lockId, {
+      lockId,
+      nickname,
+      location,
+      timeZone,
+      publicKey,
+      signerAddress,
+      ownerAddress,
+      keyHistory: [],
+    });
+    await this.loadKeyHistory(lockId);
 
     this.logger.log(`✅ Lock configured: ID=${lockId}, PubKey=${publicKey.substring(0, 20)}...`);
+    return validation;
+  }
+
+  /**
+   * Check a lock ID / public key pair against the AccessControl contract
+   * Never throws - every problem is reported in `errors`
+   */
+  async validateConfiguration(
+    lockId: number,
+    publicKey: string,
+  ): Promise<LockConfigValidationResult> {
+    const errors: LockConfigValidationIssue[] = [];
+
+    const validLockId = Number.isInteger(lockId) && lockId > 0;
+    if (!validLockId) {
+      errors.push({
+        field: 'lockId',
+        code: 'INVALID_LOCK_ID',
+        message: 'Invalid lockId: must be a positive integer',
+      });
+    }
+
+    const signerAddress =
+      typeof publicKey === 'string' && publicKey.startsWith('0x')
+        ? LockConfigService.toAddress(publicKey)
+        : null;
+    if (!signerAddress) {
+      errors.push({
+        field: 'publicKey',
+        code: 'INVALID_PUBLIC_KEY',
+        message: 'Invalid publicKey: must be a 0x-prefixed secp256k1 public key',
+      });
+    }
+
+    let lockInfo: OnChainLockInfo | null = null;
+    if (validLockId) {
+      try {
+        lockInfo = await this.blockChainListener.lookupLock(lockId);
+      } catch (error) {
+        errors.push({
+          field: 'network',
+          code: 'CHAIN_UNAVAILABLE',
+          message: `Could not read lock ${lockId} from the contract: ${error.message}`,
+        });
+      }
+    }
+
+    if (lockInfo && !lockInfo.exists) {
+      errors.push({
+        field: 'lockId',
+        code: 'LOCK_NOT_FOUND',
+        message: `Lock ${lockId} is not registered on ${lockInfo.network} (${lockInfo.contractAddress})`,
+      });
+    } else if (
+      lockInfo &&
+      signerAddress &&
+      lockInfo.signerAddress.toLowerCase() !== signerAddress
+    ) {
+      errors.push({
+        field: 'publicKey',
+        code: 'SIGNER_MISMATCH',
+        message: `Public key derives to ${signerAddress}, but the on-chain signer for lock ${lockId} is ${lockInfo.signerAddress.toLowerCase()}`,
+      });
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      lockId,
+      publicKey,
+      signerAddress,
+      lockInfo,
+    };
+  }
+
+  /**
+   * Handle an on-chain ownership transfer of one of the configured locks
+   * The current key stays valid for OWNERSHIP_TRANSFER_GRACE_MINUTES unless it still
+   * derives to the on-chain signer
+   * Delivered from the chain event inbox, which retries when this throws
+   */
+  @OnEvent(BLOCKCHAIN_EVENTS.LOCK_OWNERSHIP_TRANSFERRED, { suppressErrors: false })
+  async handleOwnershipTransferred(data: OwnershipTransferEventData) {
+    try {
+      const lock = this.locks.get(Number(data.lockId));
+      if (!lock) {
+        return;
+      }
+
+      // Batch sync may replay transfers we already applied
+      if (await this.lockKeyHistoryRepository.findByTransaction(data.transactionHash)) {
+        return;
+      }
+
+      const graceMinutes = parseInt(process.env.OWNERSHIP_TRANSFER_GRACE_MINUTES || '0', 10);
+      const validUntil = new Date(Date.now() + graceMinutes * 60 * 1000);
+      const newSigner = data.signerAddress ? data.signerAddress.toLowerCase() : null;
+      const newOwner = data.newOwner.toLowerCase();
+      const keyStillTrusted = !!newSigner && newSigner === lock.signerAddress;
+
+      await this.lockKeyHistoryRepository.retireAndRecord(
+        lock.lockId,
+        validUntil,
+        {
+          lockId: lock.lockId,
+          publicKey: keyStillTrusted ? lock.publicKey : null,
+          signerAddress: newSigner,
+          ownerAddress: newOwner,
+          reason: 'ownership-transferred',
+          transactionHash: data.transactionHash,
+          blockNumber: data.blockNumber,
+        },
+        { ownerAddress: data.previousOwner.toLowerCase() },
+      );
+      await this.lockConfigRepository.updateOwnership(lock.lockId, newSigner, newOwner);
+
+      lock.signerAddress = newSigner;
+      lock.ownerAddress = newOwner;
+      await this.loadKeyHistory(lock.lockId);
+
+      this.logger.warn(`🔑 Lock ${lock.lockId} ownership transferred to ${data.newOwner}`);
+      if (keyStillTrusted) {
+        this.logger.warn(`   Signer unchanged - credentials from the previous owner are rejected`);
+      } else {
+        this.logger.warn(
+          `   Signer changed to ${newSigner} - call POST /api/v1/config/rekey with lockId ${lock.lockId} and the new public key`,
+        );
+      }
+      this.logger.warn(
+        `   Previous owner's credentials accepted until ${validUntil.toISOString()}`,
+      );
+    } catch (error) {
+      this.logger.error(`Failed to apply ownership transfer: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a lock's trusted public key after an ownership transfer
+   * The key must derive to the signer address registered on-chain for the lock; the current
+   * keys stay trusted for the rotation overlap and scheduled rotations are kept
+   * @param options.overlapHours Defaults to KEY_ROTATION_OVERLAP_HOURS
+   * @throws LockNotConfiguredError if the lock is not configured
+   */
+  async rekey(
+    lockId: number,
+    publicKey: string,
+    options: { overlapHours?: number } = {},
+  ): Promise<{ previousKeysValidUntil: Date }> {
+    const lock = this.getLock(lockId);
+    const now = new Date();
+    const overlapHours =
+      options.overlapHours ?? parseInt(process.env.KEY_ROTATION_OVERLAP_HOURS || '168', 10);
+    if (!Number.isFinite(overlapHours) || overlapHours < 0) {
+      throw new Error('overlapHours must be zero or a positive number');
+    }
+
+    if (!publicKey || !publicKey.startsWith('0x')) {
+      throw new Error('Invalid publicKey: must start with 0x');
+    }
+
+    const derivedAddress = LockConfigService.toAddress(publicKey);
+    if (!derivedAddress) {
+      throw new Error('Invalid publicKey: not a valid secp256k1 public key');
+    }
+
+    const onChainSigner = (await this.blockChainListener.getOnChainSigner(lockId)).toLowerCase();
+    if (derivedAddress !== onChainSigner) {
+      throw new Error(
+        `Public key derives to ${derivedAddress}, but the on-chain signer for lock ${lockId} is ${onChainSigner}`,
+      );
+    }
+
+    const previousKeysValidUntil = new Date(now.getTime() + overlapHours * 60 * 60 * 1000);
+    await this.lockKeyHistoryRepository.retireAndRecord(
+      lockId,
+      previousKeysValidUntil,
+      {
+        lockId,
+        publicKey,
+        signerAddress: derivedAddress,
+        ownerAddress: lock.ownerAddress,
+        reason: 'rekeyed',
+        validFrom: now,
+      },
+      { startedBy: now },
+    );
+    await this.lockConfigRepository.updatePublicKey(lockId, publicKey);
+    await this.lockConfigRepository.updateOwnership(lockId, derivedAddress, lock.ownerAddress);
+
+    lock.publicKey = publicKey;
+    lock.signerAddress = derivedAddress;
+    await this.loadKeyHistory(lockId);
+
+    this.logger.log(
+      `🔑 Lock ${lockId} re-keyed: PubKey=${publicKey.substring(0, 20)}..., previous keys ` +
+        `trusted until ${previousKeysValidUntil.toISOString()}`,
+    );
+    return { previousKeysValidUntil };
+  }
+
+  /**
+   * Add a new trusted key for a lock without taking the lock offline
+   * The current keys stay trusted until validFrom + overlap so credentials issued with them
+   * keep working; the new key is trusted from validFrom (until validUntil, if given)
+   * @param options.overlapHours Defaults to KEY_ROTATION_OVERLAP_HOURS
+   * @throws LockNotConfiguredError if the lock is not configured
+   * @throws Error if the key is invalid or does not derive to the on-chain signer, the dates
+   *   are invalid, or another rotation is still pending
+   */
+  async rotateKey(
+    lockId: number,
+    publicKey: string,
+    options: { validFrom?: Date; validUntil?: Date; overlapHours?: number } = {},
+  ): Promise<{ key: LockKeyHistoryEntity; previousKeysValidUntil: Date }> {
+    const lock = this.getLock(lockId);
+    const now = new Date();
+
+    if (!publicKey || !publicKey.startsWith('0x')) {
+      throw new Error('Invalid publicKey: must start with 0x');
+    }
+    const derivedAddress = LockConfigService.toAddress(publicKey);
+    if (!derivedAddress) {
+      throw new Error('Invalid publicKey: not a valid secp256k1 public key');
+    }
+    // The cached signer may predate an on-chain signer change
+    const onChainSigner = (await this.blockChainListener.getOnChainSigner(lockId)).toLowerCase();
+    if (derivedAddress !== onChainSigner) {
+      throw new Error(
+        `Public key derives to ${derivedAddress}, but the on-chain signer for lock ${lockId} is ${onChainSigner}`,
+      );
+    }
+    // Compared by address, so the compressed and uncompressed forms of a key are the same key
+    if (
+      this.getTrustedKeys(lockId).some(
+        (key) => LockConfigService.toAddress(key.publicKey) === derivedAddress,
+      )
+    ) {
+      throw new Error(`Key is already trusted for lock ${lockId}`);
+    }
+
+    const validFrom = options.validFrom ?? now;
+    const overlapHours =
+      options.overlapHours ?? parseInt(process.env.KEY_ROTATION_OVERLAP_HOURS || '168', 10);
+    if (isNaN(validFrom.getTime())) {
+      throw new Error('Invalid validFrom date');
+    }
+    if (options.validUntil && !(options.validUntil.getTime() > validFrom.getTime())) {
+      throw new Error('validUntil must be after validFrom');
+    }
+    if (!Number.isFinite(overlapHours) || overlapHours < 0) {
+      throw new Error('overlapHours must be zero or a positive number');
+    }
+    const pending = lock.keyHistory.find(
+      (entry) => entry.publicKey && entry.validFrom.getTime() > now.getTime(),
+    );
+    if (pending) {
+      throw new Error(
+        `A rotation for lock ${lockId} is already scheduled (valid from ${pending.validFrom.toISOString()})`,
+      );
+    }
+
+    const previousKeysValidUntil = new Date(validFrom.getTime() + overlapHours * 60 * 60 * 1000);
+    const key = await this.lockKeyHistoryRepository.retireAndRecord(
+      lockId,
+      previousKeysValidUntil,
+      {
+        lockId,
+        publicKey,
+        signerAddress: derivedAddress,
+        ownerAddress: lock.ownerAddress,
+        reason: 'rotated',
+        validFrom,
+        validUntil: options.validUntil ?? null,
+      },
+    );
+
+    await this.loadKeyHistory(lockId);
+    await this.applyKeySchedule(lockId);
+
+    this.logger.log(
+      `🔄 Lock ${lockId} key rotation: ${publicKey.substring(0, 20)}... valid from ` +
+        `${validFrom.toISOString()}, previous keys trusted until ${previousKeysValidUntil.toISOString()}`,
+    );
+    return { key, previousKeysValidUntil };
+  }
+
+  /**
+   * Keys a lock's credentials are verified against at `at`, newest first
+   * @throws LockNotConfiguredError if the lock is not configured
+   */
+  getTrustedKeys(lockId: number, at: Date = new Date()): TrustedKey[] {
+    const lock = this.getLock(lockId);
+    if (lock.keyHistory.length === 0) {
+      return [{ keyId: null, publicKey: lock.publicKey, validFrom: null, validUntil: null }];
+    }
+
+    return lock.keyHistory
+      .filter((entry) => !!entry.publicKey && LockConfigService.isValidAt(entry, at))
+      .sort((a, b) => b.validFrom.getTime() - a.validFrom.getTime())
+      .map((entry) => ({
+        keyId: entry.id,
+        publicKey: entry.publicKey as string,
+        validFrom: entry.validFrom,
+        validUntil: entry.validUntil,
+      }));
+  }
+
+  /**
+   * Switch locks to rotated-in keys once they become valid and mark keys whose validity
+   * has ended as retired (scheduled every minute)
+   * @param lockId Only this lock; all locks when omitted
+   */
+  async applyKeySchedule(lockId?: number): Promise<void> {
+    const now = new Date();
+    const lockIds = lockId === undefined ? this.getLockIds() : [lockId];
+
+    for (const id of lockIds) {
+      const lock = this.locks.get(id);
+      if (!lock) {
+        continue;
+      }
+
+      const expired = await this.lockKeyHistoryRepository.findExpired(id, now);
+      await this.lockKeyHistoryRepository.markRetired(
+        expired.map((entry) => entry.id),
+        now,
+      );
+      for (const entry of expired.filter((entry) => entry.publicKey)) {
+        this.logger.log(
+          `🗝️  Lock ${id} key ${entry.publicKey?.substring(0, 20)}... retired (valid until ${entry.validUntil?.toISOString()})`,
+        );
+      }
+
+      const [current] = this.getTrustedKeys(id, now);
+      if (current && current.publicKey !== lock.publicKey) {
+        await this.lockConfigRepository.updatePublicKey(id, current.publicKey);
+        lock.publicKey = current.publicKey;
+        this.logger.log(`🔑 Lock ${id} now uses key ${current.publicKey.substring(0, 20)}...`);
+      }
+
+      if (expired.length > 0) {
+        await this.loadKeyHistory(id);
+      }
+    }
+  }
+
+  /**
+   * Lock a credential is for (credential.lockId)
+   * A gateway with a single lock also accepts credentials without a lockId
+   * @throws LockNotConfiguredError if the lock is not managed by this gateway
+   */
+  resolveLockId(credential: any): number {
+    const claimed = credential?.lockId;
+    if (claimed === undefined || claimed === null || claimed === '') {
+      if (this.locks.size === 1) {
+        return this.getLockIds()[0];
+      }
+      throw new LockNotConfiguredError(null);
+    }
+
+    const lockId = Number(claimed);
+    if (!this.locks.has(lockId)) {
+      throw new LockNotConfiguredError(Number.isInteger(lockId) ? lockId : null);
+    }
+    return lockId;
   }
 
   /**
-   * Get the configured lock ID
-   * @throws Error if not configured
+   * Check that a credential was issued for this lock
+   * - credential.lockId / credentialSubject.lockId must name the lock, or
+   *   credentialSubject.allowedLockIds must include it (at least one is required)
+   * - lockNickname / lockLocation claims, when present, must match the lock's nickname /
+   *   location if those are configured
+   * @returns an error message, or null if the credential is bound to the lock
    */
-  getLockId(): number {
-    if (!this.isConfigured || this.lockId === null) {
-      throw new Error('Lock not configured. Please call POST /api/v1/config/init first.');
+  checkLockBinding(lockId: number, credential: any): string | null {
+    const lock = this.getLock(lockId);
+    const subject = credential?.credentialSubject || {};
+    const claim = (name: string) =>
+      [credential?.[name], subject[name]].filter(
+        (value) => value !== undefined && value !== null && value !== '',
+      );
+
+    const lockIdClaims = claim('lockId');
+    const allowedLockIds = subject.allowedLockIds;
+    if (lockIdClaims.length === 0 && allowedLockIds === undefined) {
+      return 'Credential is not bound to a lock (no lockId or allowedLockIds claim)';
+    }
+    const otherLockId = lockIdClaims.find((value) => Number(value) !== lockId);
+    if (otherLockId !== undefined) {
+      return `Credential is for lock ${otherLockId}, not lock ${lockId}`;
+    }
+    if (allowedLockIds !== undefined) {
+      if (!Array.isArray(allowedLockIds)) {
+        return 'Credential allowedLockIds claim must be a list of lock ids';
+      }
+      if (!allowedLockIds.some((value) => Number(value) === lockId)) {
+        return `Credential is only valid for locks ${allowedLockIds.join(', ')}, not lock ${lockId}`;
+      }
+    }
+
+    const normalize = (value: unknown) => String(value).trim().toLowerCase();
+    const nickname = claim('lockNickname').find(
+      (value) => lock.nickname && normalize(value) !== normalize(lock.nickname),
+    );
+    if (nickname !== undefined) {
+      return `Credential is for lock "${nickname}", not "${lock.nickname}"`;
     }
-    return this.lockId;
+    const location = claim('lockLocation').find(
+      (value) => lock.location && normalize(value) !== normalize(lock.location),
+    );
+    if (location !== undefined) {
+      return `Credential is for location "${location}", not "${lock.location}"`;
+    }
+
+    return null;
   }
 
   /**
-   * Get the configured public key
-   * @throws Error if not configured
+   * Reject credentials tied to a previous owner of the lock once their grace period has ended
+   * (keys themselves are checked by getTrustedKeys)
+   * @returns an error message, or null if the credential's issuer is trusted
    */
-  getPublicKey(): string {
-    if (!this.isConfigured || this.publicKey === null) {
-      throw new Error('Lock not configured. Please call POST /api/v1/config/init first.');
+  checkCredentialTrust(lockId: number, credential: any): string | null {
+    const lock = this.getLock(lockId);
+    const now = new Date();
+    const expired = lock.keyHistory.filter(
+      (entry) => entry.validUntil && entry.validUntil.getTime() <= now.getTime(),
+    );
+    if (expired.length === 0) {
+      return null;
+    }
+
+    const issuer = credential?.issuer;
+    const issuerId = String(typeof issuer === 'string' ? issuer : issuer?.id || '').toLowerCase();
+    const previousOwner = expired.find(
+      (entry) =>
+        entry.ownerAddress &&
+        entry.ownerAddress !== lock.ownerAddress &&
+        issuerId.includes(entry.ownerAddress),
+    );
+    if (previousOwner) {
+      return `Lock ownership transferred: credential issued by previous owner ${previousOwner.ownerAddress}`;
     }
-    return this.publicKey;
+
+    return null;
+  }
+
+  /**
+   * IDs of every configured lock, in the order they were added
+   */
+  getLockIds(): number[] {
+    return [...this.locks.keys()];
   }
 
   /**
-   * Check if lock is configured
+   * Lock whose admin credentials may manage the whole gateway: the lock set up with
+   * POST /config/init (the first one added), null if no lock is configured
    */
-  isReady(): boolean {
-    return this.isConfigured && this.lockId !== null && this.publicKey !== null;
+  getGatewayLockId(): number | null {
+    const [first] = this.getLockIds();
+    return first ?? null;
+  }
+
+  /**
+   * Get a lock's public key
+   * @throws LockNotConfiguredError if the lock is not configured
+   */
+  getPublicKey(lockId: number): string {
+    return this.getLock(lockId).publicKey;
+  }
+
+  /**
+   * Get the key / ownership history of a lock
+   */
+  async getKeyHistory(lockId: number): Promise<LockKeyHistoryEntity[]> {
+    if (!this.locks.has(lockId)) {
+      return [];
+    }
+    return this.lockKeyHistoryRepository.findByLock(lockId);
+  }
+
+  /**
+   * Time zone credential schedules are evaluated in for a lock
+   * @throws LockNotConfiguredError if the lock is not configured
+   */
+  getTimeZone(lockId: number): string {
+    return this.getLock(lockId).timeZone || process.env.LOCK_TIME_ZONE || 'UTC';
+  }
+
+  /**
+   * Set a lock's time zone; null falls back to LOCK_TIME_ZONE
+   * @throws LockNotConfiguredError if the lock is not configured
+   * @throws Error if the time zone is not an IANA time zone
+   */
+  async setTimeZone(lockId: number, timeZone: string | null): Promise<void> {
+    const lock = this.getLock(lockId);
+    if (timeZone && !LockConfigService.isTimeZone(timeZone)) {
+      throw new Error(`Invalid timeZone "${timeZone}": must be an IANA time zone`);
+    }
+
+    await this.lockConfigRepository.updateTimeZone(lockId, timeZone || null);
+    lock.timeZone = timeZone || null;
+    this.logger.log(`🕒 Lock ${lockId} time zone set to ${this.getTimeZone(lockId)}`);
+  }
+
+  /**
+   * Check if a lock (or, without lockId, at least one lock) is configured
+   */
+  isReady(lockId?: number): boolean {
+    return lockId === undefined ? this.locks.size > 0 : this.locks.has(lockId);
+  }
+
+  /**
+   * Remove one lock from the registry; the caller restarts the listener
+   * The gateway lock can only be removed last, so gateway admin rights never pass to
+   * another lock
+   * @throws LockNotConfiguredError if the lock is not configured
+   */
+  async removeLock(lockId: number): Promise<void> {
+    this.getLock(lockId);
+    if (lockId === this.getGatewayLockId() && this.locks.size > 1) {
+      throw new Error(
+        `Lock ${lockId} is the gateway lock - remove the other locks first or reset the gateway`,
+      );
+    }
+    await this.lockConfigRepository.deleteConfig(lockId);
+    await this.lockKeyHistoryRepository.deleteByLock(lockId);
+    await this.holidayCalendarRepository.deleteByLock(lockId);
+    this.locks.delete(lockId);
+
+    this.logger.log(`🗑️  Lock ${lockId} removed from this gateway`);
   }
 
   /**
    * Reset lock configuration
-   * Removes from database and clears in-memory state
+   * Removes every lock from database and clears in-memory state
    */
   async reset(): Promise<void> {
-    await this.lockConfigRepository.deleteConfig();
-
-    this.lockId = null;
-    this.publicKey = null;
-    this.isConfigured = false;
+    await this.lockConfigRepository.deleteAll();
+    for (const lockId of this.locks.keys()) {
+      await this.lockKeyHistoryRepository.deleteByLock(lockId);
+    }
+    await this.holidayCalendarRepository.deleteAll();
+    this.locks.clear();
 
     this.logger.log('🔄 Lock configuration reset');
   }
@@ -117,18 +778,61 @@ export class LockConfigService implements OnModuleInit {
    * Get configuration details (for status endpoint)
    */
   getConfigDetails() {
-    if (!this.isReady()) {
-      return {
-        configured: false,
-        lockId: null,
-        publicKey: null,
-      };
-    }
-
     return {
-      configured: true,
-      lockId: this.lockId,
-      publicKey: this.publicKey ? `${this.publicKey.substring(0, 10)}...` : null,
+      configured: this.locks.size > 0,
+      lockIds: this.getLockIds(),
+      locks: [...this.locks.values()].map((lock) => ({
+        lockId: lock.lockId,
+        nickname: lock.nickname,
+        location: lock.location,
+        timeZone: this.getTimeZone(lock.lockId),
+        publicKey: `${lock.publicKey.substring(0, 10)}...`,
+        trustedKeys: this.getTrustedKeys(lock.lockId).length,
+        signerAddress: lock.signerAddress,
+        ownerAddress: lock.ownerAddress,
+      })),
     };
   }
+
+  /**
+   * @throws LockNotConfiguredError if the lock is not configured
+   */
+  private getLock(lockId: number): ConfiguredLock {
+    const lock = this.locks.get(lockId);
+    if (!lock) {
+      throw new LockNotConfiguredError(lockId);
+    }
+    return lock;
+  }
+
+  private async loadKeyHistory(lockId: number) {
+    this.getLock(lockId).keyHistory = await this.lockKeyHistoryRepository.findByLock(lockId);
+  }
+
+  static isTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private static isValidAt(entry: LockKeyHistoryEntity, at: Date): boolean {
+    return (
+      entry.validFrom.getTime() <= at.getTime() &&
+      (!entry.validUntil || entry.validUntil.getTime() > at.getTime())
+    );
+  }
+
+  /**
+   * Lowercase address a public key derives to, or null if it is not a valid key
+   */
+  private static toAddress(publicKey: string): string | null {
+    try {
+      return ethers.utils.computeAddress(publicKey).toLowerCase();
+    } catch {
+      return null;
+    }
+  }
 }
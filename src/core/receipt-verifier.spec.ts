@@ -0,0 +1,196 @@
+import { ethers } from 'ethers';
+import { LogVerificationUnavailableError, ReceiptVerifier } from './receipt-verifier';
+import { RpcProviderPool } from './rpc-provider-pool';
+
+const ZERO_HASH = '0x' + '00'.repeat(32);
+const EMPTY_BLOOM = '0x' + '00'.repeat(256);
+const EMPTY_TRIE_ROOT = '0x56e81f171bcc55a6ff8345e692c0f86e5b48e01b996cadc001622fb5e363b421';
+const EMPTY_UNCLES_HASH = '0x1dcc4de8dec75d7aab85b567b6ccd41ad312451b948a7413f0a142fd40d49347';
+
+// Genesis headers as returned by eth_getBlockByNumber(0)
+const MAINNET_GENESIS = {
+  hash: '0xd4e56740f876aef8c010b86a40d5f56745a118d0906a34e69aec8c0db1cb8fa3',
+  parentHash: ZERO_HASH,
+  sha3Uncles: EMPTY_UNCLES_HASH,
+  miner: '0x0000000000000000000000000000000000000000',
+  stateRoot: '0xd7f8974fb5ac78d9ac099b9ad5018bedc2ce0a72dad1827a1709da30580f0544',
+  transactionsRoot: EMPTY_TRIE_ROOT,
+  receiptsRoot: EMPTY_TRIE_ROOT,
+  logsBloom: EMPTY_BLOOM,
+  difficulty: '0x400000000',
+  number: '0x0',
+  gasLimit: '0x1388',
+  gasUsed: '0x0',
+  timestamp: '0x0',
+  extraData: '0x11bbe8db4e347b4e8c937c1c8370e4b5ed33adb3db69cbdb7a38e1e50b1b82fa',
+  mixHash: ZERO_HASH,
+  nonce: '0x0000000000000042',
+  transactions: [] as string[],
+};
+
+// London fields from genesis on
+const SEPOLIA_GENESIS = {
+  ...MAINNET_GENESIS,
+  hash: '0x25a5cc106eea7138acab33231d7160d69cb777ee0c2c553fcddf5138993e6dd9',
+  stateRoot: '0x5eb6e371a698b8d68f665192350ffcecbbbf322916f4b51bd79bb6887da3f494',
+  difficulty: '0x20000',
+  gasLimit: '0x1c9c380',
+  timestamp: '0x6159af19',
+  extraData: '0x5365706f6c69612c20417468656e732c204174746963612c2047726565636521',
+  nonce: '0x0000000000000000',
+  baseFeePerGas: '0x3b9aca00',
+};
+
+const utf8 = (value: string) => ethers.utils.hexlify(ethers.utils.toUtf8Bytes(value));
+
+describe('ReceiptVerifier', () => {
+  describe('headerHash', () => {
+    it.each([
+      ['mainnet', MAINNET_GENESIS],
+      ['Sepolia', SEPOLIA_GENESIS],
+    ])('hashes the %s genesis header to its block hash', (_, header) => {
+      expect(ReceiptVerifier.headerHash(header)).toBe(header.hash);
+    });
+
+    it('changes when a signed header field changes', () => {
+      expect(ReceiptVerifier.headerHash({ ...SEPOLIA_GENESIS, receiptsRoot: ZERO_HASH })).not.toBe(
+        SEPOLIA_GENESIS.hash,
+      );
+      expect(ReceiptVerifier.headerHash({ ...SEPOLIA_GENESIS, baseFeePerGas: '0x1' })).not.toBe(
+        SEPOLIA_GENESIS.hash,
+      );
+    });
+  });
+
+  describe('receiptsRoot', () => {
+    it.each([
+      ['mainnet', MAINNET_GENESIS],
+      ['Sepolia', SEPOLIA_GENESIS],
+    ])('matches the receiptsRoot of the %s genesis block', (_, header) => {
+      expect(ReceiptVerifier.receiptsRoot([])).toBe(header.receiptsRoot);
+    });
+  });
+
+  describe('trieRoot', () => {
+    // ethereum/tests TrieTests/trieanyorder.json
+    it.each([
+      [
+        { doe: 'reindeer', dog: 'puppy', dogglesworth: 'cat' },
+        '0x8aad789dff2f538bca5d8ea56e8abe10f4c7ba3a5dea95fea4cd6e7c3a1168d3',
+      ],
+      [
+        { do: 'verb', horse: 'stallion', doge: 'coin', dog: 'puppy' },
+        '0x5991bb8c6514148a29db676a14ac506cd2cd5775ace63c30a4fe457715e9ac84',
+      ],
+      [
+        { foo: 'bar', food: 'bass' },
+        '0x17beaa1648bafa633cda809c90c04af50fc8aed3cb40d16efbddee6fdf63c4c3',
+      ],
+    ])('computes the root of %j', (entries, root) => {
+      const pairs = Object.entries(entries).map(
+        ([key, value]) => [utf8(key), utf8(value)] as [string, string],
+      );
+      expect(ReceiptVerifier.trieRoot(pairs)).toBe(root);
+      expect(ReceiptVerifier.trieRoot([...pairs].reverse())).toBe(root);
+    });
+  });
+
+  // A block built for these tests: hashing is checked against the real blocks above
+  describe('verifyLogs', () => {
+    const contract = ethers.utils.getAddress('0x' + '11'.repeat(20));
+    const topic = ethers.utils.id('CredentialRevoked(bytes32,uint256)');
+    const transactions = ['0x' + 'a1'.repeat(32), '0x' + 'a2'.repeat(32)];
+    const rawLogs = [
+      { address: contract, topics: [topic, '0x' + '01'.repeat(32)], data: '0x' },
+      { address: contract, topics: [topic, '0x' + '02'.repeat(32)], data: '0x' },
+      { address: contract, topics: [topic, '0x' + '03'.repeat(32)], data: '0x' },
+    ];
+    const receipts = [
+      {
+        status: '0x1',
+        cumulativeGasUsed: '0xc350',
+        logsBloom: EMPTY_BLOOM,
+        logs: [rawLogs[0]],
+      },
+      {
+        type: '0x2',
+        status: '0x1',
+        cumulativeGasUsed: '0x186a0',
+        logsBloom: EMPTY_BLOOM,
+        logs: rawLogs.slice(1),
+      },
+    ];
+    const transactionOf = [0, 1, 1];
+
+    let header: typeof SEPOLIA_GENESIS;
+    let servedReceipts: typeof receipts;
+    let verifier: ReceiptVerifier;
+
+    const log = (logIndex: number): ethers.providers.Log => ({
+      ...rawLogs[logIndex],
+      blockNumber: 100,
+      blockHash: header.hash,
+      transactionIndex: transactionOf[logIndex],
+      transactionHash: transactions[transactionOf[logIndex]],
+      logIndex,
+      removed: false,
+    });
+
+    beforeEach(() => {
+      header = {
+        ...SEPOLIA_GENESIS,
+        number: '0x64',
+        receiptsRoot: ReceiptVerifier.receiptsRoot(receipts),
+        transactions,
+      };
+      header.hash = ReceiptVerifier.headerHash(header);
+      servedReceipts = receipts;
+
+      const provider = {
+        send: async (method: string) => (method === 'eth_getBlockByHash' ? header : servedReceipts),
+      };
+      verifier = new ReceiptVerifier({
+        execute: (fn: (p: typeof provider) => Promise<any>) => fn(provider),
+        executeWithQuorum: (fn: (p: typeof provider) => Promise<any>) => fn(provider),
+      } as unknown as RpcProviderPool);
+    });
+
+    it('verifies logs found in the receipts and recovers the ones left out', async () => {
+      const result = await verifier.verifyLogs([log(0), log(2)], 'backfill', () => true);
+
+      expect(result.verified.map((entry) => entry.logIndex)).toEqual([0, 2]);
+      expect(result.rejected).toEqual([]);
+      expect(result.recovered.map((entry) => entry.logIndex)).toEqual([1]);
+    });
+
+    it('rejects logs that differ from the receipts', async () => {
+      const forged = { ...log(1), topics: [topic, '0x' + '09'.repeat(32)] };
+      const moved = { ...log(0), transactionIndex: 1 };
+
+      const result = await verifier.verifyLogs([forged, moved], 'backfill');
+
+      expect(result.verified).toEqual([]);
+      expect(result.rejected.map((entry) => entry.reason)).toEqual([
+        'log 1 differs from the receipt of transaction 1',
+        'log 0 is not in the receipt of transaction 1',
+      ]);
+    });
+
+    it('refuses to decide when the receipts do not match receiptsRoot', async () => {
+      servedReceipts = [receipts[0], { ...receipts[1], logs: rawLogs.slice(2) }];
+
+      await expect(verifier.verifyLogs([log(0)], 'backfill')).rejects.toBeInstanceOf(
+        LogVerificationUnavailableError,
+      );
+    });
+
+    it('refuses to decide when the header does not hash to the block hash', async () => {
+      const blockHash = header.hash;
+      header = { ...header, receiptsRoot: ReceiptVerifier.receiptsRoot([]) };
+
+      await expect(verifier.verifyLogs([{ ...log(0), blockHash }], 'backfill')).rejects.toThrow(
+        'header does not hash to the block hash',
+      );
+    });
+  });
+});
@@ -0,0 +1,386 @@
+import { Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { RpcProviderPool } from './rpc-provider-pool';
+import { RpcPriority } from './rpc-governor';
+
+const { RLP, keccak256, hexlify, concat } = ethers.utils;
+const { BigNumber } = ethers;
+
+/**
+ * Outcome of checking a set of logs against their blocks' receipts
+ */
+export interface LogVerificationResult {
+  verified: ethers.providers.Log[];
+  rejected: { log: ethers.providers.Log; reason: string }[];
+  recovered: ethers.providers.Log[]; // matching logs in verified receipts the RPC left out
+}
+
+/**
+ * Thrown when a block's header or receipts don't hash up, so its logs can be neither
+ * verified nor rejected (unreliable RPC, reorg in progress) - callers retry later
+ */
+export class LogVerificationUnavailableError extends Error {
+  constructor(
+    readonly blockHash: string,
+    reason: string,
+  ) {
+    super(`Cannot verify logs of block ${blockHash}: ${reason}`);
+    this.name = 'LogVerificationUnavailableError';
+  }
+}
+
+interface RawLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+interface RawReceipt {
+  type?: string;
+  status?: string;
+  root?: string;
+  cumulativeGasUsed: string;
+  logsBloom: string;
+  logs: RawLog[];
+}
+
+interface VerifiedBlock {
+  hash: string;
+  number: number;
+  receipts: RawReceipt[];
+  logs: ethers.providers.Log[]; // every log of the block, as eth_getLogs would return it
+}
+
+// Optional header fields in the order forks appended them
+const OPTIONAL_HEADER_FIELDS: [string, 'quantity' | 'bytes'][] = [
+  ['baseFeePerGas', 'quantity'], // London
+  ['withdrawalsRoot', 'bytes'], // Shanghai
+  ['blobGasUsed', 'quantity'], // Cancun
+  ['excessBlobGas', 'quantity'],
+  ['parentBeaconBlockRoot', 'bytes'],
+  ['requestsHash', 'bytes'], // Prague
+];
+
+/**
+ * Verifies event logs against block receipts instead of trusting eth_getLogs
+ * - the block header is re-hashed, so its receiptsRoot belongs to the log's blockHash
+ *   (with RPC_QUORUM > 1 the header must also be agreed on by several providers)
+ * - the block's receipts are rebuilt into the receipts trie and must match receiptsRoot
+ * - each log must appear at its position in the receipt of its transaction
+ * Matching logs found in verified receipts but missing from eth_getLogs are returned as
+ * recovered, so an RPC cannot hide some of a block's events while returning others
+ */
+export class ReceiptVerifier {
+  private readonly logger = new Logger(ReceiptVerifier.name);
+
+  constructor(private readonly rpcPool: RpcProviderPool) {}
+
+  /**
+   * @param matches Filter for logs that should have been returned (enables recovery)
+   * @throws LogVerificationUnavailableError if a block's data does not hash up
+   */
+  async verifyLogs(
+    logs: ethers.providers.Log[],
+    priority: RpcPriority,
+    matches?: (log: RawLog) => boolean,
+  ): Promise<LogVerificationResult> {
+    const result: LogVerificationResult = { verified: [], rejected: [], recovered: [] };
+    const byBlock = new Map<string, ethers.providers.Log[]>();
+    for (const log of logs) {
+      byBlock.set(log.blockHash, [...(byBlock.get(log.blockHash) || []), log]);
+    }
+
+    for (const [blockHash, blockLogs] of byBlock) {
+      const block = await this.loadVerifiedBlock(blockHash, priority);
+      const returned = new Set<number>();
+
+      for (const log of blockLogs) {
+        const reason = this.checkLog(block, log);
+        if (reason) {
+          result.rejected.push({ log, reason });
+        } else {
+          result.verified.push(log);
+          returned.add(log.logIndex);
+        }
+      }
+
+      if (matches) {
+        result.recovered.push(
+          ...block.logs.filter((log) => matches(log) && !returned.has(log.logIndex)),
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Hash of a block header as returned by eth_getBlockBy*
+   */
+  static headerHash(header: Record<string, any>): string {
+    const quantity = (value: string) => {
+      const bn = BigNumber.from(value);
+      return bn.isZero() ? '0x' : hexlify(bn);
+    };
+
+    const fields = [
+      header.parentHash,
+      header.sha3Uncles,
+      header.miner,
+      header.stateRoot,
+      header.transactionsRoot,
+      header.receiptsRoot,
+      header.logsBloom,
+      quantity(header.difficulty),
+      quantity(header.number),
+      quantity(header.gasLimit),
+      quantity(header.gasUsed),
+      quantity(header.timestamp),
+      header.extraData,
+      header.mixHash,
+      header.nonce,
+    ];
+    for (const [name, kind] of OPTIONAL_HEADER_FIELDS) {
+      if (header[name] === undefined || header[name] === null) {
+        break;
+      }
+      fields.push(kind === 'quantity' ? quantity(header[name]) : header[name]);
+    }
+
+    return keccak256(RLP.encode(fields));
+  }
+
+  /**
+   * Root of the receipts trie (key: RLP of the transaction index, value: encoded receipt)
+   */
+  static receiptsRoot(receipts: RawReceipt[]): string {
+    return ReceiptVerifier.trieRoot(
+      receipts.map((receipt, index) => [
+        RLP.encode(index === 0 ? '0x' : hexlify(index)),
+        ReceiptVerifier.encodeReceipt(receipt),
+      ]),
+    );
+  }
+
+  /**
+   * Root hash of a Merkle Patricia trie holding the given key / value pairs
+   */
+  static trieRoot(entries: [string, string][]): string {
+    const items = entries.map(
+      ([key, value]) =>
+        [[...ethers.utils.arrayify(key)].flatMap((b) => [b >> 4, b & 15]), value] as const,
+    );
+    return keccak256(RLP.encode(ReceiptVerifier.trieNode(items, 0)));
+  }
+
+  private static encodeReceipt(receipt: RawReceipt): string {
+    const outcome =
+      receipt.status !== undefined && receipt.status !== null
+        ? BigNumber.from(receipt.status).isZero()
+          ? '0x'
+          : '0x01'
+        : (receipt.root as string); // pre-Byzantium state root
+    const cumulativeGasUsed = BigNumber.from(receipt.cumulativeGasUsed);
+    const encoded = RLP.encode([
+      outcome,
+      cumulativeGasUsed.isZero() ? '0x' : hexlify(cumulativeGasUsed),
+      receipt.logsBloom,
+      receipt.logs.map((log) => [log.address, log.topics, log.data]),
+    ]);
+
+    const type = receipt.type ? BigNumber.from(receipt.type).toNumber() : 0;
+    return type === 0 ? encoded : hexlify(concat([[type], encoded]));
+  }
+
+  private static trieNode(items: (readonly [number[], string])[], depth: number): any {
+    if (items.length === 0) {
+      return '0x';
+    }
+    if (items.length === 1) {
+      return [ReceiptVerifier.compactPath(items[0][0].slice(depth), true), items[0][1]];
+    }
+
+    // Extension over the nibbles every key shares
+    let shared = 0;
+    while (
+      items.every(([key]) => key.length > depth + shared) &&
+      items.every(([key]) => key[depth + shared] === items[0][0][depth + shared])
+    ) {
+      shared++;
+    }
+    if (shared > 0) {
+      return [
+        ReceiptVerifier.compactPath(items[0][0].slice(depth, depth + shared), false),
+        ReceiptVerifier.nodeRef(ReceiptVerifier.trieNode(items, depth + shared)),
+      ];
+    }
+
+    const branch: any[] = [];
+    for (let nibble = 0; nibble < 16; nibble++) {
+      const child = items.filter(([key]) => key.length > depth && key[depth] === nibble);
+      branch.push(
+        child.length ? ReceiptVerifier.nodeRef(ReceiptVerifier.trieNode(child, depth + 1)) : '0x',
+      );
+    }
+    branch.push(items.find(([key]) => key.length === depth)?.[1] ?? '0x');
+    return branch;
+  }
+
+  /**
+   * Nodes shorter than 32 bytes are embedded in their parent, larger ones referenced by hash
+   */
+  private static nodeRef(node: any): any {
+    const encoded = RLP.encode(node);
+    return ethers.utils.hexDataLength(encoded) < 32 ? node : keccak256(encoded);
+  }
+
+  /**
+   * Hex-prefix encoding of a nibble path
+   */
+  private static compactPath(nibbles: number[], leaf: boolean): string {
+    const flag = (leaf ? 2 : 0) + (nibbles.length % 2);
+    const padded = nibbles.length % 2 ? [flag, ...nibbles] : [flag, 0, ...nibbles];
+    const bytes: number[] = [];
+    for (let i = 0; i < padded.length; i += 2) {
+      bytes.push((padded[i] << 4) | padded[i + 1]);
+    }
+    return hexlify(bytes);
+  }
+
+  private async loadVerifiedBlock(
+    blockHash: string,
+    priority: RpcPriority,
+  ): Promise<VerifiedBlock> {
+    const header = await this.rpcPool.executeWithQuorum(
+      (provider) => provider.send('eth_getBlockByHash', [blockHash, false]),
+      (block) => (block ? `${block.hash}:${block.receiptsRoot}` : 'null'),
+      { priority },
+    );
+    if (!header) {
+      throw new LogVerificationUnavailableError(blockHash, 'block not found (reorged?)');
+    }
+    if (ReceiptVerifier.headerHash(header).toLowerCase() !== blockHash.toLowerCase()) {
+      throw new LogVerificationUnavailableError(
+        blockHash,
+        'header does not hash to the block hash',
+      );
+    }
+
+    const receipts = await this.loadReceipts(blockHash, header.transactions, priority);
+    if (receipts.length !== header.transactions.length) {
+      throw new LogVerificationUnavailableError(
+        blockHash,
+        `${receipts.length} receipts for ${header.transactions.length} transactions`,
+      );
+    }
+    if (
+      ReceiptVerifier.receiptsRoot(receipts).toLowerCase() !== header.receiptsRoot.toLowerCase()
+    ) {
+      throw new LogVerificationUnavailableError(blockHash, 'receipts do not match receiptsRoot');
+    }
+
+    const number = BigNumber.from(header.number).toNumber();
+    return {
+      hash: blockHash,
+      number,
+      receipts,
+      logs: this.receiptLogs(blockHash, number, header.transactions, receipts),
+    };
+  }
+
+  /**
+   * eth_getBlockReceipts where supported, one eth_getTransactionReceipt per transaction otherwise
+   */
+  private async loadReceipts(
+    blockHash: string,
+    transactions: string[],
+    priority: RpcPriority,
+  ): Promise<RawReceipt[]> {
+    try {
+      const receipts = await this.rpcPool.execute(
+        (provider) => provider.send('eth_getBlockReceipts', [blockHash]),
+        { priority, isRequestError: (error) => ReceiptVerifier.isUnsupportedMethod(error) },
+      );
+      if (Array.isArray(receipts)) {
+        return receipts;
+      }
+    } catch (error) {
+      if (!ReceiptVerifier.isUnsupportedMethod(error)) {
+        throw error;
+      }
+      this.logger.debug(`eth_getBlockReceipts unsupported, fetching receipts one by one`);
+    }
+
+    const receipts: RawReceipt[] = [];
+    for (const hash of transactions) {
+      receipts.push(
+        await this.rpcPool.execute(
+          (provider) => provider.send('eth_getTransactionReceipt', [hash]),
+          { priority },
+        ),
+      );
+    }
+    return receipts;
+  }
+
+  /**
+   * @returns why the log is not in the verified receipts, or null if it is
+   */
+  private checkLog(block: VerifiedBlock, log: ethers.providers.Log): string | null {
+    const receipt = block.receipts[log.transactionIndex];
+    if (!receipt) {
+      return `no transaction at index ${log.transactionIndex} in block ${block.number}`;
+    }
+
+    const verified = block.logs.find((candidate) => candidate.logIndex === log.logIndex);
+    if (!verified || verified.transactionIndex !== log.transactionIndex) {
+      return `log ${log.logIndex} is not in the receipt of transaction ${log.transactionIndex}`;
+    }
+    if (
+      verified.address.toLowerCase() !== log.address.toLowerCase() ||
+      verified.data.toLowerCase() !== log.data.toLowerCase() ||
+      verified.topics.length !== log.topics.length ||
+      verified.topics.some((topic, i) => topic.toLowerCase() !== log.topics[i].toLowerCase())
+    ) {
+      return `log ${log.logIndex} differs from the receipt of transaction ${log.transactionIndex}`;
+    }
+    return null;
+  }
+
+  /**
+   * Flatten receipts into logs with their block-wide log index
+   */
+  private receiptLogs(
+    blockHash: string,
+    blockNumber: number,
+    transactions: string[],
+    receipts: RawReceipt[],
+  ): ethers.providers.Log[] {
+    const logs: ethers.providers.Log[] = [];
+    receipts.forEach((receipt, transactionIndex) => {
+      for (const log of receipt.logs) {
+        logs.push({
+          blockNumber,
+          blockHash,
+          transactionIndex,
+          transactionHash: transactions[transactionIndex],
+          logIndex: logs.length,
+          removed: false,
+          address: ethers.utils.getAddress(log.address),
+          topics: log.topics,
+          data: log.data,
+        });
+      }
+    });
+    return logs;
+  }
+
+  private static isUnsupportedMethod(error: any): boolean {
+    const message = [error?.message, error?.error?.message, error?.body].filter(Boolean).join(' ');
+    return (
+      error?.error?.code === -32601 ||
+      error?.code === -32601 ||
+      /method not found|not supported|does not exist|unsupported method/i.test(message)
+    );
+  }
+}
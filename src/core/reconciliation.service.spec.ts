@@ -0,0 +1,128 @@
+import { Logger } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DataSource } from 'typeorm';
+import { RevokedCredentialEntity, RevokedCredentialRepository } from '@infra/database';
+import { BlockchainListenerService } from './blockchain-listener.service';
+import { JobSchedulerService } from './job-scheduler.service';
+import { ReconciliationService } from './reconciliation.service';
+
+const LOCK_ID = '1';
+const START_BLOCK = 100;
+const CHECKPOINT = 1000;
+
+describe('ReconciliationService', () => {
+  const env = { ...process.env };
+  let dataSource: DataSource;
+  let revocations: RevokedCredentialRepository;
+  let onChain: number[]; // blocks of the lock's revocations on-chain
+  let listener: {
+    getLockIds: jest.Mock;
+    getLastSyncedBlock: jest.Mock;
+    getStartBlock: jest.Mock;
+    getRevokedCountOnChain: jest.Mock;
+    getRevokedStatusOnChain: jest.Mock;
+    rescanRevocations: jest.Mock;
+  };
+  let service: ReconciliationService;
+
+  const revocation = (blockNumber: number) => ({
+    id: RevokedCredentialRepository.revocationId(LOCK_ID, `0x${blockNumber}`),
+    lockId: LOCK_ID,
+    vcHash: `0x${blockNumber}`,
+    blockNumber,
+    status: 'confirmed' as const,
+    revokedAt: new Date(),
+  });
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(async () => {
+    process.env.RECONCILIATION_RESCAN_BLOCKS = '100';
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      entities: [RevokedCredentialEntity],
+      synchronize: true,
+    });
+    await dataSource.initialize();
+    revocations = new RevokedCredentialRepository(
+      dataSource.getRepository(RevokedCredentialEntity),
+    );
+
+    // 1005 is a real-time revocation the batch sync has not reached yet
+    onChain = [500, 1005];
+    for (const blockNumber of onChain) {
+      await revocations.save(revocation(blockNumber));
+    }
+
+    listener = {
+      getLockIds: jest.fn(() => [LOCK_ID]),
+      getLastSyncedBlock: jest.fn(() => CHECKPOINT),
+      getStartBlock: jest.fn(() => START_BLOCK),
+      getRevokedCountOnChain: jest.fn(
+        async (_: string, blockTag: number) => onChain.filter((block) => block <= blockTag).length,
+      ),
+      getRevokedStatusOnChain: jest.fn(async (_: string, vcHashes: string[]) =>
+        vcHashes.map(() => true),
+      ),
+      rescanRevocations: jest.fn(async (fromBlock: number, toBlock: number) => {
+        let recovered = 0;
+        for (const blockNumber of onChain.filter(
+          (block) => block >= fromBlock && block <= toBlock,
+        )) {
+          if (!(await revocations.isVcHashRevoked(`0x${blockNumber}`, LOCK_ID))) {
+            await revocations.save(revocation(blockNumber));
+            recovered++;
+          }
+        }
+        return recovered;
+      }),
+    };
+    service = new ReconciliationService(
+      new EventEmitter2(),
+      listener as unknown as BlockchainListenerService,
+      revocations,
+      {} as JobSchedulerService,
+    );
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    await dataSource.destroy();
+  });
+
+  it('compares counts at the checkpoint and ignores revocations above it', async () => {
+    onChain.push(1010); // revoked on-chain, not seen locally yet
+
+    const report = await service.reconcile();
+
+    expect(listener.getRevokedCountOnChain).toHaveBeenCalledWith(LOCK_ID, CHECKPOINT);
+    expect(report).toMatchObject({ checkpoint: CHECKPOINT, inSync: true, rescanned: false });
+    expect(report?.locks).toEqual([expect.objectContaining({ onChainCount: 1, localCount: 1 })]);
+    expect(listener.rescanRevocations).not.toHaveBeenCalled();
+  });
+
+  it('rescans growing windows back from the checkpoint until nothing is missing', async () => {
+    onChain.push(950, 700);
+
+    const report = await service.reconcile();
+
+    expect(listener.rescanRevocations.mock.calls).toEqual([
+      [901, 1000],
+      [701, 900],
+      [301, 700],
+    ]);
+    expect(report).toMatchObject({ rescanned: true, recovered: 2, missingCount: 0, inSync: true });
+  });
+
+  it('stops at the start block when revocations stay missing', async () => {
+    listener.getRevokedCountOnChain.mockResolvedValue(5);
+
+    const report = await service.reconcile();
+
+    expect(listener.rescanRevocations.mock.calls.at(-1)).toEqual([START_BLOCK, 300]);
+    expect(report).toMatchObject({ rescanned: true, recovered: 0, missingCount: 4, inSync: false });
+  });
+});
@@ -0,0 +1,283 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
+import { RevokedCredentialEntity, RevokedCredentialRepository } from '@infra/database';
+import { BLOCKCHAIN_EVENTS, BlockchainListenerService } from './blockchain-listener.service';
+import { intervalSchedule, JobSchedulerService } from './job-scheduler.service';
+
+/**
+ * Events emitted by the reconciliation job
+ */
+export const RECONCILIATION_EVENTS = {
+  COMPLETE: 'reconciliation.complete',
+  DRIFT_DETECTED: 'reconciliation.drift',
+} as const;
+
+export const RECONCILIATION_JOB = 'reconciliation';
+
+/**
+ * Cache versus contract for one lock
+ */
+export interface LockReconciliation {
+  lockId: string;
+  onChainCount: number; // at the checkpoint block
+  localCount: number; // cached revocations up to the checkpoint
+  phantomHashes: string[]; // cached as revoked, but not revoked on-chain
+  missingCount: number; // revoked on-chain, but not in the cache (after rescan)
+}
+
+/**
+ * Result of comparing the local revocation cache with the contract
+ * Counts are totals over every lock up to `checkpoint`; `locks` has the per-lock breakdown
+ */
+export interface ReconciliationReport {
+  lockIds: string[];
+  checkpoint: number; // last synced block - revocations above it are not compared
+  startedAt: string;
+  finishedAt: string | null;
+  trigger: 'scheduled' | 'manual';
+  locks: LockReconciliation[];
+  onChainCount: number;
+  localCount: number;
+  phantomHashes: string[];
+  missingCount: number;
+  rescanned: boolean;
+  recovered: number; // revocations inserted by the targeted rescan
+  inSync: boolean;
+  error?: string;
+}
+
+/**
+ * Periodically checks that the local revocation cache matches the contract, lock by lock
+ * - compares getRevokedSignatureCount() at the sync checkpoint with the revocations cached up
+ *   to it, so revocations in blocks the batch sync has not reached yet are not drift
+ * - batch-checks cached hashes with getRevokedSignatures() to find phantom entries
+ * - rescans back from the checkpoint in growing windows until the missing revocations are found
+ */
+@Injectable()
+export class ReconciliationService implements OnModuleDestroy {
+  private readonly logger = new Logger(ReconciliationService.name);
+  private running = false;
+  private lastReport: ReconciliationReport | null = null;
+  private history: ReconciliationReport[] = [];
+
+  private static readonly HISTORY_SIZE = 10;
+
+  constructor(
+    private readonly eventEmitter: EventEmitter2,
+    private readonly blockchainListener: BlockchainListenerService,
+    private readonly revokedCredentialRepository: RevokedCredentialRepository,
+    private readonly jobScheduler: JobSchedulerService,
+  ) {}
+
+  /**
+   * Start the scheduled job once the listener knows which locks to watch
+   */
+  @OnEvent(BLOCKCHAIN_EVENTS.LOCK_INFO_LOADED)
+  startSchedule() {
+    const intervalMinutes = parseInt(process.env.RECONCILIATION_INTERVAL_MINUTES || '60', 10);
+    const schedule = process.env.RECONCILIATION_CRON
+      ? { cron: process.env.RECONCILIATION_CRON }
+      : intervalSchedule(Math.max(1, intervalMinutes) * 60);
+    const disabled = !process.env.RECONCILIATION_CRON && intervalMinutes <= 0;
+
+    // A disabled job is registered paused so it can still be resumed or triggered
+    this.jobScheduler.register(RECONCILIATION_JOB, {
+      ...schedule,
+      description: 'Compare the revocation cache with the contract and rescan on drift',
+      handler: () => this.reconcile('scheduled'),
+      paused: disabled,
+    });
+    if (disabled) {
+      this.logger.log('⏭️  Scheduled reconciliation paused (RECONCILIATION_INTERVAL_MINUTES=0)');
+    }
+  }
+
+  onModuleDestroy() {
+    this.jobScheduler.unregister(RECONCILIATION_JOB);
+  }
+
+  /**
+   * Run a reconciliation now
+   * @returns the report, or null if a run is already in progress
+   */
+  async reconcile(
+    trigger: 'scheduled' | 'manual' = 'manual',
+  ): Promise<ReconciliationReport | null> {
+    if (this.running) {
+      this.logger.warn('⏭️  Reconciliation already in progress, skipping');
+      return null;
+    }
+    this.running = true;
+
+    const lockIds = this.blockchainListener.getLockIds();
+    const checkpoint = this.blockchainListener.getLastSyncedBlock();
+    const report: ReconciliationReport = {
+      lockIds,
+      checkpoint,
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      trigger,
+      locks: [],
+      onChainCount: 0,
+      localCount: 0,
+      phantomHashes: [],
+      missingCount: 0,
+      rescanned: false,
+      recovered: 0,
+      inSync: false,
+    };
+
+    try {
+      if (checkpoint < this.blockchainListener.getStartBlock()) {
+        throw new Error('Nothing synced yet - reconciliation runs after the first batch sync');
+      }
+      this.logger.log(
+        `🧮 Reconciling revocation cache for Locks ${lockIds.join(', ')} up to block ${checkpoint} [${trigger}]...`,
+      );
+
+      // Phantoms at or below the checkpoint, per lock (the ones above are not counted)
+      const checkedPhantoms = new Map<string, number>();
+      for (const lockId of lockIds) {
+        const cached = await this.revokedCredentialRepository.findByLock(lockId);
+        const phantomHashes = await this.findPhantoms(lockId, cached);
+        const phantoms = new Set(phantomHashes);
+        checkedPhantoms.set(
+          lockId,
+          cached.filter(
+            (revocation) => revocation.blockNumber <= checkpoint && phantoms.has(revocation.vcHash),
+          ).length,
+        );
+
+        const lock: LockReconciliation = {
+          lockId,
+          onChainCount: await this.blockchainListener.getRevokedCountOnChain(lockId, checkpoint),
+          localCount: await this.revokedCredentialRepository.countByLockUpToBlock(
+            lockId,
+            checkpoint,
+          ),
+          phantomHashes,
+          missingCount: 0,
+        };
+        lock.missingCount = this.countMissing(lock, checkedPhantoms.get(lockId) as number);
+        report.locks.push(lock);
+      }
+      this.summarize(report);
+
+      if (report.missingCount > 0) {
+        this.logger.warn(
+          `⚠️ ${report.missingCount} revocation(s) missing locally (on-chain ${report.onChainCount}, cached ${report.localCount}) - rescanning`,
+        );
+        report.rescanned = true;
+        report.recovered = await this.rescanMissing(report, checkedPhantoms);
+      }
+
+      report.inSync = report.missingCount === 0 && report.phantomHashes.length === 0;
+    } catch (error) {
+      report.error = error.message;
+      this.logger.error(`❌ Reconciliation failed: ${error.message}`, error.stack);
+    } finally {
+      this.running = false;
+    }
+
+    report.finishedAt = new Date().toISOString();
+    this.lastReport = report;
+    this.history = [report, ...this.history].slice(0, ReconciliationService.HISTORY_SIZE);
+
+    if (report.inSync) {
+      this.logger.log(`✅ Revocation cache in sync (${report.onChainCount} revocations)`);
+    } else if (!report.error) {
+      this.logger.warn(
+        `⚠️ Revocation drift: ${report.missingCount} missing, ${report.phantomHashes.length} phantom` +
+          (report.rescanned ? `, ${report.recovered} recovered by rescan` : ''),
+      );
+      this.eventEmitter.emit(RECONCILIATION_EVENTS.DRIFT_DETECTED, report);
+    }
+    this.eventEmitter.emit(RECONCILIATION_EVENTS.COMPLETE, report);
+
+    return report;
+  }
+
+  getLastReport(): ReconciliationReport | null {
+    return this.lastReport;
+  }
+
+  getHistory(): ReconciliationReport[] {
+    return this.history;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Rescan back from the checkpoint, one window at a time (each twice the previous one),
+   * until no revocation is missing or the start block is reached
+   * One rescan covers every lock
+   * @returns number of revocations recovered
+   */
+  private async rescanMissing(
+    report: ReconciliationReport,
+    checkedPhantoms: Map<string, number>,
+  ): Promise<number> {
+    const startBlock = this.blockchainListener.getStartBlock();
+    let window = parseInt(process.env.RECONCILIATION_RESCAN_BLOCKS || '10000', 10);
+    let toBlock = report.checkpoint;
+    let recovered = 0;
+
+    while (report.missingCount > 0 && toBlock >= startBlock) {
+      const fromBlock = Math.max(startBlock, toBlock - window + 1);
+      this.logger.log(`   🔎 Rescanning blocks ${fromBlock} → ${toBlock}`);
+      recovered += await this.blockchainListener.rescanRevocations(fromBlock, toBlock);
+
+      for (const lock of report.locks) {
+        lock.localCount = await this.revokedCredentialRepository.countByLockUpToBlock(
+          lock.lockId,
+          report.checkpoint,
+        );
+        lock.missingCount = this.countMissing(lock, checkedPhantoms.get(lock.lockId) as number);
+      }
+      this.summarize(report);
+
+      toBlock = fromBlock - 1;
+      window *= 2;
+    }
+    return recovered;
+  }
+
+  /**
+   * Cached hashes the contract does not consider revoked for the lock
+   */
+  private async findPhantoms(lockId: string, cached: RevokedCredentialEntity[]): Promise<string[]> {
+    const batchSize = parseInt(process.env.RECONCILIATION_BATCH_SIZE || '100', 10);
+    const hashes = cached.map((revocation) => revocation.vcHash);
+    const phantoms: string[] = [];
+
+    for (let i = 0; i < hashes.length; i += batchSize) {
+      const batch = hashes.slice(i, i + batchSize);
+      const revoked = await this.blockchainListener.getRevokedStatusOnChain(lockId, batch);
+      batch.forEach((vcHash, index) => {
+        if (!revoked[index]) {
+          phantoms.push(vcHash);
+        }
+      });
+    }
+
+    if (phantoms.length > 0) {
+      this.logger.warn(
+        `👻 ${phantoms.length} cached revocation(s) of lock ${lockId} not found on-chain`,
+      );
+    }
+    return phantoms;
+  }
+
+  private countMissing(lock: LockReconciliation, checkedPhantoms: number): number {
+    return Math.max(0, lock.onChainCount - (lock.localCount - checkedPhantoms));
+  }
+
+  private summarize(report: ReconciliationReport) {
+    report.onChainCount = report.locks.reduce((sum, lock) => sum + lock.onChainCount, 0);
+    report.localCount = report.locks.reduce((sum, lock) => sum + lock.localCount, 0);
+    report.phantomHashes = report.locks.flatMap((lock) => lock.phantomHashes);
+    report.missingCount = report.locks.reduce((sum, lock) => sum + lock.missingCount, 0);
+  }
+}
@@ -0,0 +1,215 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { RevokedCredentialEntity, RevokedCredentialRepository } from '@infra/database';
+import { BlockchainListenerService } from './blockchain-listener.service';
+
+/**
+ * A revocation seen during a rescan, and whether the cache already had it
+ */
+export interface RescanEvent {
+  lockId: string | null;
+  vcHash: string;
+  blockNumber: number;
+  transactionHash: string | null;
+  stored: boolean;
+}
+
+/**
+ * Progress and outcome of a rescan / rebuild job
+ */
+export interface RescanJob {
+  id: number;
+  mode: 'rescan' | 'rebuild';
+  dryRun: boolean;
+  fromBlock: number;
+  toBlock: number;
+  state: 'running' | 'completed' | 'failed';
+  scannedTo: number | null;
+  percent: number;
+  eventsFound: number;
+  alreadyStored: number;
+  inserted: number; // would be inserted when dryRun
+  removed: number; // rebuild only: cached rows the chain does not have
+  events: RescanEvent[];
+  startedAt: string;
+  finishedAt: string | null;
+  error?: string;
+}
+
+/**
+ * Operator tooling to re-read a block range from the chain
+ * - rescan: insert revocations missing in [fromBlock, toBlock]; checkpoint is not touched
+ * - rebuild: rescan everything from startBlock into a shadow table and swap it in atomically
+ * Both support dryRun, which reports events found versus events already stored
+ */
+@Injectable()
+export class RescanService {
+  private readonly logger = new Logger(RescanService.name);
+  private nextJobId = 1;
+  private currentJob: RescanJob | null = null;
+  private jobs: RescanJob[] = [];
+
+  private static readonly HISTORY_SIZE = 10;
+
+  constructor(
+    private readonly blockchainListener: BlockchainListenerService,
+    private readonly revokedCredentialRepository: RevokedCredentialRepository,
+  ) {}
+
+  /**
+   * Start rescanning a block range in the background
+   * @throws Error if a job is already running or the range is invalid
+   */
+  startRescan(fromBlock: number, toBlock: number, dryRun = false): RescanJob {
+    const lastSyncedBlock = this.blockchainListener.getStats().lastSyncedBlock;
+    if (!Number.isInteger(fromBlock) || fromBlock < 0) {
+      throw new Error('fromBlock must be a non-negative integer');
+    }
+    if (!Number.isInteger(toBlock) || toBlock < fromBlock) {
+      throw new Error('toBlock must be an integer >= fromBlock');
+    }
+    if (fromBlock > lastSyncedBlock) {
+      throw new Error(
+        `fromBlock ${fromBlock} is beyond the last synced block ${lastSyncedBlock} (batch sync covers it)`,
+      );
+    }
+
+    return this.start('rescan', fromBlock, Math.min(toBlock, lastSyncedBlock), dryRun);
+  }
+
+  /**
+   * Start rebuilding the revocation table from startBlock in the background
+   * @throws Error if a job is already running
+   */
+  startRebuild(dryRun = false): RescanJob {
+    return this.start(
+      'rebuild',
+      this.blockchainListener.getStartBlock(),
+      this.blockchainListener.getStats().lastSyncedBlock,
+      dryRun,
+    );
+  }
+
+  getJob(id: number): RescanJob | null {
+    return this.jobs.find((job) => job.id === id) || null;
+  }
+
+  getCurrentJob(): RescanJob | null {
+    return this.currentJob;
+  }
+
+  getJobs(): RescanJob[] {
+    return this.jobs;
+  }
+
+  private start(
+    mode: RescanJob['mode'],
+    fromBlock: number,
+    toBlock: number,
+    dryRun: boolean,
+  ): RescanJob {
+    if (this.currentJob) {
+      throw new Error(`Job ${this.currentJob.id} (${this.currentJob.mode}) is already running`);
+    }
+
+    const job: RescanJob = {
+      id: this.nextJobId++,
+      mode,
+      dryRun,
+      fromBlock,
+      toBlock,
+      state: 'running',
+      scannedTo: null,
+      percent: 0,
+      eventsFound: 0,
+      alreadyStored: 0,
+      inserted: 0,
+      removed: 0,
+      events: [],
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+    };
+    this.currentJob = job;
+    this.jobs = [job, ...this.jobs].slice(0, RescanService.HISTORY_SIZE);
+
+    this.logger.log(
+      `🔁 Job ${job.id}: ${mode} ${fromBlock} → ${toBlock}${dryRun ? ' (dry run)' : ''}`,
+    );
+
+    // Runs in the background; callers poll the job for progress
+    this.run(job).finally(() => {
+      this.currentJob = null;
+    });
+
+    return job;
+  }
+
+  private async run(job: RescanJob) {
+    try {
+      const span = Math.max(1, job.toBlock - job.fromBlock + 1);
+      const lockIds = this.blockchainListener.getLockIds();
+      const found = await this.blockchainListener.scanRevocations(
+        job.fromBlock,
+        job.toBlock,
+        (scannedTo, eventsFound) => {
+          job.scannedTo = scannedTo;
+          job.eventsFound = eventsFound;
+          job.percent = Math.min(100, Math.round(((scannedTo - job.fromBlock + 1) / span) * 100));
+        },
+      );
+
+      const stored = new Map<string, RevokedCredentialEntity>();
+      for (const revocation of await this.revokedCredentialRepository.getAllRevocations()) {
+        stored.set(revocation.id, revocation);
+      }
+
+      job.eventsFound = found.length;
+      job.events = found.map((revocation) => ({
+        lockId: revocation.lockId,
+        vcHash: revocation.vcHash,
+        blockNumber: revocation.blockNumber,
+        transactionHash: revocation.transactionHash,
+        stored: stored.has(revocation.id),
+      }));
+      job.alreadyStored = job.events.filter((event) => event.stored).length;
+
+      const missing = found.filter((revocation) => !stored.has(revocation.id));
+      job.inserted = missing.length;
+
+      if (job.mode === 'rebuild') {
+        const foundIds = new Set(found.map((revocation) => revocation.id));
+        job.removed = [...stored.values()].filter(
+          (revocation) =>
+            revocation.blockNumber <= job.toBlock &&
+            lockIds.includes(revocation.lockId) &&
+            !foundIds.has(revocation.id),
+        ).length;
+
+        if (!job.dryRun) {
+          // Keep when we first saw each revocation
+          for (const revocation of found) {
+            revocation.detectedAt = stored.get(revocation.id)?.detectedAt ?? revocation.detectedAt;
+          }
+          await this.revokedCredentialRepository.replaceFromShadow(found, job.toBlock, lockIds);
+        }
+      } else if (!job.dryRun && missing.length > 0) {
+        await this.revokedCredentialRepository.batchSave(missing);
+      }
+
+      job.state = 'completed';
+      job.percent = 100;
+      this.logger.log(
+        `✅ Job ${job.id}: ${job.eventsFound} found, ${job.alreadyStored} already stored, ` +
+          `${job.inserted} ${job.dryRun ? 'would be inserted' : 'inserted'}` +
+          (job.mode === 'rebuild'
+            ? `, ${job.removed} ${job.dryRun ? 'would be removed' : 'removed'}`
+            : ''),
+      );
+    } catch (error) {
+      job.state = 'failed';
+      job.error = error.message;
+      this.logger.error(`❌ Job ${job.id} failed: ${error.message}`, error.stack);
+    } finally {
+      job.finishedAt = new Date().toISOString();
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import { Logger } from '@nestjs/common';
+import { RpcBudgetExceededError, RpcGovernor, RpcPriority } from './rpc-governor';
+
+describe('RpcGovernor', () => {
+  let governor: RpcGovernor;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    governor.destroy();
+    jest.useRealTimers();
+  });
+
+  /**
+   * Start an acquire and record when it is granted
+   */
+  function track(priority: RpcPriority, granted: string[], label: string = priority) {
+    return governor.acquire(priority).then(() => {
+      granted.push(label);
+    });
+  }
+
+  describe('daily budget', () => {
+    beforeEach(() => {
+      governor = new RpcGovernor({ dailyBudget: 10, budgetReservePercent: 20 });
+    });
+
+    it('keeps the reserve for verification and realtime calls', async () => {
+      for (let i = 0; i < 8; i++) {
+        await governor.acquire('backfill');
+      }
+
+      await expect(governor.acquire('backfill')).rejects.toBeInstanceOf(RpcBudgetExceededError);
+      expect(governor.isBackfillAllowed()).toBe(false);
+
+      await governor.acquire('realtime');
+      await governor.acquire('verification');
+      await expect(governor.acquire('verification')).rejects.toBeInstanceOf(RpcBudgetExceededError);
+      expect(governor.getStatus()).toMatchObject({ usedToday: 10, remainingToday: 0, rejected: 2 });
+    });
+
+    it('resets at the start of the next UTC day', async () => {
+      for (let i = 0; i < 8; i++) {
+        await governor.acquire('backfill');
+      }
+      expect(governor.isBackfillAllowed()).toBe(false);
+
+      jest.setSystemTime(new Date('2024-06-02T00:00:01Z'));
+
+      expect(governor.isBackfillAllowed()).toBe(true);
+      await governor.acquire('backfill');
+      expect(governor.getStatus()).toMatchObject({ day: '2024-06-02', usedToday: 1 });
+    });
+  });
+
+  describe('rate limit', () => {
+    beforeEach(() => {
+      governor = new RpcGovernor({ maxRequestsPerSecond: 2 });
+    });
+
+    it('spreads calls over time once the burst is used', async () => {
+      const granted: string[] = [];
+      const calls = [1, 2, 3, 4].map((n) => track('backfill', granted, `call ${n}`));
+
+      await jest.advanceTimersByTimeAsync(0);
+      expect(granted).toEqual(['call 1', 'call 2']);
+
+      await jest.advanceTimersByTimeAsync(500);
+      expect(granted).toEqual(['call 1', 'call 2', 'call 3']);
+
+      await jest.advanceTimersByTimeAsync(500);
+      await Promise.all(calls);
+      expect(governor.getStatus().throttled).toBe(2);
+    });
+
+    it('serves waiting calls by priority', async () => {
+      await governor.acquire('backfill');
+      await governor.acquire('backfill');
+
+      const granted: string[] = [];
+      const calls = [
+        track('backfill', granted),
+        track('realtime', granted),
+        track('verification', granted),
+      ];
+      await jest.advanceTimersByTimeAsync(1500);
+      await Promise.all(calls);
+
+      expect(granted).toEqual(['verification', 'realtime', 'backfill']);
+    });
+  });
+
+  describe('provider rate limiting', () => {
+    beforeEach(() => {
+      governor = new RpcGovernor({ rateLimitBackoffMs: 1000, rateLimitMaxBackoffMs: 3000 });
+    });
+
+    it('pauses every call with exponential backoff after a 429', async () => {
+      const granted: string[] = [];
+
+      governor.recordResult({ status: 429 });
+      const first = track('verification', granted);
+      await jest.advanceTimersByTimeAsync(999);
+      expect(granted).toEqual([]);
+      await jest.advanceTimersByTimeAsync(1);
+      await first;
+
+      governor.recordResult(new Error('Too Many Requests'));
+      governor.recordResult({ error: { code: -32005, message: 'limit' } });
+      expect(governor.getStatus()).toMatchObject({
+        rateLimited: 3,
+        backoffUntil: new Date(Date.now() + 3000).toISOString(), // 2000ms doubled, capped at 3000ms
+      });
+
+      governor.recordResult(new Error('execution reverted'));
+      expect(governor.getStatus().rateLimited).toBe(3);
+    });
+
+    it('resets the backoff after a successful call', async () => {
+      governor.recordResult({ status: 429 });
+      governor.recordResult({ status: 429 });
+      await jest.advanceTimersByTimeAsync(2000);
+
+      governor.recordResult();
+      governor.recordResult({ status: 429 });
+      expect(governor.getStatus().backoffUntil).toBe(new Date(Date.now() + 1000).toISOString());
+    });
+  });
+
+  it('rejects waiting calls when destroyed', async () => {
+    governor = new RpcGovernor({ maxRequestsPerSecond: 1 });
+    await governor.acquire('backfill');
+
+    const waiting = governor.acquire('backfill');
+    governor.destroy();
+
+    await expect(waiting).rejects.toThrow('RPC governor stopped');
+  });
+});
@@ -0,0 +1,318 @@
+import { Logger } from '@nestjs/common';
+
+/**
+ * Priority classes for RPC calls, highest first
+ * - verification: live checks made while a credential is being verified
+ * - realtime: head tracking, real-time events, pause state
+ * - backfill: batch sync, rescans, reconciliation, provider probes
+ */
+export type RpcPriority = 'verification' | 'realtime' | 'backfill';
+
+export const RPC_PRIORITIES: RpcPriority[] = ['verification', 'realtime', 'backfill'];
+
+/**
+ * Quotas for the RPC plan (0 = unlimited)
+ */
+export interface RpcGovernorOptions {
+  maxRequestsPerSecond?: number;
+  dailyBudget?: number;
+  budgetReservePercent?: number; // share of the daily budget backfill may not use
+  rateLimitBackoffMs?: number;
+  rateLimitMaxBackoffMs?: number;
+}
+
+/**
+ * Request counters (exposed on /health and /health/metrics)
+ */
+export interface RpcGovernorStatus {
+  maxRequestsPerSecond: number;
+  dailyBudget: number;
+  budgetReservePercent: number;
+  day: string;
+  usedToday: number;
+  remainingToday: number | null;
+  backfillAllowed: boolean;
+  requests: Record<RpcPriority, number>;
+  queued: Record<RpcPriority, number>;
+  throttled: number; // calls that had to wait for the rate limit or a backoff
+  rejected: number; // calls refused because the daily budget is spent
+  rateLimited: number; // 429 / rate-limit responses from the provider
+  backoffUntil: string | null;
+}
+
+/**
+ * Thrown instead of calling the provider once the daily budget for a priority is spent
+ */
+export class RpcBudgetExceededError extends Error {
+  constructor(
+    readonly priority: RpcPriority,
+    readonly usedToday: number,
+  ) {
+    super(`RPC daily budget exhausted for ${priority} calls (${usedToday} requests today)`);
+    this.name = 'RpcBudgetExceededError';
+  }
+}
+
+interface Waiter {
+  priority: RpcPriority;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+const RATE_LIMIT_PATTERNS = [
+  /\b429\b/,
+  /rate limit/i,
+  /too many requests/i,
+  /exceeded .*(capacity|quota|credits|compute units)/i,
+  /daily request count exceeded/i,
+];
+
+/**
+ * Gatekeeper for every RPC request of a provider pool
+ * Enforces requests-per-second (token bucket) and a daily request budget,
+ * serves waiting calls strictly by priority, and pauses all calls with exponential
+ * backoff when the provider answers 429
+ */
+export class RpcGovernor {
+  private readonly logger = new Logger(RpcGovernor.name);
+  private readonly maxRequestsPerSecond: number;
+  private readonly dailyBudget: number;
+  private readonly budgetReservePercent: number;
+  private readonly rateLimitBackoffMs: number;
+  private readonly rateLimitMaxBackoffMs: number;
+
+  private queues: Record<RpcPriority, Waiter[]> = { verification: [], realtime: [], backfill: [] };
+  private tokens: number;
+  private lastRefill = Date.now();
+  private timer: NodeJS.Timeout | null = null;
+  private backoffMs = 0;
+  private pausedUntil = 0;
+
+  private day = RpcGovernor.today();
+  private usedToday = 0;
+  private requests: Record<RpcPriority, number> = { verification: 0, realtime: 0, backfill: 0 };
+  private throttled = 0;
+  private rejected = 0;
+  private rateLimited = 0;
+
+  constructor(options: RpcGovernorOptions = {}) {
+    this.maxRequestsPerSecond = Math.max(0, options.maxRequestsPerSecond ?? 0);
+    this.dailyBudget = Math.max(0, options.dailyBudget ?? 0);
+    this.budgetReservePercent = Math.min(100, Math.max(0, options.budgetReservePercent ?? 10));
+    this.rateLimitBackoffMs = options.rateLimitBackoffMs ?? 1000;
+    this.rateLimitMaxBackoffMs = options.rateLimitMaxBackoffMs ?? 60000;
+    this.tokens = Math.max(1, this.maxRequestsPerSecond);
+  }
+
+  /**
+   * Wait for permission to send one request
+   * @throws RpcBudgetExceededError if the daily budget for this priority is spent
+   */
+  async acquire(priority: RpcPriority): Promise<void> {
+    this.rollDay();
+    this.checkBudget(priority);
+
+    if (this.canDispatchNow()) {
+      this.take(priority);
+      return;
+    }
+
+    this.throttled++;
+    await new Promise<void>((resolve, reject) => {
+      this.queues[priority].push({ priority, resolve, reject });
+      this.pump();
+    });
+  }
+
+  /**
+   * Feed a provider response back; 429s pause every call, successes reset the backoff
+   */
+  recordResult(error?: any) {
+    if (!error) {
+      this.backoffMs = 0;
+      return;
+    }
+    if (!RpcGovernor.isRateLimitError(error)) {
+      return;
+    }
+
+    this.rateLimited++;
+    this.backoffMs = this.backoffMs
+      ? Math.min(this.rateLimitMaxBackoffMs, this.backoffMs * 2)
+      : this.rateLimitBackoffMs;
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + this.backoffMs);
+    this.logger.warn(`🚦 Provider rate limit hit - pausing RPC calls for ${this.backoffMs}ms`);
+  }
+
+  static isRateLimitError(error: any): boolean {
+    if (error?.status === 429 || error?.error?.code === -32005 || error?.code === -32005) {
+      return true;
+    }
+    const message = [error?.message, error?.error?.message, error?.body, error?.reason]
+      .filter(Boolean)
+      .join(' ');
+    return RATE_LIMIT_PATTERNS.some((pattern) => pattern.test(message));
+  }
+
+  /**
+   * Whether backfill may still spend budget today (higher priorities use the reserve)
+   */
+  isBackfillAllowed(): boolean {
+    this.rollDay();
+    return !this.isBudgetExhausted('backfill');
+  }
+
+  getStatus(): RpcGovernorStatus {
+    this.rollDay();
+    return {
+      maxRequestsPerSecond: this.maxRequestsPerSecond,
+      dailyBudget: this.dailyBudget,
+      budgetReservePercent: this.budgetReservePercent,
+      day: this.day,
+      usedToday: this.usedToday,
+      remainingToday: this.dailyBudget ? Math.max(0, this.dailyBudget - this.usedToday) : null,
+      backfillAllowed: !this.isBudgetExhausted('backfill'),
+      requests: { ...this.requests },
+      queued: {
+        verification: this.queues.verification.length,
+        realtime: this.queues.realtime.length,
+        backfill: this.queues.backfill.length,
+      },
+      throttled: this.throttled,
+      rejected: this.rejected,
+      rateLimited: this.rateLimited,
+      backoffUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : null,
+    };
+  }
+
+  /**
+   * Reject every waiting call (pool shutdown)
+   */
+  destroy() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    for (const priority of RPC_PRIORITIES) {
+      for (const waiter of this.queues[priority]) {
+        waiter.reject(new Error('RPC governor stopped'));
+      }
+      this.queues[priority] = [];
+    }
+  }
+
+  private canDispatchNow(): boolean {
+    if (Date.now() < this.pausedUntil || RPC_PRIORITIES.some((p) => this.queues[p].length > 0)) {
+      return false;
+    }
+    if (!this.maxRequestsPerSecond) {
+      return true;
+    }
+    this.refill();
+    return this.tokens >= 1;
+  }
+
+  /**
+   * Release waiting calls, highest priority first, as tokens become available
+   */
+  private pump() {
+    if (this.timer) {
+      return;
+    }
+
+    const now = Date.now();
+    if (now < this.pausedUntil) {
+      this.schedule(this.pausedUntil - now);
+      return;
+    }
+
+    this.refill();
+    while (!this.maxRequestsPerSecond || this.tokens >= 1) {
+      const waiter = this.nextWaiter();
+      if (!waiter) {
+        return;
+      }
+      // The budget may have run out while the call was queued
+      if (this.isBudgetExhausted(waiter.priority)) {
+        this.rejected++;
+        waiter.reject(new RpcBudgetExceededError(waiter.priority, this.usedToday));
+        continue;
+      }
+      this.take(waiter.priority);
+      waiter.resolve();
+    }
+
+    if (this.nextWaiter(false)) {
+      this.schedule(Math.ceil(((1 - this.tokens) / this.maxRequestsPerSecond) * 1000));
+    }
+  }
+
+  private schedule(delayMs: number) {
+    this.timer = setTimeout(
+      () => {
+        this.timer = null;
+        this.pump();
+      },
+      Math.max(1, delayMs),
+    );
+  }
+
+  private nextWaiter(remove = true): Waiter | undefined {
+    for (const priority of RPC_PRIORITIES) {
+      if (this.queues[priority].length > 0) {
+        return remove ? this.queues[priority].shift() : this.queues[priority][0];
+      }
+    }
+    return undefined;
+  }
+
+  private take(priority: RpcPriority) {
+    if (this.maxRequestsPerSecond) {
+      this.tokens -= 1;
+    }
+    this.usedToday++;
+    this.requests[priority]++;
+  }
+
+  private refill() {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.lastRefill = now;
+    // Burst of at most one second worth of requests
+    this.tokens = Math.min(
+      Math.max(1, this.maxRequestsPerSecond),
+      this.tokens + elapsedSeconds * this.maxRequestsPerSecond,
+    );
+  }
+
+  private checkBudget(priority: RpcPriority) {
+    if (this.isBudgetExhausted(priority)) {
+      this.rejected++;
+      throw new RpcBudgetExceededError(priority, this.usedToday);
+    }
+  }
+
+  private isBudgetExhausted(priority: RpcPriority): boolean {
+    if (!this.dailyBudget) {
+      return false;
+    }
+    const limit =
+      priority === 'backfill'
+        ? Math.floor((this.dailyBudget * (100 - this.budgetReservePercent)) / 100)
+        : this.dailyBudget;
+    return this.usedToday >= limit;
+  }
+
+  private rollDay() {
+    const today = RpcGovernor.today();
+    if (today !== this.day) {
+      this.logger.log(`📅 RPC budget reset (${this.usedToday} requests on ${this.day})`);
+      this.day = today;
+      this.usedToday = 0;
+    }
+  }
+
+  private static today(): string {
+    return new Date().toISOString().substring(0, 10); // UTC day
+  }
+}
@@ -0,0 +1,104 @@
+import { Logger } from '@nestjs/common';
+import { AddressInfo, createServer, Server, Socket } from 'net';
+import { RpcProviderPool, RpcTimeoutError } from './rpc-provider-pool';
+
+async function listen(server: Server): Promise<number> {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return (server.address() as AddressInfo).port;
+}
+
+async function close(server: Server): Promise<void> {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+}
+
+/**
+ * A port nothing listens on (connections are refused)
+ */
+async function closedPort(): Promise<number> {
+  const server = createServer();
+  const port = await listen(server);
+  await close(server);
+  return port;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('RpcProviderPool', () => {
+  let pool: RpcProviderPool | null = null;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  afterEach(async () => {
+    await pool?.destroy();
+    pool = null;
+  });
+
+  describe('WebSocket endpoint that refuses connections', () => {
+    it('survives the socket error and keeps retrying', async () => {
+      const url = `ws://127.0.0.1:${await closedPort()}`;
+      pool = new RpcProviderPool([url], {
+        heartbeatTimeoutMs: 200,
+        reconnectBaseDelayMs: 20,
+        reconnectMaxDelayMs: 50,
+      });
+
+      await sleep(1200);
+
+      const [status] = pool.getStatus();
+      expect(status.lastDisconnectAt).not.toBeNull();
+      expect(status.reconnects).toBe(0);
+      // The initial disconnect plus several failed reconnect attempts
+      expect(status.failures).toBeGreaterThanOrEqual(3);
+    });
+
+    it('times out calls instead of waiting for the socket to open', async () => {
+      const url = `ws://127.0.0.1:${await closedPort()}`;
+      pool = new RpcProviderPool([url], { requestTimeoutMs: 300, reconnectBaseDelayMs: 1000 });
+
+      await expect(pool.execute((provider) => provider.getBlockNumber())).rejects.toBeInstanceOf(
+        RpcTimeoutError,
+      );
+    });
+  });
+
+  describe('WebSocket endpoint that never completes the handshake', () => {
+    let server: Server;
+    const sockets: Socket[] = [];
+
+    beforeEach(() => {
+      server = createServer((socket) => sockets.push(socket));
+    });
+
+    afterEach(async () => {
+      sockets.forEach((socket) => socket.destroy());
+      await close(server);
+    });
+
+    it('times out each reconnect probe and retries', async () => {
+      const port = await listen(server);
+      pool = new RpcProviderPool([`ws://127.0.0.1:${port}`], {
+        heartbeatIntervalMs: 100,
+        heartbeatTimeoutMs: 200,
+        reconnectBaseDelayMs: 20,
+        reconnectMaxDelayMs: 50,
+      });
+
+      // Drop the first connection; the reconnect attempts then hang in the handshake
+      await sleep(50);
+      sockets.splice(0).forEach((socket) => socket.destroy());
+
+      await sleep(1200);
+
+      const [status] = pool.getStatus();
+      expect(status.reconnects).toBe(0);
+      expect(status.failures).toBeGreaterThanOrEqual(3);
+      expect(status.lastError).toContain('timed out');
+      // Every attempt opened a new connection
+      expect(sockets.length).toBeGreaterThanOrEqual(2);
+    });
+  });
+});
@@ -0,0 +1,609 @@
+import { Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { RpcBudgetExceededError, RpcGovernor, RpcPriority } from './rpc-governor';
+
+export type RpcProvider = ethers.providers.JsonRpcProvider | ethers.providers.WebSocketProvider;
+
+/**
+ * Thrown when a provider does not answer a call in time (counts as a provider failure)
+ */
+export class RpcTimeoutError extends Error {
+  constructor(
+    readonly url: string,
+    readonly timeoutMs: number,
+  ) {
+    super(`RPC call to ${url} timed out after ${timeoutMs}ms`);
+    this.name = 'RpcTimeoutError';
+  }
+}
+
+/**
+ * The `ws` socket behind a WebSocketProvider (ethers only types the browser subset)
+ */
+interface NodeWebSocket {
+  readyState: number;
+  on(event: string, listener: (...args: any[]) => void): void;
+  ping(): void;
+  terminate(): void;
+}
+
+/**
+ * Health snapshot of a single RPC endpoint (exposed on /health)
+ */
+export interface RpcProviderStatus {
+  url: string;
+  transport: 'websocket' | 'http';
+  active: boolean;
+  healthy: boolean;
+  score: number;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastLatencyMs: number | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  reconnects: number;
+  lastDisconnectAt: string | null;
+}
+
+/**
+ * Tuning for failover, quorum and WebSocket reconnects
+ */
+export interface RpcProviderPoolOptions {
+  quorum?: number;
+  requestTimeoutMs?: number; // per call; a provider that does not answer in time is failed over
+  heartbeatIntervalMs?: number;
+  heartbeatTimeoutMs?: number;
+  reconnectBaseDelayMs?: number;
+  reconnectMaxDelayMs?: number;
+  governor?: RpcGovernor; // rate limit / daily budget shared by every call of the pool
+  pollingIntervalMs?: number; // HTTP polling for blocks and event filters
+}
+
+/**
+ * Per-call options
+ */
+export interface RpcCallOptions {
+  // Errors caused by the request itself (e.g. eth_getLogs range limits): no failover, no penalty
+  isRequestError?: (error: any) => boolean;
+  // Governor priority class (defaults to backfill)
+  priority?: RpcPriority;
+}
+
+interface PoolEntry {
+  url: string;
+  provider: RpcProvider;
+  score: number;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastLatencyMs: number | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  reconnects: number;
+  reconnecting: boolean;
+  disconnectedAt: Date | null;
+  heartbeat: NodeJS.Timeout | null;
+  reconnectTimer: NodeJS.Timeout | null;
+}
+
+const MAX_SCORE = 100;
+const SUCCESS_REWARD = 5;
+const FAILURE_PENALTY = 25;
+const HEALTHY_SCORE = 50;
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+/**
+ * Pool of RPC providers for one network
+ * Keeps a health score per endpoint, fails over to the best healthy endpoint
+ * and optionally requires K providers to agree on a read (quorum mode)
+ * Every request waits for the optional RpcGovernor (rate limit, daily budget, 429 backoff)
+ */
+export class RpcProviderPool {
+  private readonly logger = new Logger(RpcProviderPool.name);
+  private readonly entries: PoolEntry[];
+  private readonly quorum: number;
+  private readonly requestTimeoutMs: number;
+  private readonly heartbeatIntervalMs: number;
+  private readonly heartbeatTimeoutMs: number;
+  private readonly reconnectBaseDelayMs: number;
+  private readonly reconnectMaxDelayMs: number;
+  private readonly governor: RpcGovernor | null;
+  private readonly pollingIntervalMs: number | null;
+  private activeIndex = 0;
+  private destroyed = false;
+
+  /**
+   * Called whenever the active provider changes so listeners can be re-attached
+   */
+  onFailover: ((provider: RpcProvider, url: string) => void | Promise<void>) | null = null;
+
+  /**
+   * Called when the active provider's WebSocket drops (closure or missed heartbeat)
+   */
+  onDisconnect: ((url: string, reason: string) => void) | null = null;
+
+  /**
+   * Called once the active provider's WebSocket is re-established
+   */
+  onReconnect:
+    ((provider: RpcProvider, url: string, disconnectedAt: Date) => void | Promise<void>) | null =
+    null;
+
+  constructor(urls: string[], options: RpcProviderPoolOptions = {}) {
+    if (urls.length === 0) {
+      throw new Error('At least one RPC URL is required');
+    }
+
+    this.quorum = options.quorum ?? 1;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? 30000;
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 30000;
+    this.heartbeatTimeoutMs = options.heartbeatTimeoutMs ?? 10000;
+    this.reconnectBaseDelayMs = options.reconnectBaseDelayMs ?? 1000;
+    this.reconnectMaxDelayMs = options.reconnectMaxDelayMs ?? 60000;
+    this.governor = options.governor ?? null;
+    this.pollingIntervalMs = options.pollingIntervalMs ?? null;
+
+    this.entries = urls.map((url) => ({
+      url,
+      provider: this.newProvider(url),
+      score: MAX_SCORE,
+      successes: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      lastLatencyMs: null,
+      lastError: null,
+      lastErrorAt: null,
+      reconnects: 0,
+      reconnecting: false,
+      disconnectedAt: null,
+      heartbeat: null,
+      reconnectTimer: null,
+    }));
+
+    this.entries.forEach((entry) => this.watchConnection(entry));
+  }
+
+  /**
+   * Build a provider based on URL scheme (wss:// = WebSocket, https:// = HTTP)
+   */
+  static createProvider(url: string): RpcProvider {
+    if (RpcProviderPool.isWebSocketUrl(url)) {
+      return new ethers.providers.WebSocketProvider(url);
+    }
+    return new ethers.providers.JsonRpcProvider(url);
+  }
+
+  /**
+   * Create a provider whose socket errors cannot crash the process
+   * An unreachable wss:// endpoint emits 'error' (e.g. ECONNREFUSED) and then 'close',
+   * which watchConnection turns into a reconnect
+   */
+  private newProvider(url: string): RpcProvider {
+    const provider = RpcProviderPool.createProvider(url);
+    if (this.pollingIntervalMs) {
+      provider.pollingInterval = this.pollingIntervalMs;
+    }
+    RpcProviderPool.getSocket(provider)?.on('error', (error: Error) => {
+      this.logger.debug(`WebSocket error from ${RpcProviderPool.redact(url)}: ${error.message}`);
+    });
+    return provider;
+  }
+
+  /**
+   * The underlying socket of a WebSocket provider, null for HTTP providers
+   */
+  private static getSocket(provider: RpcProvider): NodeWebSocket | null {
+    if (!(provider instanceof ethers.providers.WebSocketProvider)) {
+      return null;
+    }
+    const socket = provider.websocket as unknown as NodeWebSocket;
+    return socket && typeof socket.on === 'function' ? socket : null;
+  }
+
+  static isWebSocketUrl(url: string): boolean {
+    return url.startsWith('wss://') || url.startsWith('ws://');
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  get quorumSize(): number {
+    return Math.min(Math.max(1, this.quorum), this.entries.length);
+  }
+
+  getActiveProvider(): RpcProvider {
+    return this.entries[this.activeIndex].provider;
+  }
+
+  getActiveUrl(): string {
+    return this.entries[this.activeIndex].url;
+  }
+
+  /**
+   * Run a call against the active provider, failing over to the next best one on error
+   */
+  async execute<T>(
+    call: (provider: RpcProvider) => Promise<T>,
+    options: RpcCallOptions = {},
+  ): Promise<T> {
+    const tried = new Set<number>();
+    let lastError: any;
+
+    while (tried.size < this.entries.length) {
+      const index = this.activeIndex;
+      tried.add(index);
+
+      try {
+        return await this.track(this.entries[index], call, options);
+      } catch (error) {
+        if (error instanceof RpcBudgetExceededError || options.isRequestError?.(error)) {
+          throw error;
+        }
+        lastError = error;
+        const next = this.pickBest(tried);
+        if (next === null) {
+          break;
+        }
+        await this.switchTo(next, error.message);
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Run a read against several providers and only return once `quorum` of them agree
+   * @param call The read to perform on each provider
+   * @param keyOf Canonical key of a result; results with equal keys agree
+   */
+  async executeWithQuorum<T>(
+    call: (provider: RpcProvider) => Promise<T>,
+    keyOf: (result: T) => string,
+    options: RpcCallOptions = {},
+  ): Promise<T> {
+    const required = this.quorumSize;
+    if (required <= 1) {
+      return this.execute(call, options);
+    }
+
+    // Ask every healthy provider (or all of them if not enough are healthy)
+    const healthy = this.entries.filter((entry) => this.isHealthy(entry));
+    const candidates = healthy.length >= required ? healthy : this.entries;
+
+    const settled = await Promise.allSettled(
+      candidates.map((entry) => this.track(entry, call, options)),
+    );
+
+    const groups = new Map<string, { result: T; entries: PoolEntry[] }>();
+    settled.forEach((outcome, i) => {
+      if (outcome.status !== 'fulfilled') {
+        return;
+      }
+      const key = keyOf(outcome.value);
+      const group = groups.get(key) || { result: outcome.value, entries: [] };
+      group.entries.push(candidates[i]);
+      groups.set(key, group);
+    });
+
+    const best = [...groups.values()].sort((a, b) => b.entries.length - a.entries.length)[0];
+
+    if (!best || best.entries.length < required) {
+      // Surface request / budget errors (e.g. range too large) so the caller can adapt
+      const requestError = settled.find(
+        (outcome) =>
+          outcome.status === 'rejected' &&
+          (outcome.reason instanceof RpcBudgetExceededError ||
+            options.isRequestError?.(outcome.reason)),
+      ) as PromiseRejectedResult | undefined;
+      if (requestError) {
+        throw requestError.reason;
+      }
+      throw new Error(
+        `RPC quorum not reached: needed ${required} matching responses, best had ${best?.entries.length || 0} of ${candidates.length}`,
+      );
+    }
+
+    // Providers that answered differently from the quorum lose score
+    for (const group of groups.values()) {
+      if (group === best) {
+        continue;
+      }
+      for (const entry of group.entries) {
+        this.recordFailure(entry, 'Disagreed with RPC quorum');
+      }
+    }
+
+    return best.result;
+  }
+
+  /**
+   * Probe every provider with eth_blockNumber so unhealthy ones can recover
+   */
+  async probeAll(): Promise<void> {
+    await Promise.allSettled(
+      this.entries.map((entry) => this.track(entry, (provider) => provider.getBlockNumber())),
+    );
+
+    if (!this.isHealthy(this.entries[this.activeIndex])) {
+      const next = this.pickBest(new Set([this.activeIndex]));
+      if (next !== null) {
+        await this.switchTo(next, this.entries[this.activeIndex].lastError || 'unhealthy');
+      }
+    }
+  }
+
+  getStatus(): RpcProviderStatus[] {
+    return this.entries.map((entry, index) => ({
+      url: RpcProviderPool.redact(entry.url),
+      transport: RpcProviderPool.isWebSocketUrl(entry.url) ? 'websocket' : 'http',
+      active: index === this.activeIndex,
+      healthy: this.isHealthy(entry),
+      score: entry.score,
+      successes: entry.successes,
+      failures: entry.failures,
+      consecutiveFailures: entry.consecutiveFailures,
+      lastLatencyMs: entry.lastLatencyMs,
+      lastError: entry.lastError,
+      lastErrorAt: entry.lastErrorAt,
+      reconnects: entry.reconnects,
+      lastDisconnectAt: entry.disconnectedAt ? entry.disconnectedAt.toISOString() : null,
+    }));
+  }
+
+  /**
+   * Tear down all providers (closes WebSocket connections)
+   */
+  async destroy(): Promise<void> {
+    this.destroyed = true;
+    for (const entry of this.entries) {
+      this.clearTimers(entry);
+      await this.destroyProvider(entry.provider);
+    }
+  }
+
+  /**
+   * Watch a WebSocket provider for socket closure and missed heartbeats
+   */
+  private watchConnection(entry: PoolEntry) {
+    const socket = RpcProviderPool.getSocket(entry.provider);
+    if (!socket) {
+      return;
+    }
+
+    let pongTimeout: NodeJS.Timeout | null = null;
+
+    socket.on('pong', () => {
+      if (pongTimeout) {
+        clearTimeout(pongTimeout);
+        pongTimeout = null;
+      }
+    });
+
+    socket.on('close', (code: number) => {
+      if (pongTimeout) {
+        clearTimeout(pongTimeout);
+      }
+      this.handleDisconnect(entry, `socket closed (code ${code})`);
+    });
+
+    entry.heartbeat = setInterval(() => {
+      if (pongTimeout || socket.readyState !== 1) {
+        return;
+      }
+      pongTimeout = setTimeout(() => {
+        this.logger.warn(`💔 No heartbeat from ${RpcProviderPool.redact(entry.url)}`);
+        socket.terminate();
+      }, this.heartbeatTimeoutMs);
+      socket.ping();
+    }, this.heartbeatIntervalMs);
+  }
+
+  private handleDisconnect(entry: PoolEntry, reason: string) {
+    if (this.destroyed || entry.reconnecting) {
+      return;
+    }
+
+    this.clearTimers(entry);
+    entry.reconnecting = true;
+    entry.disconnectedAt = new Date();
+    this.recordFailure(entry, reason);
+
+    this.logger.warn(`🔌 WebSocket disconnected: ${RpcProviderPool.redact(entry.url)} (${reason})`);
+
+    if (this.entries[this.activeIndex] === entry && this.onDisconnect) {
+      this.onDisconnect(entry.url, reason);
+    }
+
+    this.scheduleReconnect(entry, 0);
+  }
+
+  /**
+   * Reconnect with exponential backoff until a fresh provider answers eth_blockNumber
+   * within the heartbeat timeout (a black-holed host never opens the socket)
+   */
+  private scheduleReconnect(entry: PoolEntry, attempt: number) {
+    if (this.destroyed) {
+      return;
+    }
+    const delay = Math.min(this.reconnectBaseDelayMs * 2 ** attempt, this.reconnectMaxDelayMs);
+    this.logger.log(
+      `🔄 Reconnecting to ${RpcProviderPool.redact(entry.url)} in ${delay}ms (attempt ${attempt + 1})`,
+    );
+
+    entry.reconnectTimer = setTimeout(async () => {
+      entry.reconnectTimer = null;
+      if (this.destroyed) {
+        return;
+      }
+
+      const provider = this.newProvider(entry.url);
+      try {
+        await RpcProviderPool.withTimeout(
+          provider.getBlockNumber(),
+          this.heartbeatTimeoutMs,
+          () => new RpcTimeoutError(RpcProviderPool.redact(entry.url), this.heartbeatTimeoutMs),
+        );
+      } catch (error) {
+        this.recordFailure(entry, error.message || String(error));
+        await this.destroyProvider(provider);
+        this.scheduleReconnect(entry, attempt + 1);
+        return;
+      }
+      if (this.destroyed) {
+        await this.destroyProvider(provider);
+        return;
+      }
+
+      const previous = entry.provider;
+      entry.provider = provider;
+      entry.reconnects++;
+      entry.reconnecting = false;
+      this.recordSuccess(entry);
+      this.watchConnection(entry);
+      await this.destroyProvider(previous);
+
+      this.logger.log(`✅ WebSocket reconnected: ${RpcProviderPool.redact(entry.url)}`);
+
+      if (this.entries[this.activeIndex] === entry && this.onReconnect) {
+        await this.onReconnect(provider, entry.url, entry.disconnectedAt);
+      }
+    }, delay);
+  }
+
+  private clearTimers(entry: PoolEntry) {
+    if (entry.heartbeat) {
+      clearInterval(entry.heartbeat);
+      entry.heartbeat = null;
+    }
+    if (entry.reconnectTimer) {
+      clearTimeout(entry.reconnectTimer);
+      entry.reconnectTimer = null;
+    }
+  }
+
+  private async destroyProvider(provider: RpcProvider) {
+    try {
+      provider.removeAllListeners();
+      const socket = RpcProviderPool.getSocket(provider);
+      if (socket && socket.readyState === 0) {
+        // destroy() waits for a connecting socket to open, which a black-holed host never does
+        socket.terminate();
+      } else if ('destroy' in provider && typeof provider.destroy === 'function') {
+        await provider.destroy();
+      }
+    } catch {
+      // Socket is already gone
+    }
+  }
+
+  private async track<T>(
+    entry: PoolEntry,
+    call: (provider: RpcProvider) => Promise<T>,
+    options: RpcCallOptions = {},
+  ) {
+    if (this.governor) {
+      await this.governor.acquire(options.priority ?? 'backfill');
+    }
+
+    const startedAt = Date.now();
+    try {
+      // ethers queues WebSocket requests until the socket opens - never wait forever
+      const result = await RpcProviderPool.withTimeout(
+        call(entry.provider),
+        this.requestTimeoutMs,
+        () => new RpcTimeoutError(RpcProviderPool.redact(entry.url), this.requestTimeoutMs),
+      );
+      entry.lastLatencyMs = Date.now() - startedAt;
+      this.recordSuccess(entry);
+      this.governor?.recordResult();
+      return result;
+    } catch (error) {
+      if (!options.isRequestError?.(error)) {
+        this.recordFailure(entry, error.message || String(error));
+      }
+      this.governor?.recordResult(error);
+      throw error;
+    }
+  }
+
+  private static withTimeout<T>(
+    promise: Promise<T>,
+    timeoutMs: number,
+    onTimeout: () => Error,
+  ): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(onTimeout()), timeoutMs);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  private recordSuccess(entry: PoolEntry) {
+    entry.successes++;
+    entry.consecutiveFailures = 0;
+    entry.score = Math.min(MAX_SCORE, entry.score + SUCCESS_REWARD);
+  }
+
+  private recordFailure(entry: PoolEntry, message: string) {
+    entry.failures++;
+    entry.consecutiveFailures++;
+    entry.score = Math.max(0, entry.score - FAILURE_PENALTY);
+    entry.lastError = message;
+    entry.lastErrorAt = new Date().toISOString();
+  }
+
+  private isHealthy(entry: PoolEntry): boolean {
+    return entry.score >= HEALTHY_SCORE && entry.consecutiveFailures < MAX_CONSECUTIVE_FAILURES;
+  }
+
+  /**
+   * Best candidate not in `exclude`: healthy first, then by score
+   */
+  private pickBest(exclude: Set<number>): number | null {
+    let bestIndex: number | null = null;
+    this.entries.forEach((entry, index) => {
+      if (exclude.has(index)) {
+        return;
+      }
+      if (bestIndex === null) {
+        bestIndex = index;
+        return;
+      }
+      const best = this.entries[bestIndex];
+      const betterHealth = this.isHealthy(entry) && !this.isHealthy(best);
+      const sameHealth = this.isHealthy(entry) === this.isHealthy(best);
+      if (betterHealth || (sameHealth && entry.score > best.score)) {
+        bestIndex = index;
+      }
+    });
+    return bestIndex;
+  }
+
+  private async switchTo(index: number, reason: string) {
+    if (index === this.activeIndex) {
+      return;
+    }
+    const from = this.entries[this.activeIndex];
+    const to = this.entries[index];
+    this.activeIndex = index;
+
+    this.logger.warn(
+      `🔀 RPC failover: ${RpcProviderPool.redact(from.url)} → ${RpcProviderPool.redact(to.url)} (${reason})`,
+    );
+
+    if (this.onFailover) {
+      await this.onFailover(to.provider, to.url);
+    }
+  }
+
+  /**
+   * Hide API keys embedded in provider URLs
+   */
+  private static redact(url: string): string {
+    return url
+      .replace(/\/v\d+\/[^/]+$/, '/v*/***')
+      .replace(/([?&](api[-_]?key|key)=)[^&]+/i, '$1***');
+  }
+}
@@ -0,0 +1,167 @@
+import { Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { DataSource } from 'typeorm';
+import {
+  RevokedCredentialEntity,
+  RevokedCredentialRepository,
+  SyncStateEntity,
+  SyncStateRepository,
+} from '@infra/database';
+import { BlockchainListenerService } from './blockchain-listener.service';
+import {
+  RevocationSnapshot,
+  SnapshotService,
+  SnapshotValidationError,
+  SnapshotValidationIssue,
+} from './snapshot.service';
+
+const CHAIN_ID = 11155111; // sepolia
+const CONTRACT = '0x' + 'cd'.repeat(20);
+const LOCK_ID = '1';
+
+interface Device {
+  dataSource: DataSource;
+  revocations: RevokedCredentialRepository;
+  syncState: SyncStateRepository;
+  service: SnapshotService;
+}
+
+async function createDevice(): Promise<Device> {
+  const dataSource = new DataSource({
+    type: 'sqlite',
+    database: ':memory:',
+    entities: [RevokedCredentialEntity, SyncStateEntity],
+    synchronize: true,
+  });
+  await dataSource.initialize();
+
+  const revocations = new RevokedCredentialRepository(
+    dataSource.getRepository(RevokedCredentialEntity),
+  );
+  const syncState = new SyncStateRepository(dataSource.getRepository(SyncStateEntity));
+  const listener = {
+    getStatus: () => ({
+      isListening: false,
+      lockIds: [LOCK_ID],
+      chainId: CHAIN_ID,
+      network: 'sepolia',
+      contractAddress: CONTRACT,
+    }),
+  } as unknown as BlockchainListenerService;
+
+  return {
+    dataSource,
+    revocations,
+    syncState,
+    service: new SnapshotService(listener, syncState, revocations),
+  };
+}
+
+describe('SnapshotService', () => {
+  const env = { ...process.env };
+  const signer = new ethers.Wallet(ethers.utils.randomBytes(32));
+  let source: Device;
+  let target: Device;
+  let snapshot: RevocationSnapshot;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(async () => {
+    Object.assign(process.env, {
+      NETWORK: 'sepolia',
+      SEPOLIA_CONTRACT_ADDRESS: CONTRACT,
+      SNAPSHOT_SIGNING_KEY: signer.privateKey,
+      SNAPSHOT_TRUSTED_SIGNERS: signer.address,
+    });
+
+    source = await createDevice();
+    target = await createDevice();
+
+    await source.syncState.getOrCreate(CHAIN_ID, 'sepolia', CONTRACT, LOCK_ID);
+    await source.syncState.commitChunk(
+      CHAIN_ID,
+      CONTRACT,
+      [LOCK_ID],
+      200,
+      [150, 180].map((blockNumber) => {
+        const vcHash = ethers.utils.hexZeroPad(ethers.utils.hexlify(blockNumber), 32);
+        return {
+          id: RevokedCredentialRepository.revocationId(LOCK_ID, vcHash),
+          lockId: LOCK_ID,
+          vcHash,
+          blockNumber,
+          blockHash: ethers.utils.hexZeroPad('0x01', 32),
+          transactionHash: null,
+          status: 'confirmed' as const,
+          revokedAt: new Date('2024-05-01T00:00:00Z'),
+          detectedAt: null,
+        };
+      }),
+    );
+    snapshot = await source.service.exportSnapshot(LOCK_ID);
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    await source.dataSource.destroy();
+    await target.dataSource.destroy();
+  });
+
+  const importIssues = async (tampered: RevocationSnapshot): Promise<SnapshotValidationIssue[]> => {
+    const error = await target.service.importSnapshot(tampered, LOCK_ID).catch((e) => e);
+    expect(error).toBeInstanceOf(SnapshotValidationError);
+    return (error as SnapshotValidationError).errors;
+  };
+
+  it('imports a snapshot signed by a trusted signer', async () => {
+    const result = await target.service.importSnapshot(snapshot, LOCK_ID);
+
+    expect(result).toMatchObject({ inserted: 2, lastSyncedBlock: 200 });
+    expect(await target.revocations.countByLock(LOCK_ID)).toBe(2);
+    expect(await target.syncState.getLastSyncedBlock(CHAIN_ID, CONTRACT, LOCK_ID)).toBe(200);
+  });
+
+  it.each([
+    [
+      'a removed revocation',
+      (s: RevocationSnapshot) => ({ ...s, revocations: s.revocations.slice(1) }),
+    ],
+    ['a raised lastSyncedBlock', (s: RevocationSnapshot) => ({ ...s, lastSyncedBlock: 10_000 })],
+    [
+      'a changed block number',
+      (s: RevocationSnapshot) => ({
+        ...s,
+        revocations: s.revocations.map((entry) => ({
+          ...entry,
+          blockNumber: entry.blockNumber + 1,
+        })),
+      }),
+    ],
+    ['another lock id', (s: RevocationSnapshot) => ({ ...s, lockId: '2' })],
+  ])('rejects a snapshot with %s and writes nothing', async (_, tamper) => {
+    const issues = await importIssues(tamper(snapshot));
+
+    expect(issues).toContainEqual(expect.objectContaining({ code: 'INVALID_SIGNATURE' }));
+    expect(await target.revocations.countAll()).toBe(0);
+    expect(await target.syncState.getLastSyncedBlock(CHAIN_ID, CONTRACT, LOCK_ID)).toBeNull();
+  });
+
+  it('rejects a snapshot that claims a trusted signer it was not signed by', async () => {
+    process.env.SNAPSHOT_SIGNING_KEY = ethers.utils.hexlify(ethers.utils.randomBytes(32));
+    const forged = await source.service.exportSnapshot(LOCK_ID);
+
+    const issues = await importIssues({ ...forged, signer: signer.address.toLowerCase() });
+    expect(issues).toContainEqual(expect.objectContaining({ code: 'INVALID_SIGNATURE' }));
+  });
+
+  it('rejects a snapshot by an untrusted signer', async () => {
+    process.env.SNAPSHOT_SIGNING_KEY = ethers.utils.hexlify(ethers.utils.randomBytes(32));
+    const untrusted = await source.service.exportSnapshot(LOCK_ID);
+
+    const issues = await importIssues(untrusted);
+    expect(issues).toEqual([expect.objectContaining({ code: 'UNTRUSTED_SIGNER' })]);
+    expect(await target.revocations.countAll()).toBe(0);
+  });
+});
@@ -0,0 +1,389 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { NetworkRegistry } from '@infra/config';
+import { RevokedCredentialRepository, SyncStateRepository } from '@infra/database';
+import { BlockchainListenerService } from './blockchain-listener.service';
+
+/**
+ * A confirmed revocation as stored in a snapshot
+ */
+export interface RevocationSnapshotEntry {
+  vcHash: string;
+  blockNumber: number;
+  blockHash: string | null;
+  transactionHash: string | null;
+  revokedAt: string; // block timestamp (ISO)
+  detectedAt: string | null;
+}
+
+/**
+ * Signed export of one lock's revocation cache up to lastSyncedBlock
+ * A new device imports it and only syncs the blocks after lastSyncedBlock
+ */
+export interface RevocationSnapshot {
+  version: number;
+  chainId: number;
+  network: string;
+  contractAddress: string;
+  lockId: string;
+  lastSyncedBlock: number;
+  createdAt: string;
+  revocations: RevocationSnapshotEntry[];
+  signer: string;
+  signature: string;
+}
+
+export interface SnapshotValidationIssue {
+  field: string;
+  code:
+    | 'INVALID_FORMAT'
+    | 'INVALID_SIGNATURE'
+    | 'UNTRUSTED_SIGNER'
+    | 'CHAIN_MISMATCH'
+    | 'CONTRACT_MISMATCH'
+    | 'LOCK_MISMATCH'
+    | 'LISTENER_RUNNING';
+  message: string;
+}
+
+export interface SnapshotImportResult {
+  dryRun: boolean;
+  chainId: number;
+  contractAddress: string;
+  lockId: string;
+  signer: string;
+  revocations: number;
+  inserted: number; // would be inserted when dryRun
+  previousLastSyncedBlock: number;
+  lastSyncedBlock: number;
+}
+
+/**
+ * Thrown by importSnapshot() when the snapshot is not trusted or not for this deployment
+ */
+export class SnapshotValidationError extends Error {
+  constructor(readonly errors: SnapshotValidationIssue[]) {
+    super(`Invalid snapshot: ${errors.map((issue) => issue.message).join('; ')}`);
+    this.name = 'SnapshotValidationError';
+  }
+}
+
+/**
+ * Export / import of signed revocation snapshots, so a new device does not have to scan
+ * from startBlock on rate-limited providers
+ * - exports are signed with SNAPSHOT_SIGNING_KEY
+ * - imports must be signed by one of SNAPSHOT_TRUSTED_SIGNERS and match the configured
+ *   chain id, contract address and lock id; nothing is written otherwise
+ */
+@Injectable()
+export class SnapshotService {
+  private readonly logger = new Logger(SnapshotService.name);
+
+  static readonly VERSION = 1;
+
+  constructor(
+    private readonly blockchainListener: BlockchainListenerService,
+    private readonly syncStateRepository: SyncStateRepository,
+    private readonly revokedCredentialRepository: RevokedCredentialRepository,
+  ) {}
+
+  /**
+   * Export every confirmed revocation of a lock up to the persisted sync checkpoint
+   * @param lockId Lock to export; may be omitted when the gateway manages a single lock
+   * @throws Error if the listener is not initialized, the lock is not managed by this
+   *   gateway or SNAPSHOT_SIGNING_KEY is not set
+   */
+  async exportSnapshot(lockId?: string): Promise<RevocationSnapshot> {
+    const status = this.blockchainListener.getStatus();
+    if (status.lockIds.length === 0 || status.chainId === null) {
+      throw new Error('Lock not configured. Please call POST /api/v1/config/init first.');
+    }
+    if (!lockId && status.lockIds.length > 1) {
+      throw new Error(`lockId is required (locks: ${status.lockIds.join(', ')})`);
+    }
+    const snapshotLockId = lockId ?? status.lockIds[0];
+    if (!status.lockIds.includes(snapshotLockId)) {
+      throw new Error(`Lock ${snapshotLockId} is not managed by this gateway`);
+    }
+
+    const signingKey = process.env.SNAPSHOT_SIGNING_KEY;
+    if (!signingKey) {
+      throw new Error('SNAPSHOT_SIGNING_KEY is not set');
+    }
+    const wallet = new ethers.Wallet(signingKey);
+
+    // Checkpoint first: anything committed afterwards is above it and filtered out below
+    const lastSyncedBlock =
+      (await this.syncStateRepository.getLastSyncedBlock(
+        status.chainId,
+        status.contractAddress,
+        snapshotLockId,
+      )) ?? 0;
+
+    const revocations: RevocationSnapshotEntry[] = (
+      await this.revokedCredentialRepository.findByLock(snapshotLockId)
+    )
+      .filter(
+        (revocation) =>
+          revocation.status === 'confirmed' && revocation.blockNumber <= lastSyncedBlock,
+      )
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.vcHash.localeCompare(b.vcHash))
+      .map((revocation) => ({
+        vcHash: revocation.vcHash,
+        blockNumber: revocation.blockNumber,
+        blockHash: revocation.blockHash,
+        transactionHash: revocation.transactionHash,
+        revokedAt: revocation.revokedAt.toISOString(),
+        detectedAt: revocation.detectedAt ? revocation.detectedAt.toISOString() : null,
+      }));
+
+    const snapshot: RevocationSnapshot = {
+      version: SnapshotService.VERSION,
+      chainId: status.chainId,
+      network: status.network,
+      contractAddress: status.contractAddress.toLowerCase(),
+      lockId: snapshotLockId,
+      lastSyncedBlock,
+      createdAt: new Date().toISOString(),
+      revocations,
+      signer: wallet.address.toLowerCase(),
+      signature: '',
+    };
+    snapshot.signature = await wallet.signMessage(
+      ethers.utils.arrayify(SnapshotService.digest(snapshot)),
+    );
+
+    this.logger.log(
+      `📦 Snapshot exported for Lock ${snapshotLockId}: ${revocations.length} revocations up to block ${lastSyncedBlock}, signed by ${snapshot.signer}`,
+    );
+    return snapshot;
+  }
+
+  /**
+   * Verify a snapshot and load it into revoked_credentials / sync_state
+   * Must run before the listener starts syncing the lock (i.e. before POST /api/v1/config/init
+   * or POST /api/v1/config/locks for it; once a lock is configured, the REST endpoint requires
+   * a gateway admin credential)
+   * @param lockId Lock the device is being provisioned for
+   * @throws SnapshotValidationError if any check fails
+   */
+  async importSnapshot(
+    snapshot: RevocationSnapshot,
+    lockId: string,
+    options: { dryRun?: boolean } = {},
+  ): Promise<SnapshotImportResult> {
+    const errors = this.validate(snapshot, lockId);
+    if (errors.length > 0) {
+      throw new SnapshotValidationError(errors);
+    }
+
+    const { network } = NetworkRegistry.resolve(process.env.NETWORK || 'sepolia');
+    const snapshotLockId = String(snapshot.lockId);
+    const previousLastSyncedBlock =
+      (await this.syncStateRepository.getLastSyncedBlock(
+        network.chainId,
+        network.contractAddress,
+        snapshotLockId,
+      )) ?? 0;
+    // Never move an existing checkpoint backwards
+    const lastSyncedBlock = Math.max(previousLastSyncedBlock, snapshot.lastSyncedBlock);
+
+    const stored = new Set(
+      (await this.revokedCredentialRepository.findByLock(snapshotLockId)).map(
+        (revocation) => revocation.vcHash,
+      ),
+    );
+    let inserted = snapshot.revocations.filter((entry) => !stored.has(entry.vcHash)).length;
+
+    if (!options.dryRun) {
+      await this.syncStateRepository.getOrCreate(
+        network.chainId,
+        network.name,
+        network.contractAddress,
+        snapshotLockId,
+      );
+      // Revocations and the checkpoint are committed together
+      inserted = await this.syncStateRepository.commitChunk(
+        network.chainId,
+        network.contractAddress,
+        [snapshotLockId],
+        lastSyncedBlock,
+        snapshot.revocations.map((entry) => ({
+          id: RevokedCredentialRepository.revocationId(snapshotLockId, entry.vcHash),
+          lockId: snapshotLockId,
+          vcHash: entry.vcHash,
+          blockNumber: entry.blockNumber,
+          blockHash: entry.blockHash,
+          transactionHash: entry.transactionHash,
+          status: 'confirmed' as const,
+          revokedAt: new Date(entry.revokedAt),
+          detectedAt: entry.detectedAt ? new Date(entry.detectedAt) : null,
+        })),
+      );
+      // The snapshot's data was complete when it was exported (offline staleness budget)
+      await this.syncStateRepository.markSyncCompleted(
+        network.chainId,
+        network.contractAddress,
+        [snapshotLockId],
+        new Date(snapshot.createdAt),
+      );
+    }
+
+    this.logger.log(
+      `📦 Snapshot ${options.dryRun ? 'verified (dry run)' : 'imported'}: ` +
+        `${inserted} of ${snapshot.revocations.length} revocations new, ` +
+        `sync resumes after block ${lastSyncedBlock} (was ${previousLastSyncedBlock})`,
+    );
+
+    return {
+      dryRun: !!options.dryRun,
+      chainId: snapshot.chainId,
+      contractAddress: snapshot.contractAddress,
+      lockId: snapshotLockId,
+      signer: snapshot.signer,
+      revocations: snapshot.revocations.length,
+      inserted,
+      previousLastSyncedBlock,
+      lastSyncedBlock,
+    };
+  }
+
+  private validate(snapshot: RevocationSnapshot, lockId: string): SnapshotValidationIssue[] {
+    const errors: SnapshotValidationIssue[] = [];
+
+    if (!snapshot || snapshot.version !== SnapshotService.VERSION) {
+      errors.push({
+        field: 'version',
+        code: 'INVALID_FORMAT',
+        message: `Unsupported snapshot version (expected ${SnapshotService.VERSION})`,
+      });
+      return errors;
+    }
+    if (!Number.isInteger(snapshot.lastSyncedBlock) || snapshot.lastSyncedBlock < 0) {
+      errors.push({
+        field: 'lastSyncedBlock',
+        code: 'INVALID_FORMAT',
+        message: 'lastSyncedBlock must be a non-negative integer',
+      });
+    }
+    if (!Array.isArray(snapshot.revocations)) {
+      errors.push({
+        field: 'revocations',
+        code: 'INVALID_FORMAT',
+        message: 'revocations must be an array',
+      });
+      return errors;
+    }
+    const invalidIndex = snapshot.revocations.findIndex(
+      (entry) =>
+        !entry ||
+        !ethers.utils.isHexString(entry.vcHash, 32) ||
+        !Number.isInteger(entry.blockNumber) ||
+        entry.blockNumber > snapshot.lastSyncedBlock ||
+        isNaN(Date.parse(entry.revokedAt)),
+    );
+    if (invalidIndex !== -1) {
+      errors.push({
+        field: `revocations[${invalidIndex}]`,
+        code: 'INVALID_FORMAT',
+        message: `Invalid revocation entry at index ${invalidIndex}`,
+      });
+    }
+    if (errors.length > 0) {
+      return errors;
+    }
+
+    // Signature over the whole snapshot, by a trusted key
+    const trustedSigners = (process.env.SNAPSHOT_TRUSTED_SIGNERS || '')
+      .split(',')
+      .map((address) => address.trim().toLowerCase())
+      .filter((address) => address.length > 0);
+    let recovered: string | null = null;
+    try {
+      recovered = ethers.utils
+        .verifyMessage(ethers.utils.arrayify(SnapshotService.digest(snapshot)), snapshot.signature)
+        .toLowerCase();
+    } catch (error) {
+      errors.push({
+        field: 'signature',
+        code: 'INVALID_SIGNATURE',
+        message: `Signature could not be verified: ${error.message}`,
+      });
+    }
+    if (recovered && recovered !== snapshot.signer?.toLowerCase()) {
+      errors.push({
+        field: 'signature',
+        code: 'INVALID_SIGNATURE',
+        message: `Signature was made by ${recovered}, not the declared signer ${snapshot.signer}`,
+      });
+    } else if (recovered && !trustedSigners.includes(recovered)) {
+      errors.push({
+        field: 'signer',
+        code: 'UNTRUSTED_SIGNER',
+        message:
+          trustedSigners.length === 0
+            ? 'SNAPSHOT_TRUSTED_SIGNERS is not set - no snapshot can be trusted'
+            : `Signer ${recovered} is not in SNAPSHOT_TRUSTED_SIGNERS`,
+      });
+    }
+
+    // Deployment the snapshot was taken from
+    const { network } = NetworkRegistry.resolve(process.env.NETWORK || 'sepolia');
+    if (snapshot.chainId !== network.chainId) {
+      errors.push({
+        field: 'chainId',
+        code: 'CHAIN_MISMATCH',
+        message: `Snapshot is for chainId ${snapshot.chainId}, but NETWORK=${network.name} is chainId ${network.chainId}`,
+      });
+    }
+    if (snapshot.contractAddress?.toLowerCase() !== network.contractAddress.toLowerCase()) {
+      errors.push({
+        field: 'contractAddress',
+        code: 'CONTRACT_MISMATCH',
+        message: `Snapshot is for contract ${snapshot.contractAddress}, but ${network.contractAddress} is configured`,
+      });
+    }
+    if (String(snapshot.lockId) !== String(lockId)) {
+      errors.push({
+        field: 'lockId',
+        code: 'LOCK_MISMATCH',
+        message: `Snapshot is for lock ${snapshot.lockId}, not lock ${lockId}`,
+      });
+    }
+
+    const status = this.blockchainListener.getStatus();
+    if (status.isListening && status.lockIds.includes(String(snapshot.lockId))) {
+      errors.push({
+        field: 'lockId',
+        code: 'LISTENER_RUNNING',
+        message: 'Snapshots can only be imported before the listener starts syncing the lock',
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Hash of every signed field, independent of JSON key order
+   */
+  private static digest(snapshot: RevocationSnapshot): string {
+    const payload = JSON.stringify([
+      snapshot.version,
+      snapshot.chainId,
+      snapshot.network,
+      snapshot.contractAddress.toLowerCase(),
+      String(snapshot.lockId),
+      snapshot.lastSyncedBlock,
+      snapshot.createdAt,
+      snapshot.revocations.map((entry) => [
+        entry.vcHash,
+        entry.blockNumber,
+        entry.blockHash,
+        entry.transactionHash,
+        entry.revokedAt,
+        entry.detectedAt,
+      ]),
+    ]);
+    return ethers.utils.keccak256(ethers.utils.toUtf8Bytes(payload));
+  }
+}
@@ -1,5 +1,7 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule as NestConfigModule } from '@nestjs/config';
+import { CronTime } from 'cron';
+import { NetworkRegistry } from './network-registry';
 
 /**
  * Configuration interface matching .env structure
@@ -13,26 +15,87 @@ export interface AppConfig {
   // Lock Configuration
   LOCK_ID: number;
 
-  // Network Selection
-  NETWORK: 'sepolia' | 'mainnet';
+  // Network Selection (registry name or chainId)
+  NETWORK: string;
+  NETWORKS_FILE?: string;
 
   // Sepolia Configuration
   SEPOLIA_RPC_URL?: string;
+  SEPOLIA_RPC_URLS?: string[];
   SEPOLIA_CONTRACT_ADDRESS?: string;
   SEPOLIA_START_BLOCK?: number;
 
   // Mainnet Configuration
   MAINNET_RPC_URL?: string;
+  MAINNET_RPC_URLS?: string[];
   MAINNET_CONTRACT_ADDRESS?: string;
   MAINNET_START_BLOCK?: number;
 
   // Blockchain Settings
   POLL_INTERVAL: number;
   CONFIRMATIONS: number;
+  REORG_CHECKPOINT_DEPTH: number;
+  RPC_QUORUM: number;
+  LOG_VERIFICATION: 'off' | 'receipts';
+  RPC_HEALTH_CHECK_INTERVAL_MS: number;
+  RPC_REQUEST_TIMEOUT_MS: number;
+  WS_HEARTBEAT_INTERVAL_MS: number;
+  WS_HEARTBEAT_TIMEOUT_MS: number;
+  WS_RECONNECT_BASE_DELAY_MS: number;
+  WS_RECONNECT_MAX_DELAY_MS: number;
+  RPC_MAX_REQUESTS_PER_SECOND: number;
+  RPC_DAILY_BUDGET: number;
+  RPC_BUDGET_RESERVE_PERCENT: number;
+  RPC_RATE_LIMIT_BACKOFF_MS: number;
+  RPC_RATE_LIMIT_MAX_BACKOFF_MS: number;
+  RPC_POLLING_INTERVAL_MS: number;
+  PENDING_REVOCATION_POLICY: 'deny' | 'allow';
+  OWNERSHIP_TRANSFER_GRACE_MINUTES: number;
+  KEY_ROTATION_OVERLAP_HOURS: number;
+  LOCK_TIME_ZONE: string;
+  HOLIDAY_CALENDAR_DIR?: string;
+  HOLDER_BINDING_POLICY: 'if-bound' | 'required';
+  HOLDER_CHALLENGE_TTL_SECONDS: number;
+  PAUSED_ACCESS_POLICY: 'deny-except-admin' | 'issued-before-pause' | 'deny' | 'allow';
+
+  // Live revocation fallback
+  REVOCATION_STALE_BLOCKS: number;
+  REVOCATION_STALE_SECONDS: number;
+  LIVE_REVOCATION_TIMEOUT_MS: number;
+  LIVE_REVOCATION_CACHE_TTL_SECONDS: number;
+  LIVE_REVOCATION_FAILURE_POLICY: 'fail-closed' | 'fail-open';
+  REVOCATION_STALENESS_BUDGET_HOURS: Record<string, number>;
+  OFFLINE_RETRY_INTERVAL_SECONDS: number;
+
+  // Reconciliation
+  RECONCILIATION_INTERVAL_MINUTES: number;
+  RECONCILIATION_BATCH_SIZE: number;
+  RECONCILIATION_CRON: string | null;
+  RECONCILIATION_RESCAN_BLOCKS: number;
+
+  // Chain event inbox
+  EVENT_INBOX_POLL_INTERVAL_MS: number;
+  EVENT_INBOX_MAX_ATTEMPTS: number;
+  EVENT_INBOX_RETRY_BASE_DELAY_MS: number;
+  EVENT_INBOX_RETRY_MAX_DELAY_MS: number;
+  EVENT_INBOX_RETENTION_HOURS: number;
 
   // Hybrid Sync
   BATCH_SYNC_INTERVAL_MINUTES: number;
   BATCH_SYNC_SIZE: number;
+  BATCH_SYNC_CRON: string | null;
+  SYNC_PROGRESS_INTERVAL_SECONDS: number;
+  SYNC_STALL_SECONDS: number;
+
+  // eth_getLogs scanner
+  LOGS_MAX_RANGE?: number;
+  LOGS_GROW_AFTER_SUCCESSES: number;
+  LOGS_MAX_RETRIES: number;
+  LOGS_RETRY_BASE_DELAY_MS: number;
+
+  // Revocation snapshots
+  SNAPSHOT_SIGNING_KEY?: string;
+  SNAPSHOT_TRUSTED_SIGNERS: string[];
 
   // Database
   DATABASE_PATH: string;
@@ -59,8 +122,11 @@ export interface AppConfig {
 
   // Computed properties (network-specific)
   ETHEREUM_RPC_URL: string;
+  ETHEREUM_RPC_URLS: string[];
   CONTRACT_ADDRESS: string;
   START_BLOCK: number;
+  CHAIN_ID: number;
+  BLOCK_TIME_SECONDS: number;
 }
 
 @Module({
@@ -82,47 +148,24 @@ export class ConfigModule {
     const PORT = parseInt(process.env.PORT || '3000', 10);
     const NODE_ENV = process.env.NODE_ENV || 'development';
     const LOCK_ID = parseInt(process.env.LOCK_ID || '1', 10);
-    const NETWORK = network as 'sepolia' | 'mainnet';
+    const NETWORK = network;
 
     // Validate LOCK_ID
     if (isNaN(LOCK_ID) || LOCK_ID < 0) {
       errors.push('LOCK_ID must be a valid positive number');
     }
 
-    // Validate network
-    if (!['sepolia', 'mainnet'].includes(network)) {
-      errors.push('NETWORK must be either "sepolia" or "mainnet"');
-    }
+    // Resolve network from the registry (built-ins, NETWORKS_FILE, <NAME>_* env vars)
+    const { network: networkDefinition, errors: networkErrors } = NetworkRegistry.resolve(network);
+    errors.push(...networkErrors);
 
-    // Network-specific RPC URL and Contract Address
-    let ETHEREUM_RPC_URL: string;
-    let CONTRACT_ADDRESS: string;
-    let START_BLOCK: number;
+    const ETHEREUM_RPC_URLS = networkDefinition.rpcUrls;
+    const CONTRACT_ADDRESS = networkDefinition.contractAddress;
+    const START_BLOCK = networkDefinition.startBlock;
+    const CHAIN_ID = networkDefinition.chainId;
+    const BLOCK_TIME_SECONDS = networkDefinition.blockTimeSeconds;
 
-    if (network === 'sepolia') {
-      ETHEREUM_RPC_URL = process.env.SEPOLIA_RPC_URL || '';
-      CONTRACT_ADDRESS = process.env.SEPOLIA_CONTRACT_ADDRESS || '';
-      START_BLOCK = parseInt(process.env.SEPOLIA_START_BLOCK || '0', 10);
-
-      if (!ETHEREUM_RPC_URL) {
-        errors.push('SEPOLIA_RPC_URL is required when NETWORK=sepolia');
-      }
-      if (!CONTRACT_ADDRESS) {
-        errors.push('SEPOLIA_CONTRACT_ADDRESS is required when NETWORK=sepolia');
-      }
-    } else {
-      // mainnet
-      ETHEREUM_RPC_URL = process.env.MAINNET_RPC_URL || '';
-      CONTRACT_ADDRESS = process.env.MAINNET_CONTRACT_ADDRESS || '';
-      START_BLOCK = parseInt(process.env.MAINNET_START_BLOCK || '0', 10);
-
-      if (!ETHEREUM_RPC_URL) {
-        errors.push('MAINNET_RPC_URL is required when NETWORK=mainnet');
-      }
-      if (!CONTRACT_ADDRESS) {
-        errors.push('MAINNET_CONTRACT_ADDRESS is required when NETWORK=mainnet');
-      }
-    }
+    const ETHEREUM_RPC_URL = ETHEREUM_RPC_URLS[0] || '';
 
     // Validate contract address format
     if (CONTRACT_ADDRESS && !CONTRACT_ADDRESS.match(/^0x[a-fA-F0-9]{40}$/)) {
@@ -131,7 +174,171 @@ export class ConfigModule {
 
     // Blockchain settings
     const POLL_INTERVAL = parseInt(process.env.POLL_INTERVAL || '12000', 10);
-    const CONFIRMATIONS = parseInt(process.env.CONFIRMATIONS || '3', 10);
+    const CONFIRMATIONS = process.env.CONFIRMATIONS
+      ? parseInt(process.env.CONFIRMATIONS, 10)
+      : networkDefinition.confirmations;
+    const REORG_CHECKPOINT_DEPTH = parseInt(process.env.REORG_CHECKPOINT_DEPTH || '64', 10);
+    const PENDING_REVOCATION_POLICY = (process.env.PENDING_REVOCATION_POLICY || 'deny') as
+      'deny' | 'allow';
+
+    if (isNaN(CONFIRMATIONS) || CONFIRMATIONS < 0) {
+      errors.push('CONFIRMATIONS must be zero or a positive number');
+    }
+
+    // RPC failover / quorum
+    const RPC_QUORUM = parseInt(process.env.RPC_QUORUM || '1', 10);
+    const RPC_HEALTH_CHECK_INTERVAL_MS = parseInt(
+      process.env.RPC_HEALTH_CHECK_INTERVAL_MS || '60000',
+      10,
+    );
+    const RPC_REQUEST_TIMEOUT_MS = parseInt(process.env.RPC_REQUEST_TIMEOUT_MS || '30000', 10);
+
+    const LOG_VERIFICATION = (process.env.LOG_VERIFICATION || 'off') as 'off' | 'receipts';
+    if (!['off', 'receipts'].includes(LOG_VERIFICATION)) {
+      errors.push('LOG_VERIFICATION must be either "off" or "receipts"');
+    }
+
+    if (isNaN(RPC_QUORUM) || RPC_QUORUM < 1) {
+      errors.push('RPC_QUORUM must be at least 1');
+    } else if (RPC_QUORUM > ETHEREUM_RPC_URLS.length && ETHEREUM_RPC_URLS.length > 0) {
+      errors.push(
+        `RPC_QUORUM (${RPC_QUORUM}) cannot exceed the number of RPC URLs (${ETHEREUM_RPC_URLS.length})`,
+      );
+    }
+
+    if (isNaN(RPC_HEALTH_CHECK_INTERVAL_MS) || RPC_HEALTH_CHECK_INTERVAL_MS < 1000) {
+      errors.push('RPC_HEALTH_CHECK_INTERVAL_MS must be at least 1000');
+    }
+
+    if (isNaN(RPC_REQUEST_TIMEOUT_MS) || RPC_REQUEST_TIMEOUT_MS < 1000) {
+      errors.push('RPC_REQUEST_TIMEOUT_MS must be at least 1000');
+    }
+
+    // WebSocket heartbeat / reconnect
+    const WS_HEARTBEAT_INTERVAL_MS = parseInt(process.env.WS_HEARTBEAT_INTERVAL_MS || '30000', 10);
+    const WS_HEARTBEAT_TIMEOUT_MS = parseInt(process.env.WS_HEARTBEAT_TIMEOUT_MS || '10000', 10);
+    const WS_RECONNECT_BASE_DELAY_MS = parseInt(
+      process.env.WS_RECONNECT_BASE_DELAY_MS || '1000',
+      10,
+    );
+    const WS_RECONNECT_MAX_DELAY_MS = parseInt(
+      process.env.WS_RECONNECT_MAX_DELAY_MS || '60000',
+      10,
+    );
+
+    if (WS_HEARTBEAT_TIMEOUT_MS >= WS_HEARTBEAT_INTERVAL_MS) {
+      errors.push('WS_HEARTBEAT_TIMEOUT_MS must be shorter than WS_HEARTBEAT_INTERVAL_MS');
+    }
+
+    if (WS_RECONNECT_BASE_DELAY_MS < 1 || WS_RECONNECT_MAX_DELAY_MS < WS_RECONNECT_BASE_DELAY_MS) {
+      errors.push('WS_RECONNECT_MAX_DELAY_MS must be >= WS_RECONNECT_BASE_DELAY_MS (> 0)');
+    }
+
+    // RPC governor (provider quotas)
+    const RPC_MAX_REQUESTS_PER_SECOND = parseInt(
+      process.env.RPC_MAX_REQUESTS_PER_SECOND || '0',
+      10,
+    );
+    const RPC_DAILY_BUDGET = parseInt(process.env.RPC_DAILY_BUDGET || '0', 10);
+    const RPC_BUDGET_RESERVE_PERCENT = parseInt(process.env.RPC_BUDGET_RESERVE_PERCENT || '10', 10);
+    const RPC_RATE_LIMIT_BACKOFF_MS = parseInt(process.env.RPC_RATE_LIMIT_BACKOFF_MS || '1000', 10);
+    const RPC_RATE_LIMIT_MAX_BACKOFF_MS = parseInt(
+      process.env.RPC_RATE_LIMIT_MAX_BACKOFF_MS || '60000',
+      10,
+    );
+    const RPC_POLLING_INTERVAL_MS = parseInt(process.env.RPC_POLLING_INTERVAL_MS || '4000', 10);
+
+    if (isNaN(RPC_MAX_REQUESTS_PER_SECOND) || RPC_MAX_REQUESTS_PER_SECOND < 0) {
+      errors.push('RPC_MAX_REQUESTS_PER_SECOND must be zero (unlimited) or a positive number');
+    }
+
+    if (isNaN(RPC_DAILY_BUDGET) || RPC_DAILY_BUDGET < 0) {
+      errors.push('RPC_DAILY_BUDGET must be zero (unlimited) or a positive number');
+    }
+
+    if (
+      isNaN(RPC_BUDGET_RESERVE_PERCENT) ||
+      RPC_BUDGET_RESERVE_PERCENT < 0 ||
+      RPC_BUDGET_RESERVE_PERCENT > 100
+    ) {
+      errors.push('RPC_BUDGET_RESERVE_PERCENT must be between 0 and 100');
+    }
+
+    if (
+      RPC_RATE_LIMIT_BACKOFF_MS < 1 ||
+      RPC_RATE_LIMIT_MAX_BACKOFF_MS < RPC_RATE_LIMIT_BACKOFF_MS
+    ) {
+      errors.push('RPC_RATE_LIMIT_MAX_BACKOFF_MS must be >= RPC_RATE_LIMIT_BACKOFF_MS (> 0)');
+    }
+
+    if (isNaN(RPC_POLLING_INTERVAL_MS) || RPC_POLLING_INTERVAL_MS < 100) {
+      errors.push('RPC_POLLING_INTERVAL_MS must be at least 100');
+    }
+
+    if (isNaN(REORG_CHECKPOINT_DEPTH) || REORG_CHECKPOINT_DEPTH < 1) {
+      errors.push('REORG_CHECKPOINT_DEPTH must be at least 1');
+    }
+
+    if (!['deny', 'allow'].includes(PENDING_REVOCATION_POLICY)) {
+      errors.push('PENDING_REVOCATION_POLICY must be either "deny" or "allow"');
+    }
+
+    const PAUSED_ACCESS_POLICY = (process.env.PAUSED_ACCESS_POLICY || 'deny-except-admin') as
+      'deny-except-admin' | 'issued-before-pause' | 'deny' | 'allow';
+
+    if (
+      !['deny-except-admin', 'issued-before-pause', 'deny', 'allow'].includes(PAUSED_ACCESS_POLICY)
+    ) {
+      errors.push(
+        'PAUSED_ACCESS_POLICY must be one of "deny-except-admin", "issued-before-pause", "deny", "allow"',
+      );
+    }
+
+    // Lock ownership transfers
+    const OWNERSHIP_TRANSFER_GRACE_MINUTES = parseInt(
+      process.env.OWNERSHIP_TRANSFER_GRACE_MINUTES || '0',
+      10,
+    );
+
+    if (isNaN(OWNERSHIP_TRANSFER_GRACE_MINUTES) || OWNERSHIP_TRANSFER_GRACE_MINUTES < 0) {
+      errors.push('OWNERSHIP_TRANSFER_GRACE_MINUTES must be zero or a positive number');
+    }
+
+    // Lock key rotation
+    const KEY_ROTATION_OVERLAP_HOURS = parseInt(
+      process.env.KEY_ROTATION_OVERLAP_HOURS || '168',
+      10,
+    );
+
+    if (isNaN(KEY_ROTATION_OVERLAP_HOURS) || KEY_ROTATION_OVERLAP_HOURS < 0) {
+      errors.push('KEY_ROTATION_OVERLAP_HOURS must be zero or a positive number');
+    }
+
+    // Schedule-based access (locks without their own time zone)
+    const LOCK_TIME_ZONE = process.env.LOCK_TIME_ZONE || 'UTC';
+
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: LOCK_TIME_ZONE });
+    } catch {
+      errors.push('LOCK_TIME_ZONE must be an IANA time zone (e.g. "Europe/Vienna")');
+    }
+
+    // Challenge-response holder binding
+    const HOLDER_BINDING_POLICY = (process.env.HOLDER_BINDING_POLICY || 'if-bound') as
+      'if-bound' | 'required';
+
+    if (!['if-bound', 'required'].includes(HOLDER_BINDING_POLICY)) {
+      errors.push('HOLDER_BINDING_POLICY must be either "if-bound" or "required"');
+    }
+
+    const HOLDER_CHALLENGE_TTL_SECONDS = parseInt(
+      process.env.HOLDER_CHALLENGE_TTL_SECONDS || '60',
+      10,
+    );
+
+    if (isNaN(HOLDER_CHALLENGE_TTL_SECONDS) || HOLDER_CHALLENGE_TTL_SECONDS < 1) {
+      errors.push('HOLDER_CHALLENGE_TTL_SECONDS must be a positive number');
+    }
 
     // Hybrid sync settings
     const BATCH_SYNC_INTERVAL_MINUTES = parseInt(
@@ -148,6 +355,182 @@ export class ConfigModule {
       errors.push('BATCH_SYNC_SIZE must be between 1 and 10000');
     }
 
+    const BATCH_SYNC_CRON = process.env.BATCH_SYNC_CRON || null;
+    if (BATCH_SYNC_CRON && !ConfigModule.isValidCron(BATCH_SYNC_CRON)) {
+      errors.push(`BATCH_SYNC_CRON is not a valid cron expression: ${BATCH_SYNC_CRON}`);
+    }
+
+    const SYNC_PROGRESS_INTERVAL_SECONDS = parseInt(
+      process.env.SYNC_PROGRESS_INTERVAL_SECONDS || '10',
+      10,
+    );
+    const SYNC_STALL_SECONDS = parseInt(process.env.SYNC_STALL_SECONDS || '300', 10);
+
+    if (isNaN(SYNC_PROGRESS_INTERVAL_SECONDS) || SYNC_PROGRESS_INTERVAL_SECONDS < 1) {
+      errors.push('SYNC_PROGRESS_INTERVAL_SECONDS must be at least 1');
+    }
+
+    if (isNaN(SYNC_STALL_SECONDS) || SYNC_STALL_SECONDS < 10) {
+      errors.push('SYNC_STALL_SECONDS must be at least 10');
+    }
+
+    // Live revocation fallback (used when the local cache is stale)
+    const REVOCATION_STALE_BLOCKS = parseInt(process.env.REVOCATION_STALE_BLOCKS || '100', 10);
+    const REVOCATION_STALE_SECONDS = parseInt(
+      process.env.REVOCATION_STALE_SECONDS || String(BATCH_SYNC_INTERVAL_MINUTES * 2 * 60),
+      10,
+    );
+    const LIVE_REVOCATION_TIMEOUT_MS = parseInt(
+      process.env.LIVE_REVOCATION_TIMEOUT_MS || '3000',
+      10,
+    );
+    const LIVE_REVOCATION_CACHE_TTL_SECONDS = parseInt(
+      process.env.LIVE_REVOCATION_CACHE_TTL_SECONDS || '60',
+      10,
+    );
+    const LIVE_REVOCATION_FAILURE_POLICY = (process.env.LIVE_REVOCATION_FAILURE_POLICY ||
+      'fail-closed') as 'fail-closed' | 'fail-open';
+
+    if (isNaN(REVOCATION_STALE_BLOCKS) || REVOCATION_STALE_BLOCKS < 0) {
+      errors.push('REVOCATION_STALE_BLOCKS must be zero or a positive number');
+    }
+
+    if (isNaN(REVOCATION_STALE_SECONDS) || REVOCATION_STALE_SECONDS < 1) {
+      errors.push('REVOCATION_STALE_SECONDS must be at least 1');
+    }
+
+    if (isNaN(LIVE_REVOCATION_TIMEOUT_MS) || LIVE_REVOCATION_TIMEOUT_MS < 100) {
+      errors.push('LIVE_REVOCATION_TIMEOUT_MS must be at least 100');
+    }
+
+    if (isNaN(LIVE_REVOCATION_CACHE_TTL_SECONDS) || LIVE_REVOCATION_CACHE_TTL_SECONDS < 0) {
+      errors.push('LIVE_REVOCATION_CACHE_TTL_SECONDS must be zero or a positive number');
+    }
+
+    if (!['fail-closed', 'fail-open'].includes(LIVE_REVOCATION_FAILURE_POLICY)) {
+      errors.push('LIVE_REVOCATION_FAILURE_POLICY must be either "fail-closed" or "fail-open"');
+    }
+
+    const { budgets: REVOCATION_STALENESS_BUDGET_HOURS, errors: budgetErrors } =
+      ConfigModule.parseStalenessBudgets(process.env.REVOCATION_STALENESS_BUDGET_HOURS);
+    errors.push(...budgetErrors);
+
+    const OFFLINE_RETRY_INTERVAL_SECONDS = parseInt(
+      process.env.OFFLINE_RETRY_INTERVAL_SECONDS || '30',
+      10,
+    );
+    if (isNaN(OFFLINE_RETRY_INTERVAL_SECONDS) || OFFLINE_RETRY_INTERVAL_SECONDS < 1) {
+      errors.push('OFFLINE_RETRY_INTERVAL_SECONDS must be at least 1');
+    }
+
+    // Reconciliation against on-chain revocation counts
+    const RECONCILIATION_INTERVAL_MINUTES = parseInt(
+      process.env.RECONCILIATION_INTERVAL_MINUTES || '60',
+      10,
+    );
+    const RECONCILIATION_BATCH_SIZE = parseInt(process.env.RECONCILIATION_BATCH_SIZE || '100', 10);
+
+    if (isNaN(RECONCILIATION_INTERVAL_MINUTES) || RECONCILIATION_INTERVAL_MINUTES < 0) {
+      errors.push('RECONCILIATION_INTERVAL_MINUTES must be zero (disabled) or a positive number');
+    }
+
+    if (isNaN(RECONCILIATION_BATCH_SIZE) || RECONCILIATION_BATCH_SIZE < 1) {
+      errors.push('RECONCILIATION_BATCH_SIZE must be at least 1');
+    }
+
+    const RECONCILIATION_CRON = process.env.RECONCILIATION_CRON || null;
+    if (RECONCILIATION_CRON && !ConfigModule.isValidCron(RECONCILIATION_CRON)) {
+      errors.push(`RECONCILIATION_CRON is not a valid cron expression: ${RECONCILIATION_CRON}`);
+    }
+
+    const RECONCILIATION_RESCAN_BLOCKS = parseInt(
+      process.env.RECONCILIATION_RESCAN_BLOCKS || '10000',
+      10,
+    );
+    if (isNaN(RECONCILIATION_RESCAN_BLOCKS) || RECONCILIATION_RESCAN_BLOCKS < 1) {
+      errors.push('RECONCILIATION_RESCAN_BLOCKS must be at least 1');
+    }
+
+    // Chain event inbox (at-least-once delivery from the listener to the handlers)
+    const EVENT_INBOX_POLL_INTERVAL_MS = parseInt(
+      process.env.EVENT_INBOX_POLL_INTERVAL_MS || '5000',
+      10,
+    );
+    const EVENT_INBOX_MAX_ATTEMPTS = parseInt(process.env.EVENT_INBOX_MAX_ATTEMPTS || '8', 10);
+    const EVENT_INBOX_RETRY_BASE_DELAY_MS = parseInt(
+      process.env.EVENT_INBOX_RETRY_BASE_DELAY_MS || '1000',
+      10,
+    );
+    const EVENT_INBOX_RETRY_MAX_DELAY_MS = parseInt(
+      process.env.EVENT_INBOX_RETRY_MAX_DELAY_MS || '300000',
+      10,
+    );
+    const EVENT_INBOX_RETENTION_HOURS = parseInt(
+      process.env.EVENT_INBOX_RETENTION_HOURS || '168',
+      10,
+    );
+
+    if (isNaN(EVENT_INBOX_POLL_INTERVAL_MS) || EVENT_INBOX_POLL_INTERVAL_MS < 100) {
+      errors.push('EVENT_INBOX_POLL_INTERVAL_MS must be at least 100');
+    }
+
+    if (isNaN(EVENT_INBOX_MAX_ATTEMPTS) || EVENT_INBOX_MAX_ATTEMPTS < 1) {
+      errors.push('EVENT_INBOX_MAX_ATTEMPTS must be at least 1');
+    }
+
+    if (isNaN(EVENT_INBOX_RETRY_BASE_DELAY_MS) || EVENT_INBOX_RETRY_BASE_DELAY_MS < 0) {
+      errors.push('EVENT_INBOX_RETRY_BASE_DELAY_MS must be zero or a positive number');
+    }
+
+    if (
+      isNaN(EVENT_INBOX_RETRY_MAX_DELAY_MS) ||
+      EVENT_INBOX_RETRY_MAX_DELAY_MS < EVENT_INBOX_RETRY_BASE_DELAY_MS
+    ) {
+      errors.push('EVENT_INBOX_RETRY_MAX_DELAY_MS must be >= EVENT_INBOX_RETRY_BASE_DELAY_MS');
+    }
+
+    if (isNaN(EVENT_INBOX_RETENTION_HOURS) || EVENT_INBOX_RETENTION_HOURS < 0) {
+      errors.push('EVENT_INBOX_RETENTION_HOURS must be zero (keep forever) or a positive number');
+    }
+
+    // eth_getLogs scanner settings
+    const LOGS_MAX_RANGE = process.env.LOGS_MAX_RANGE
+      ? parseInt(process.env.LOGS_MAX_RANGE, 10)
+      : undefined;
+    const LOGS_GROW_AFTER_SUCCESSES = parseInt(process.env.LOGS_GROW_AFTER_SUCCESSES || '5', 10);
+    const LOGS_MAX_RETRIES = parseInt(process.env.LOGS_MAX_RETRIES || '3', 10);
+    const LOGS_RETRY_BASE_DELAY_MS = parseInt(process.env.LOGS_RETRY_BASE_DELAY_MS || '500', 10);
+
+    if (LOGS_MAX_RANGE !== undefined && (isNaN(LOGS_MAX_RANGE) || LOGS_MAX_RANGE < 1)) {
+      errors.push('LOGS_MAX_RANGE must be at least 1 when set');
+    }
+
+    if (LOGS_GROW_AFTER_SUCCESSES < 1) {
+      errors.push('LOGS_GROW_AFTER_SUCCESSES must be at least 1');
+    }
+
+    if (LOGS_MAX_RETRIES < 0) {
+      errors.push('LOGS_MAX_RETRIES cannot be negative');
+    }
+
+    // Signed revocation snapshots (export key / trusted importers)
+    const SNAPSHOT_SIGNING_KEY = process.env.SNAPSHOT_SIGNING_KEY || undefined;
+    const SNAPSHOT_TRUSTED_SIGNERS = (process.env.SNAPSHOT_TRUSTED_SIGNERS || '')
+      .split(',')
+      .map((address) => address.trim())
+      .filter((address) => address.length > 0);
+
+    if (SNAPSHOT_SIGNING_KEY && !/^(0x)?[0-9a-fA-F]{64}$/.test(SNAPSHOT_SIGNING_KEY)) {
+      errors.push('SNAPSHOT_SIGNING_KEY must be a 32-byte hex private key');
+    }
+
+    const invalidSigner = SNAPSHOT_TRUSTED_SIGNERS.find(
+      (address) => !/^0x[0-9a-fA-F]{40}$/.test(address),
+    );
+    if (invalidSigner) {
+      errors.push(`SNAPSHOT_TRUSTED_SIGNERS contains an invalid address: ${invalidSigner}`);
+    }
+
     // Database
     const DATABASE_PATH = process.env.DATABASE_PATH || './data/vcel.db';
 
@@ -189,20 +572,71 @@ export class ConfigModule {
       NODE_ENV,
       LOCK_ID,
       NETWORK,
+      NETWORKS_FILE: process.env.NETWORKS_FILE,
       SEPOLIA_RPC_URL: process.env.SEPOLIA_RPC_URL,
+      SEPOLIA_RPC_URLS: ConfigModule.parseRpcUrls(process.env.SEPOLIA_RPC_URLS, undefined),
       SEPOLIA_CONTRACT_ADDRESS: process.env.SEPOLIA_CONTRACT_ADDRESS,
       SEPOLIA_START_BLOCK: process.env.SEPOLIA_START_BLOCK
         ? parseInt(process.env.SEPOLIA_START_BLOCK, 10)
         : undefined,
       MAINNET_RPC_URL: process.env.MAINNET_RPC_URL,
+      MAINNET_RPC_URLS: ConfigModule.parseRpcUrls(process.env.MAINNET_RPC_URLS, undefined),
       MAINNET_CONTRACT_ADDRESS: process.env.MAINNET_CONTRACT_ADDRESS,
       MAINNET_START_BLOCK: process.env.MAINNET_START_BLOCK
         ? parseInt(process.env.MAINNET_START_BLOCK, 10)
         : undefined,
       POLL_INTERVAL,
       CONFIRMATIONS,
+      REORG_CHECKPOINT_DEPTH,
+      RPC_QUORUM,
+      LOG_VERIFICATION,
+      RPC_HEALTH_CHECK_INTERVAL_MS,
+      RPC_REQUEST_TIMEOUT_MS,
+      WS_HEARTBEAT_INTERVAL_MS,
+      WS_HEARTBEAT_TIMEOUT_MS,
+      WS_RECONNECT_BASE_DELAY_MS,
+      WS_RECONNECT_MAX_DELAY_MS,
+      RPC_MAX_REQUESTS_PER_SECOND,
+      RPC_DAILY_BUDGET,
+      RPC_BUDGET_RESERVE_PERCENT,
+      RPC_RATE_LIMIT_BACKOFF_MS,
+      RPC_RATE_LIMIT_MAX_BACKOFF_MS,
+      RPC_POLLING_INTERVAL_MS,
+      PENDING_REVOCATION_POLICY,
+      OWNERSHIP_TRANSFER_GRACE_MINUTES,
+      KEY_ROTATION_OVERLAP_HOURS,
+      LOCK_TIME_ZONE,
+      HOLIDAY_CALENDAR_DIR: process.env.HOLIDAY_CALENDAR_DIR || undefined,
+      HOLDER_BINDING_POLICY,
+      HOLDER_CHALLENGE_TTL_SECONDS,
+      PAUSED_ACCESS_POLICY,
       BATCH_SYNC_INTERVAL_MINUTES,
       BATCH_SYNC_SIZE,
+      BATCH_SYNC_CRON,
+      SYNC_PROGRESS_INTERVAL_SECONDS,
+      SYNC_STALL_SECONDS,
+      REVOCATION_STALE_BLOCKS,
+      REVOCATION_STALE_SECONDS,
+      LIVE_REVOCATION_TIMEOUT_MS,
+      LIVE_REVOCATION_CACHE_TTL_SECONDS,
+      LIVE_REVOCATION_FAILURE_POLICY,
+      REVOCATION_STALENESS_BUDGET_HOURS,
+      OFFLINE_RETRY_INTERVAL_SECONDS,
+      RECONCILIATION_INTERVAL_MINUTES,
+      RECONCILIATION_BATCH_SIZE,
+      RECONCILIATION_CRON,
+      RECONCILIATION_RESCAN_BLOCKS,
+      EVENT_INBOX_POLL_INTERVAL_MS,
+      EVENT_INBOX_MAX_ATTEMPTS,
+      EVENT_INBOX_RETRY_BASE_DELAY_MS,
+      EVENT_INBOX_RETRY_MAX_DELAY_MS,
+      EVENT_INBOX_RETENTION_HOURS,
+      LOGS_MAX_RANGE,
+      LOGS_GROW_AFTER_SUCCESSES,
+      LOGS_MAX_RETRIES,
+      LOGS_RETRY_BASE_DELAY_MS,
+      SNAPSHOT_SIGNING_KEY,
+      SNAPSHOT_TRUSTED_SIGNERS,
       DATABASE_PATH,
       MQTT_BROKER_URL,
       MQTT_CLIENT_ID,
@@ -216,8 +650,53 @@ export class ConfigModule {
       CACHE_MAX_ITEMS,
       // Computed properties based on selected network
       ETHEREUM_RPC_URL,
+      ETHEREUM_RPC_URLS,
       CONTRACT_ADDRESS,
       START_BLOCK,
+      CHAIN_ID,
+      BLOCK_TIME_SECONDS,
     };
   }
+
+  /**
+   * Merge a single RPC URL with a comma-separated list of fallbacks (deduplicated, in order)
+   */
+  static parseRpcUrls(list: string | undefined, single: string | undefined): string[] {
+    return NetworkRegistry.parseRpcUrls(list, single);
+  }
+
+  /**
+   * Parse "standard=24,admin=168" into hours per access level ("default" covers the rest)
+   */
+  static parseStalenessBudgets(value: string | undefined): {
+    budgets: Record<string, number>;
+    errors: string[];
+  } {
+    const budgets: Record<string, number> = {};
+    const errors: string[] = [];
+    for (const entry of (value || '').split(',').map((part) => part.trim())) {
+      if (!entry) {
+        continue;
+      }
+      const [level, hours] = entry.split('=').map((part) => part.trim());
+      const parsed = Number(hours);
+      if (!level || hours === undefined || isNaN(parsed) || parsed < 0) {
+        errors.push(
+          `REVOCATION_STALENESS_BUDGET_HOURS entry "${entry}" must look like <accessLevel>=<hours>`,
+        );
+        continue;
+      }
+      budgets[level] = parsed;
+    }
+    return { budgets, errors };
+  }
+
+  static isValidCron(expression: string): boolean {
+    try {
+      new CronTime(expression);
+      return true;
+    } catch {
+      return false;
+    }
+  }
 }
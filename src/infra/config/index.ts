@@ -1 +1,2 @@
 export * from './config.module';
+export * from './network-registry';
@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+
+/**
+ * A chain the AccessControl contract is deployed on
+ */
+export interface NetworkDefinition {
+  name: string;
+  chainId: number;
+  rpcUrls: string[]; // primary + fallbacks, in priority order
+  contractAddress: string;
+  startBlock: number;
+  blockTimeSeconds: number;
+  confirmations: number; // default when CONFIRMATIONS is not set
+}
+
+/**
+ * Defaults for well-known chains (RPC URLs and contract addresses always come from config)
+ */
+const BUILT_IN_NETWORKS: Partial<NetworkDefinition>[] = [
+  { name: 'mainnet', chainId: 1, blockTimeSeconds: 12, confirmations: 3 },
+  { name: 'sepolia', chainId: 11155111, blockTimeSeconds: 12, confirmations: 3 },
+  {
+    name: 'hardhat',
+    chainId: 31337,
+    rpcUrls: ['http://127.0.0.1:8545'],
+    blockTimeSeconds: 1,
+    confirmations: 0,
+  },
+  {
+    name: 'anvil',
+    chainId: 31337,
+    rpcUrls: ['http://127.0.0.1:8545'],
+    blockTimeSeconds: 1,
+    confirmations: 0,
+  },
+];
+
+/**
+ * Registry of supported chains, keyed by chainId
+ *
+ * Sources, later ones override earlier ones:
+ * 1. Built-in defaults (mainnet, sepolia, hardhat, anvil)
+ * 2. NETWORKS_FILE - JSON array of NetworkDefinition objects
+ * 3. Per-network env vars prefixed with the upper-cased name, e.g. for NETWORK=base-sepolia:
+ *    BASE_SEPOLIA_CHAIN_ID, BASE_SEPOLIA_RPC_URL(S), BASE_SEPOLIA_CONTRACT_ADDRESS,
+ *    BASE_SEPOLIA_START_BLOCK, BASE_SEPOLIA_BLOCK_TIME_SECONDS, BASE_SEPOLIA_CONFIRMATIONS
+ */
+export class NetworkRegistry {
+  /**
+   * Load every known network definition (built-in + file)
+   * @throws Error if NETWORKS_FILE is set but unreadable / invalid
+   */
+  static load(): Partial<NetworkDefinition>[] {
+    const networks = BUILT_IN_NETWORKS.map((network) => ({ ...network }));
+
+    const file = process.env.NETWORKS_FILE;
+    if (file) {
+      const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+      if (!Array.isArray(parsed)) {
+        throw new Error(`NETWORKS_FILE ${file} must contain a JSON array of networks`);
+      }
+      for (const entry of parsed as Partial<NetworkDefinition>[]) {
+        const existing = networks.find(
+          (network) =>
+            network.name === entry.name?.toLowerCase() ||
+            (entry.chainId !== undefined && network.chainId === entry.chainId && !entry.name),
+        );
+        if (existing) {
+          Object.assign(existing, entry, { name: existing.name });
+        } else {
+          networks.push({ ...entry, name: entry.name?.toLowerCase() });
+        }
+      }
+    }
+
+    return networks;
+  }
+
+  /**
+   * Resolve the selected network by name or chainId and apply env overrides
+   * @param selector NETWORK value, e.g. 'sepolia', 'base-sepolia' or '84532'
+   * @returns the definition plus any problems found (missing RPC URL, bad address...)
+   */
+  static resolve(selector: string): { network: NetworkDefinition; errors: string[] } {
+    const errors: string[] = [];
+    const key = (selector || 'sepolia').trim().toLowerCase();
+
+    let known: Partial<NetworkDefinition>[] = [];
+    try {
+      known = NetworkRegistry.load();
+    } catch (error) {
+      errors.push(`Failed to load NETWORKS_FILE: ${error.message}`);
+    }
+
+    const base: Partial<NetworkDefinition> = /^\d+$/.test(key)
+      ? known.find((network) => network.chainId === parseInt(key, 10)) || {
+          chainId: parseInt(key, 10),
+        }
+      : known.find((network) => network.name === key) || { name: key };
+
+    const name = base.name || `chain-${base.chainId}`;
+    const prefix = name.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+    const env = (suffix: string) => process.env[`${prefix}_${suffix}`];
+
+    const envRpcUrls = NetworkRegistry.parseRpcUrls(env('RPC_URLS'), env('RPC_URL'));
+    const network: NetworkDefinition = {
+      name,
+      chainId: env('CHAIN_ID') ? parseInt(env('CHAIN_ID'), 10) : base.chainId,
+      rpcUrls: envRpcUrls.length > 0 ? envRpcUrls : base.rpcUrls || [],
+      contractAddress: env('CONTRACT_ADDRESS') || base.contractAddress || '',
+      startBlock: env('START_BLOCK') ? parseInt(env('START_BLOCK'), 10) : base.startBlock || 0,
+      blockTimeSeconds: env('BLOCK_TIME_SECONDS')
+        ? parseFloat(env('BLOCK_TIME_SECONDS'))
+        : base.blockTimeSeconds || 12,
+      confirmations: env('CONFIRMATIONS')
+        ? parseInt(env('CONFIRMATIONS'), 10)
+        : (base.confirmations ?? 3),
+    };
+
+    if (!network.chainId || isNaN(network.chainId)) {
+      errors.push(`Unknown network "${key}": set ${prefix}_CHAIN_ID or add it to NETWORKS_FILE`);
+    }
+    if (network.rpcUrls.length === 0) {
+      errors.push(`${prefix}_RPC_URL or ${prefix}_RPC_URLS is required when NETWORK=${key}`);
+    }
+    if (!network.contractAddress) {
+      errors.push(`${prefix}_CONTRACT_ADDRESS is required when NETWORK=${key}`);
+    }
+    if (isNaN(network.startBlock) || network.startBlock < 0) {
+      errors.push(`${prefix}_START_BLOCK must be zero or a positive number`);
+    }
+    if (isNaN(network.blockTimeSeconds) || network.blockTimeSeconds <= 0) {
+      errors.push(`${prefix}_BLOCK_TIME_SECONDS must be a positive number`);
+    }
+    if (isNaN(network.confirmations) || network.confirmations < 0) {
+      errors.push(`${prefix}_CONFIRMATIONS must be zero or a positive number`);
+    }
+
+    return { network, errors };
+  }
+
+  /**
+   * Merge a single RPC URL with a comma-separated list of fallbacks (deduplicated, in order)
+   */
+  static parseRpcUrls(list: string | undefined, single: string | undefined): string[] {
+    const urls = [single, ...(list || '').split(',')]
+      .map((url) => (url || '').trim())
+      .filter((url) => url.length > 0);
+    return [...new Set(urls)];
+  }
+}
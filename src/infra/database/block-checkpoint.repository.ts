@@ -0,0 +1,91 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MoreThan, Repository } from 'typeorm';
+import { BlockCheckpointEntity } from './entities';
+
+/**
+ * Repository for block hash checkpoints used in reorg detection
+ */
+@Injectable()
+export class BlockCheckpointRepository {
+  constructor(
+    @InjectRepository(BlockCheckpointEntity)
+    private readonly repo: Repository<BlockCheckpointEntity>,
+  ) {}
+
+  private normalize(address: string): string {
+    return address.toLowerCase();
+  }
+
+  /**
+   * Record (or overwrite) the hash seen at a block height
+   */
+  async record(
+    network: string,
+    contractAddress: string,
+    blockNumber: number,
+    blockHash: string,
+  ): Promise<void> {
+    const normalizedAddress = this.normalize(contractAddress);
+    const existing = await this.repo.findOne({
+      where: { network, contractAddress: normalizedAddress, blockNumber },
+    });
+    if (existing) {
+      if (existing.blockHash !== blockHash) {
+        existing.blockHash = blockHash;
+        await this.repo.save(existing);
+      }
+      return;
+    }
+    await this.repo.save(
+      this.repo.create({ network, contractAddress: normalizedAddress, blockNumber, blockHash }),
+    );
+  }
+
+  /**
+   * Most recent checkpoints, highest block first
+   */
+  async getRecent(
+    network: string,
+    contractAddress: string,
+    limit: number,
+  ): Promise<BlockCheckpointEntity[]> {
+    return this.repo.find({
+      where: { network, contractAddress: this.normalize(contractAddress) },
+      order: { blockNumber: 'DESC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Drop checkpoints above a block (after a reorg rollback)
+   */
+  async deleteAbove(network: string, contractAddress: string, blockNumber: number): Promise<void> {
+    await this.repo.delete({
+      network,
+      contractAddress: this.normalize(contractAddress),
+      blockNumber: MoreThan(blockNumber),
+    });
+  }
+
+  /**
+   * Keep only the newest `keep` checkpoints
+   */
+  async prune(network: string, contractAddress: string, keep: number): Promise<void> {
+    const recent = await this.getRecent(network, contractAddress, keep);
+    if (recent.length < keep) {
+      return;
+    }
+    const oldestKept = recent[recent.length - 1].blockNumber;
+    await this.repo
+      .createQueryBuilder()
+      .delete()
+      .from(BlockCheckpointEntity)
+      .where('network = :network AND contractAddress = :contractAddress', {
+        network,
+        contractAddress: this.normalize(contractAddress),
+      })
+      .andWhere('blockNumber < :oldestKept', { oldestKept })
+      .execute();
+  }
+}
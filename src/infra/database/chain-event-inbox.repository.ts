@@ -0,0 +1,159 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThan, LessThanOrEqual, MoreThan, Repository } from 'typeorm';
+import { ChainEventInboxEntity, ChainEventStatus } from './entities';
+
+/**
+ * Repository for the chain event inbox
+ */
+@Injectable()
+export class ChainEventInboxRepository {
+  constructor(
+    @InjectRepository(ChainEventInboxEntity)
+    private readonly repository: Repository<ChainEventInboxEntity>,
+  ) {}
+
+  /**
+   * Store an event for delivery; an event already in the inbox (same eventKey) is left as is
+   * @returns true if the event was new
+   */
+  async enqueue(entry: {
+    eventKey: string;
+    eventName: string;
+    payload: string;
+    blockNumber: number | null;
+  }): Promise<boolean> {
+    if ((await this.repository.count({ where: { eventKey: entry.eventKey } })) > 0) {
+      return false;
+    }
+
+    try {
+      await this.repository.insert({
+        ...entry,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: new Date(),
+      });
+      return true;
+    } catch (error) {
+      // Enqueued concurrently by the other delivery path
+      if (error.message && error.message.includes('UNIQUE constraint failed')) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Mark up to `limit` due events as processing and return them, oldest first
+   */
+  async claimDue(limit: number): Promise<ChainEventInboxEntity[]> {
+    const due = await this.repository.find({
+      where: { status: 'pending', nextAttemptAt: LessThanOrEqual(new Date()) },
+      order: { id: 'ASC' },
+      take: limit,
+    });
+    if (due.length > 0) {
+      await this.repository.update(
+        { id: In(due.map((event) => event.id)) },
+        { status: 'processing' },
+      );
+    }
+    return due;
+  }
+
+  async markDone(id: number): Promise<void> {
+    await this.repository.update(id, {
+      status: 'done',
+      attempts: () => 'attempts + 1',
+      lastError: null,
+      processedAt: new Date(),
+    });
+  }
+
+  /**
+   * Record a failed delivery; without a next attempt time the event is dead-lettered
+   */
+  async markFailed(id: number, error: string, nextAttemptAt: Date | null): Promise<void> {
+    await this.repository.update(id, {
+      status: nextAttemptAt ? 'pending' : 'dead',
+      attempts: () => 'attempts + 1',
+      lastError: error,
+      ...(nextAttemptAt ? { nextAttemptAt } : {}),
+    });
+  }
+
+  /**
+   * Delete pending and dead events of blocks above `blockNumber`
+   */
+  async deleteUndeliveredAboveBlock(blockNumber: number): Promise<number> {
+    const result = await this.repository.delete({
+      status: In(['pending', 'dead']),
+      blockNumber: MoreThan(blockNumber),
+    });
+    return result.affected || 0;
+  }
+
+  /**
+   * Put events left in processing by a crash back in the queue
+   */
+  async releaseProcessing(): Promise<number> {
+    const result = await this.repository.update({ status: 'processing' }, { status: 'pending' });
+    return result.affected || 0;
+  }
+
+  /**
+   * Queue dead events again with a fresh attempt budget
+   * @param ids Events to replay; all dead events when omitted
+   */
+  async replayDead(ids?: number[]): Promise<number> {
+    const result = await this.repository.update(
+      ids ? { id: In(ids), status: 'dead' } : { status: 'dead' },
+      { status: 'pending', attempts: 0, nextAttemptAt: new Date() },
+    );
+    return result.affected || 0;
+  }
+
+  async findById(id: number): Promise<ChainEventInboxEntity | null> {
+    return this.repository.findOne({ where: { id } });
+  }
+
+  async findByStatus(status?: ChainEventStatus, limit = 100): Promise<ChainEventInboxEntity[]> {
+    return this.repository.find({
+      where: status ? { status } : {},
+      order: { id: 'DESC' },
+      take: limit,
+    });
+  }
+
+  async countByStatus(): Promise<Record<ChainEventStatus, number>> {
+    const rows: { status: ChainEventStatus; count: string }[] = await this.repository
+      .createQueryBuilder('event')
+      .select('event.status', 'status')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('event.status')
+      .getRawMany();
+
+    const counts: Record<ChainEventStatus, number> = {
+      pending: 0,
+      processing: 0,
+      done: 0,
+      dead: 0,
+    };
+    for (const row of rows) {
+      counts[row.status] = parseInt(row.count, 10);
+    }
+    return counts;
+  }
+
+  /**
+   * Delete delivered events processed before `before`
+   */
+  async pruneDone(before: Date): Promise<number> {
+    const result = await this.repository.delete({
+      status: 'done',
+      processedAt: LessThan(before),
+    });
+    return result.affected || 0;
+  }
+}
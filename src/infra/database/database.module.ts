@@ -2,29 +2,57 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import {
   RevokedCredentialEntity,
+  RevokedCredentialShadowEntity,
   SignatureEntryEntity,
   SyncStateEntity,
   LockConfigEntity,
+  BlockCheckpointEntity,
+  ProviderLimitEntity,
+  LockKeyHistoryEntity,
+  ChainEventInboxEntity,
+  HolidayCalendarEntity,
 } from './entities';
 import { RevokedCredentialRepository } from './revoked-credential.repository';
 import { SignatureEntryRepository } from './signature-entry.repository';
 import { SyncStateRepository } from './sync-state.repository';
 import { LockConfigRepository } from './lock-config.repository';
+import { BlockCheckpointRepository } from './block-checkpoint.repository';
+import { ProviderLimitRepository } from './provider-limit.repository';
+import { LockKeyHistoryRepository } from './lock-key-history.repository';
+import { ChainEventInboxRepository } from './chain-event-inbox.repository';
+import { HolidayCalendarRepository } from './holiday-calendar.repository';
 
 @Module({
   imports: [
     TypeOrmModule.forRoot({
       type: 'sqlite',
       database: process.env.DATABASE_PATH || './data/vcel.db',
-      entities: [RevokedCredentialEntity, SignatureEntryEntity, SyncStateEntity, LockConfigEntity],
+      entities: [
+        RevokedCredentialEntity,
+        RevokedCredentialShadowEntity,
+        SignatureEntryEntity,
+        SyncStateEntity,
+        LockConfigEntity,
+        BlockCheckpointEntity,
+        ProviderLimitEntity,
+        LockKeyHistoryEntity,
+        ChainEventInboxEntity,
+        HolidayCalendarEntity,
+      ],
       synchronize: true,
       logging: process.env.NODE_ENV === 'development',
     }),
     TypeOrmModule.forFeature([
       RevokedCredentialEntity,
+      RevokedCredentialShadowEntity,
       SignatureEntryEntity,
       SyncStateEntity,
       LockConfigEntity,
+      BlockCheckpointEntity,
+      ProviderLimitEntity,
+      LockKeyHistoryEntity,
+      ChainEventInboxEntity,
+      HolidayCalendarEntity,
     ]),
   ],
   providers: [
@@ -32,12 +60,22 @@ import { LockConfigRepository } from './lock-config.repository';
     SignatureEntryRepository,
     SyncStateRepository,
     LockConfigRepository,
+    BlockCheckpointRepository,
+    ProviderLimitRepository,
+    LockKeyHistoryRepository,
+    ChainEventInboxRepository,
+    HolidayCalendarRepository,
   ],
   exports: [
     RevokedCredentialRepository,
     SignatureEntryRepository,
     SyncStateRepository,
     LockConfigRepository,
+    BlockCheckpointRepository,
+    ProviderLimitRepository,
+    LockKeyHistoryRepository,
+    ChainEventInboxRepository,
+    HolidayCalendarRepository,
   ],
 })
 export class DatabaseModule {}
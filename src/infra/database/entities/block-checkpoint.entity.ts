@@ -0,0 +1,27 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+/**
+ * Block hash seen by the listener at a given height
+ * Compared against the chain on every sync to detect reorganizations
+ */
+@Entity({ name: 'block_checkpoints' })
+@Index(['network', 'contractAddress', 'blockNumber'], { unique: true })
+export class BlockCheckpointEntity {
+  @PrimaryGeneratedColumn('increment')
+  id!: number;
+
+  @Column({ type: 'text' })
+  network!: string;
+
+  @Column({ type: 'text' })
+  contractAddress!: string;
+
+  @Column({ type: 'integer' })
+  blockNumber!: number;
+
+  @Column({ type: 'text' })
+  blockHash!: string;
+
+  @CreateDateColumn({ type: 'datetime' })
+  createdAt!: Date;
+}
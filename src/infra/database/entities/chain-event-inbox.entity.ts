@@ -0,0 +1,55 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+export type ChainEventStatus = 'pending' | 'processing' | 'done' | 'dead';
+
+/**
+ * Persistent inbox for chain events on their way from the listener to their handlers
+ * Rows are written before delivery and only marked done once a handler succeeded
+ */
+@Entity({ name: 'chain_event_inbox' })
+@Index(['eventKey'], { unique: true })
+@Index(['status', 'nextAttemptAt'])
+export class ChainEventInboxEntity {
+  @PrimaryGeneratedColumn('increment')
+  id!: number;
+
+  @Column({ type: 'text' })
+  eventKey!: string; // eventName:txHash:logIndex - deduplicates redelivered logs
+
+  @Column({ type: 'text' })
+  eventName!: string; // BLOCKCHAIN_EVENTS value the payload is delivered as
+
+  @Column({ type: 'text' })
+  payload!: string; // JSON
+
+  @Column({ type: 'text', default: 'pending' })
+  status!: ChainEventStatus;
+
+  @Column({ type: 'integer', default: 0 })
+  attempts!: number;
+
+  @Column({ type: 'datetime' })
+  nextAttemptAt!: Date;
+
+  @Column({ type: 'text', nullable: true })
+  lastError!: string | null;
+
+  @Column({ type: 'integer', nullable: true })
+  blockNumber!: number | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  processedAt!: Date | null;
+
+  @CreateDateColumn({ type: 'datetime' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ type: 'datetime' })
+  updatedAt!: Date;
+}
@@ -0,0 +1,43 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+/**
+ * An all-day event of an imported holiday calendar (dates are lock-local, YYYY-MM-DD)
+ */
+export interface HolidayCalendarEvent {
+  summary: string | null;
+  startDate: string;
+  endDate: string; // exclusive
+  yearly: boolean; // RRULE:FREQ=YEARLY
+  until: string | null; // last date a yearly event may start on
+}
+
+/**
+ * Holiday calendar imported from an iCalendar file for a lock
+ * - block: scheduled credentials are refused on the calendar's dates
+ * - allow: scheduled credentials may be used on the calendar's dates even on weekdays
+ *   their schedule excludes
+ */
+@Entity({ name: 'holiday_calendars' })
+@Index(['lockId'])
+export class HolidayCalendarEntity {
+  @PrimaryGeneratedColumn('increment')
+  id!: number;
+
+  @Column({ type: 'integer' })
+  lockId!: number;
+
+  @Column({ type: 'text' })
+  name!: string;
+
+  @Column({ type: 'text' })
+  mode!: 'block' | 'allow';
+
+  @Column({ type: 'text', nullable: true })
+  source!: string | null; // URL or file path the calendar was imported from
+
+  @Column({ type: 'simple-json' })
+  events!: HolidayCalendarEvent[];
+
+  @CreateDateColumn({ type: 'datetime' })
+  importedAt!: Date;
+}
@@ -1,4 +1,10 @@
 export * from './revoked-credential.entity';
+export * from './revoked-credential-shadow.entity';
 export * from './signature-entry.entity';
 export * from './sync-state.entity';
 export * from './lock-config.entity';
+export * from './block-checkpoint.entity';
+export * from './provider-limit.entity';
+export * from './lock-key-history.entity';
+export * from './chain-event-inbox.entity';
+export * from './holiday-calendar.entity';
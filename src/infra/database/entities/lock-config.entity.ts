@@ -1,19 +1,34 @@
-import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, UpdateDateColumn } from 'typeorm';
 /**
- * Lock configuration entity - stores lock ID and public key
- * Singleton entity (always id=1) to ensure only one lock is configured at a time
+ * Lock registry entity - one row per lock managed by this gateway (lock ID and public key)
+ * The row with the lowest id is the lock configured before multi-lock support
  */
 @Entity('lock_config')
 export class LockConfigEntity {
-  @PrimaryColumn()
-  id: number = 1; // Always use ID 1 for singleton config
+  @PrimaryGeneratedColumn()
+  id: number;
 
-  @Column({ type: 'integer' })
+  @Column({ type: 'integer', unique: true })
   lockId: number;
 
+  @Column({ type: 'text', nullable: true })
+  nickname: string | null; // e.g. door name; checked against a credential's lockNickname
+
+  @Column({ type: 'text', nullable: true })
+  location: string | null; // checked against a credential's lockLocation
+
+  @Column({ type: 'text', nullable: true })
+  timeZone: string | null; // IANA time zone for credential schedules (default LOCK_TIME_ZONE)
+
   @Column({ type: 'text' })
   publicKey: string;
 
+  @Column({ type: 'text', nullable: true })
+  signerAddress: string | null; // trusted on-chain signer (updated on ownership transfer)
+
+  @Column({ type: 'text', nullable: true })
+  ownerAddress: string | null; // current on-chain lock owner
+
   @UpdateDateColumn()
   updatedAt: Date;
 }
@@ -0,0 +1,46 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+/**
+ * History of keys/owners trusted for a lock
+ * An entry's publicKey is trusted from validFrom until validUntil (null = no end); during a
+ * key rotation overlap the outgoing and the incoming key are both trusted
+ */
+@Entity({ name: 'lock_key_history' })
+@Index(['lockId'])
+export class LockKeyHistoryEntity {
+  @PrimaryGeneratedColumn('increment')
+  id!: number;
+
+  @Column({ type: 'integer' })
+  lockId!: number;
+
+  @Column({ type: 'text', nullable: true })
+  publicKey!: string | null; // null until the new owner's key is provided
+
+  @Column({ type: 'text', nullable: true })
+  signerAddress!: string | null; // on-chain signer address (lowercase)
+
+  @Column({ type: 'text', nullable: true })
+  ownerAddress!: string | null; // on-chain lock owner (lowercase)
+
+  @Column({ type: 'datetime' })
+  validFrom!: Date;
+
+  @Column({ type: 'datetime', nullable: true })
+  validUntil!: Date | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  retiredAt!: Date | null; // set by the key rotation job once validUntil has passed
+
+  @Column({ type: 'text', nullable: true })
+  reason!: string | null; // e.g. 'configured', 'ownership-transferred', 'rekeyed', 'rotated'
+
+  @Column({ type: 'text', nullable: true })
+  transactionHash!: string | null;
+
+  @Column({ type: 'integer', nullable: true })
+  blockNumber!: number | null;
+
+  @CreateDateColumn({ type: 'datetime' })
+  createdAt!: Date;
+}
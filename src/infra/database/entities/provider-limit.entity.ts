@@ -0,0 +1,21 @@
+import { Column, Entity, Index, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+
+/**
+ * eth_getLogs block-range limit learned for an RPC provider
+ * Keyed by a hash of the provider URL so API keys are not stored
+ */
+@Entity({ name: 'provider_limits' })
+@Index(['providerKey'], { unique: true })
+export class ProviderLimitEntity {
+  @PrimaryGeneratedColumn('increment')
+  id!: number;
+
+  @Column({ type: 'text' })
+  providerKey!: string; // sha256 of the RPC URL
+
+  @Column({ type: 'integer' })
+  maxLogsRange!: number; // largest eth_getLogs block range the provider accepts
+
+  @UpdateDateColumn({ type: 'datetime' })
+  updatedAt!: Date;
+}
@@ -0,0 +1,9 @@
+import { Entity } from 'typeorm';
+import { RevokedCredentialEntity } from './revoked-credential.entity';
+
+/**
+ * Staging copy of revoked_credentials used to rebuild the table from a full rescan
+ * Filled completely, then swapped into the live table within one transaction
+ */
+@Entity('revoked_credentials_shadow')
+export class RevokedCredentialShadowEntity extends RevokedCredentialEntity {}
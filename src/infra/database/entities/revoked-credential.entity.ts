@@ -1,9 +1,18 @@
 import { Entity, Column, PrimaryColumn, CreateDateColumn, Index } from 'typeorm';
 
+/**
+ * Revocations stay 'pending' until they are CONFIRMATIONS blocks deep
+ */
+export type RevocationStatus = 'pending' | 'confirmed';
+
 @Entity('revoked_credentials')
 export class RevokedCredentialEntity {
   @PrimaryColumn()
-  id: string; // vcHash (unique since we only monitor one lock)
+  id: string; // lockId:vcHash (see RevokedCredentialRepository.revocationId)
+
+  @Column({ type: 'text', nullable: true })
+  @Index()
+  lockId: string | null; // null for rows cached before multi-lock support
 
   @Column()
   @Index()
@@ -12,8 +21,21 @@ export class RevokedCredentialEntity {
   @Column()
   blockNumber: number;
 
+  @Column({ type: 'text', nullable: true })
+  blockHash: string | null; // used to detect reorgs before confirmation
+
+  @Column({ type: 'text', nullable: true })
+  transactionHash: string | null;
+
+  @Column({ type: 'text', default: 'confirmed' })
+  @Index()
+  status: RevocationStatus;
+
   @Column({ type: 'datetime' })
-  revokedAt: Date;
+  revokedAt: Date; // block timestamp of the revocation transaction
+
+  @Column({ type: 'datetime', nullable: true })
+  detectedAt: Date | null; // when this gateway first saw the revocation
 
   @CreateDateColumn()
   createdAt: Date;
@@ -13,6 +13,12 @@ export class SignatureEntryEntity {
   @Column({ nullable: true })
   publicKey: string; // Public key of the lock (optional)
 
+  @Column({ type: 'integer', nullable: true })
+  lockId: number | null; // Lock the entry was for
+
+  @Column({ type: 'integer', nullable: true })
+  keyId: number | null; // lock_key_history entry of the key that verified the signature
+
   @Column({ type: 'datetime' })
   timestamp: Date;
 
@@ -8,13 +8,16 @@ import {
 } from 'typeorm';
 
 @Entity({ name: 'sync_state' })
-@Index(['network', 'contractAddress', 'lockId'], { unique: true })
+@Index(['chainId', 'contractAddress', 'lockId'], { unique: true })
 export class SyncStateEntity {
   @PrimaryGeneratedColumn('increment')
   id!: number;
 
+  @Column({ type: 'integer', default: 0 })
+  chainId!: number; // 0 for rows written before sync state was keyed by chainId
+
   @Column({ type: 'text' })
-  network!: string; // e.g., 'sepolia' | 'mainnet'
+  network!: string; // registry name, e.g. 'sepolia' (informational)
 
   @Column({ type: 'text' })
   contractAddress!: string; // monitored contract address
@@ -25,6 +28,9 @@ export class SyncStateEntity {
   @Column({ type: 'integer', default: 0 })
   lastSyncedBlock!: number; // inclusive: we have scanned up to and including this block
 
+  @Column({ type: 'datetime', nullable: true })
+  lastSyncCompletedAt!: Date | null; // revocation data is complete as of this time
+
   @CreateDateColumn({ type: 'datetime' })
   createdAt!: Date;
 
@@ -0,0 +1,45 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { HolidayCalendarEntity } from './entities';
+
+/**
+ * Repository for the holiday calendars of each lock
+ */
+@Injectable()
+export class HolidayCalendarRepository {
+  private readonly logger = new Logger(HolidayCalendarRepository.name);
+
+  constructor(
+    @InjectRepository(HolidayCalendarEntity)
+    private readonly repository: Repository<HolidayCalendarEntity>,
+  ) {}
+
+  async save(calendar: Partial<HolidayCalendarEntity>): Promise<HolidayCalendarEntity> {
+    const saved = await this.repository.save(this.repository.create(calendar));
+    this.logger.log(
+      `📅 Holiday calendar "${saved.name}" saved for lock ${saved.lockId} (${saved.events.length} events, ${saved.mode})`,
+    );
+    return saved;
+  }
+
+  async findByLock(lockId: number): Promise<HolidayCalendarEntity[]> {
+    return this.repository.find({ where: { lockId }, order: { id: 'ASC' } });
+  }
+
+  async findById(id: number): Promise<HolidayCalendarEntity | null> {
+    return this.repository.findOne({ where: { id } });
+  }
+
+  async delete(id: number): Promise<void> {
+    await this.repository.delete({ id });
+  }
+
+  async deleteByLock(lockId: number): Promise<void> {
+    await this.repository.delete({ lockId });
+  }
+
+  async deleteAll(): Promise<void> {
+    await this.repository.clear();
+  }
+}
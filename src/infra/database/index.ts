@@ -4,3 +4,8 @@ export * from './signature-entry.repository';
 export * from './entities';
 export * from './sync-state.repository';
 export * from './lock-config.repository';
+export * from './block-checkpoint.repository';
+export * from './provider-limit.repository';
+export * from './lock-key-history.repository';
+export * from './chain-event-inbox.repository';
+export * from './holiday-calendar.repository';
@@ -4,13 +4,11 @@ import { Repository } from 'typeorm';
 import { LockConfigEntity } from './entities/lock-config.entity';
 
 /**
- * Repository for lock configuration
- * Manages singleton lock config (always id=1)
+ * Repository for the lock registry (one row per lock managed by this gateway)
  */
 @Injectable()
 export class LockConfigRepository {
   private readonly logger = new Logger(LockConfigRepository.name);
-  private readonly SINGLETON_ID = 1;
 
   constructor(
     @InjectRepository(LockConfigEntity)
@@ -18,23 +16,47 @@ export class LockConfigRepository {
   ) {}
 
   /**
-   * Find the current lock configuration
-   * @returns LockConfigEntity or null if not configured
+   * Every configured lock, in the order they were added
    */
-  async findConfig(): Promise<LockConfigEntity | null> {
-    return this.repository.findOne({ where: { id: this.SINGLETON_ID } });
+  async findAll(): Promise<LockConfigEntity[]> {
+    return this.repository.find({ order: { id: 'ASC' } });
   }
 
   /**
-   * Save/update lock configuration
+   * Find a lock's configuration
+   * @returns LockConfigEntity or null if the lock is not configured
+   */
+  async findByLockId(lockId: number): Promise<LockConfigEntity | null> {
+    return this.repository.findOne({ where: { lockId } });
+  }
+
+  /**
+   * Save/update a lock's configuration
    * @param lockId The lock ID to configure
    * @param publicKey The lock's public key
+   * @param signerAddress Address the public key derives to (trusted signer)
+   * @param ownerAddress On-chain owner of the lock
+   * @param nickname Operator-facing name of the door
    */
-  async saveConfig(lockId: number, publicKey: string): Promise<LockConfigEntity> {
+  async saveConfig(
+    lockId: number,
+    publicKey: string,
+    signerAddress: string | null = null,
+    ownerAddress: string | null = null,
+    nickname: string | null = null,
+    location: string | null = null,
+    timeZone: string | null = null,
+  ): Promise<LockConfigEntity> {
+    const existing = await this.findByLockId(lockId);
     const config = this.repository.create({
-      id: this.SINGLETON_ID,
+      ...(existing ? { id: existing.id } : {}),
       lockId,
+      nickname,
+      location,
+      timeZone,
       publicKey,
+      signerAddress,
+      ownerAddress,
     });
 
     await this.repository.save(config);
@@ -43,18 +65,52 @@ export class LockConfigRepository {
   }
 
   /**
-   * Delete the lock configuration (reset)
+   * Update the trusted signer / owner after an on-chain ownership transfer
+   */
+  async updateOwnership(
+    lockId: number,
+    signerAddress: string | null,
+    ownerAddress: string | null,
+  ): Promise<void> {
+    await this.repository.update({ lockId }, { signerAddress, ownerAddress });
+    this.logger.log(
+      `💾 Lock ${lockId} ownership updated: signer=${signerAddress}, owner=${ownerAddress}`,
+    );
+  }
+
+  /**
+   * Replace the trusted public key (re-keying after an ownership transfer)
+   */
+  async updatePublicKey(lockId: number, publicKey: string): Promise<void> {
+    await this.repository.update({ lockId }, { publicKey });
+    this.logger.log(`💾 Lock ${lockId} public key updated`);
+  }
+
+  async updateTimeZone(lockId: number, timeZone: string | null): Promise<void> {
+    await this.repository.update({ lockId }, { timeZone });
+    this.logger.log(`💾 Lock ${lockId} time zone updated`);
+  }
+
+  /**
+   * Remove one lock from the registry
+   */
+  async deleteConfig(lockId: number): Promise<void> {
+    await this.repository.delete({ lockId });
+    this.logger.log(`🗑️  Lock ${lockId} config deleted`);
+  }
+
+  /**
+   * Remove every lock (reset)
    */
-  async deleteConfig(): Promise<void> {
-    await this.repository.delete({ id: this.SINGLETON_ID });
-    this.logger.log(`🗑️  Lock config deleted`);
+  async deleteAll(): Promise<void> {
+    await this.repository.clear();
+    this.logger.log(`🗑️  Lock registry cleared`);
   }
 
   /**
-   * Check if lock is configured
+   * Check if at least one lock is configured
    */
   async isConfigured(): Promise<boolean> {
-    const config = await this.findConfig();
-    return config !== null;
+    return (await this.repository.count()) > 0;
   }
 }
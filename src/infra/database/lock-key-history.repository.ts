@@ -0,0 +1,98 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, LessThanOrEqual, Repository } from 'typeorm';
+import { LockKeyHistoryEntity } from './entities';
+
+/**
+ * Repository for the lock key / ownership history
+ */
+@Injectable()
+export class LockKeyHistoryRepository {
+  private readonly logger = new Logger(LockKeyHistoryRepository.name);
+
+  constructor(
+    @InjectRepository(LockKeyHistoryEntity)
+    private readonly repository: Repository<LockKeyHistoryEntity>,
+  ) {}
+
+  /**
+   * Append a new active entry
+   */
+  async record(entry: Partial<LockKeyHistoryEntity>): Promise<LockKeyHistoryEntity> {
+    const saved = await this.repository.save(
+      this.repository.create({ validFrom: new Date(), validUntil: null, ...entry }),
+    );
+    this.logger.log(`🗝️  Key history entry recorded for lock ${saved.lockId} (${saved.reason})`);
+    return saved;
+  }
+
+  /**
+   * Retire every entry of a lock that is still valid at `validUntil`, at `validUntil`, and
+   * append the new entry - in one transaction, so a failed insert never leaves a lock
+   * without a trusted key
+   * @param options.ownerAddress Owner to attribute the retired entries to, if not already known
+   * @param options.startedBy Only retire entries valid from this time or earlier (keeps
+   *   scheduled rotations)
+   */
+  async retireAndRecord(
+    lockId: number,
+    validUntil: Date,
+    entry: Partial<LockKeyHistoryEntity>,
+    options: { ownerAddress?: string; startedBy?: Date } = {},
+  ): Promise<LockKeyHistoryEntity> {
+    const saved = await this.repository.manager.transaction(async (manager) => {
+      const repository = manager.getRepository(LockKeyHistoryEntity);
+      const active = (await repository.find({ where: { lockId } })).filter(
+        (existing) =>
+          (!existing.validUntil || existing.validUntil.getTime() > validUntil.getTime()) &&
+          (!options.startedBy || existing.validFrom.getTime() <= options.startedBy.getTime()),
+      );
+      for (const existing of active) {
+        existing.validUntil = validUntil;
+        existing.ownerAddress = existing.ownerAddress || options.ownerAddress || null;
+      }
+      await repository.save(active);
+
+      return repository.save(
+        repository.create({ validFrom: new Date(), validUntil: null, ...entry }),
+      );
+    });
+    this.logger.log(`🗝️  Key history entry recorded for lock ${saved.lockId} (${saved.reason})`);
+    return saved;
+  }
+
+  async findActive(lockId: number): Promise<LockKeyHistoryEntity | null> {
+    return this.repository.findOne({
+      where: { lockId, validUntil: IsNull() },
+      order: { validFrom: 'DESC' },
+    });
+  }
+
+  async findByLock(lockId: number): Promise<LockKeyHistoryEntity[]> {
+    return this.repository.find({ where: { lockId }, order: { validFrom: 'DESC' } });
+  }
+
+  /**
+   * Entries whose validity has ended but that are not marked retired yet
+   */
+  async findExpired(lockId: number, now: Date): Promise<LockKeyHistoryEntity[]> {
+    return this.repository.find({
+      where: { lockId, validUntil: LessThanOrEqual(now), retiredAt: IsNull() },
+    });
+  }
+
+  async markRetired(ids: number[], retiredAt: Date): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    await this.repository.update(ids, { retiredAt });
+  }
+
+  async findByTransaction(transactionHash: string): Promise<LockKeyHistoryEntity | null> {
+    return this.repository.findOne({ where: { transactionHash } });
+  }
+
+  async deleteByLock(lockId: number): Promise<void> {
+    await this.repository.delete({ lockId });
+  }
+}
@@ -0,0 +1,33 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash } from 'crypto';
+import { Repository } from 'typeorm';
+import { ProviderLimitEntity } from './entities';
+
+/**
+ * Repository for learned RPC provider limits
+ */
+@Injectable()
+export class ProviderLimitRepository {
+  constructor(
+    @InjectRepository(ProviderLimitEntity)
+    private readonly repo: Repository<ProviderLimitEntity>,
+  ) {}
+
+  private keyFor(rpcUrl: string): string {
+    return createHash('sha256').update(rpcUrl).digest('hex');
+  }
+
+  async getMaxLogsRange(rpcUrl: string): Promise<number | null> {
+    const limit = await this.repo.findOne({ where: { providerKey: this.keyFor(rpcUrl) } });
+    return limit ? limit.maxLogsRange : null;
+  }
+
+  async saveMaxLogsRange(rpcUrl: string, maxLogsRange: number): Promise<void> {
+    const providerKey = this.keyFor(rpcUrl);
+    const existing = await this.repo.findOne({ where: { providerKey } });
+    await this.repo.save(
+      existing ? { ...existing, maxLogsRange } : this.repo.create({ providerKey, maxLogsRange }),
+    );
+  }
+}
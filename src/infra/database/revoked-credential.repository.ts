@@ -1,7 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { RevokedCredentialEntity } from './entities';
+import { In, IsNull, LessThanOrEqual, MoreThan, Repository } from 'typeorm';
+import { RevokedCredentialEntity, RevokedCredentialShadowEntity } from './entities';
 
 /**
  * Repository for revoked credentials
@@ -15,6 +15,31 @@ export class RevokedCredentialRepository {
     private readonly repository: Repository<RevokedCredentialEntity>,
   ) {}
 
+  /**
+   * Primary key of a revocation (the same VC hash can be revoked on several locks)
+   */
+  static revocationId(lockId: string, vcHash: string): string {
+    return `${lockId}:${vcHash}`;
+  }
+
+  /**
+   * Assign rows cached before multi-lock support (no lockId, id = vcHash) to the lock
+   * the gateway was configured with at the time
+   */
+  async adoptLegacyRows(lockId: string): Promise<void> {
+    const legacy = await this.repository.count({ where: { lockId: IsNull() } });
+    if (legacy === 0) {
+      return;
+    }
+    await this.repository.query(
+      `UPDATE "revoked_credentials" SET "lockId" = ?, "id" = ? || "vcHash" WHERE "lockId" IS NULL`,
+      [lockId, RevokedCredentialRepository.revocationId(lockId, '')],
+    );
+    this.logger.log(
+      `Assigned ${legacy} revocation(s) cached before multi-lock support to lock ${lockId}`,
+    );
+  }
+
   /**
    * Save a revoked credential
    */
@@ -28,15 +53,61 @@ export class RevokedCredentialRepository {
   }
 
   /**
-   * Check if a VC hash is revoked
+   * Check if a VC hash is revoked (on the given lock, or on any lock)
    */
-  async isVcHashRevoked(vcHash: string): Promise<boolean> {
+  async isVcHashRevoked(vcHash: string, lockId?: string): Promise<boolean> {
     const count = await this.repository.count({
-      where: { vcHash },
+      where: lockId === undefined ? { vcHash } : { vcHash, lockId },
     });
     return count > 0;
   }
 
+  /**
+   * Find the revocation row for a VC hash (pending or confirmed)
+   * @param lockId Lock the revocation applies to; omitted = any lock
+   */
+  async findByVcHash(vcHash: string, lockId?: string): Promise<RevokedCredentialEntity | null> {
+    return this.repository.findOne({
+      where: lockId === undefined ? { vcHash } : { vcHash, lockId },
+    });
+  }
+
+  /**
+   * Get revocations still waiting for enough confirmations
+   */
+  async findPending(): Promise<RevokedCredentialEntity[]> {
+    return this.repository.find({
+      where: { status: 'pending' },
+      order: { blockNumber: 'ASC' },
+    });
+  }
+
+  /**
+   * Count revocations still waiting for enough confirmations
+   */
+  async countPending(): Promise<number> {
+    return this.repository.count({ where: { status: 'pending' } });
+  }
+
+  /**
+   * Promote pending revocations to confirmed
+   */
+  async markConfirmed(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    await this.repository.update({ id: In(ids) }, { status: 'confirmed' });
+  }
+
+  /**
+   * Delete revocations mined above a block (orphaned by a reorg)
+   * @returns number of rows removed
+   */
+  async deleteAboveBlock(blockNumber: number): Promise<number> {
+    const result = await this.repository.delete({ blockNumber: MoreThan(blockNumber) });
+    return result.affected || 0;
+  }
+
   /**
    * Get all revoked credentials
    */
@@ -60,6 +131,27 @@ export class RevokedCredentialRepository {
     return this.repository.count();
   }
 
+  /**
+   * Get the revocations of one lock
+   */
+  async findByLock(lockId: string): Promise<RevokedCredentialEntity[]> {
+    return this.repository.find({ where: { lockId }, order: { revokedAt: 'DESC' } });
+  }
+
+  /**
+   * Count the revocations of one lock
+   */
+  async countByLock(lockId: string): Promise<number> {
+    return this.repository.count({ where: { lockId } });
+  }
+
+  /**
+   * Count the revocations of one lock in blocks up to `blockNumber`
+   */
+  async countByLockUpToBlock(lockId: string, blockNumber: number): Promise<number> {
+    return this.repository.count({ where: { lockId, blockNumber: LessThanOrEqual(blockNumber) } });
+  }
+
   /**
    * Get recently revoked credentials
    */
@@ -82,4 +174,38 @@ export class RevokedCredentialRepository {
       throw error;
     }
   }
+
+  /**
+   * Replace every revocation of the rescanned locks up to `toBlock` with the result of a
+   * full rescan
+   * Rows are staged in revoked_credentials_shadow first and swapped into the live table
+   * in one transaction, so readers never see a partially rebuilt cache.
+   * Rows above `toBlock` and rows of other locks (not covered by the rescan) are kept.
+   */
+  async replaceFromShadow(
+    revocations: Partial<RevokedCredentialEntity>[],
+    toBlock: number,
+    lockIds: string[],
+  ): Promise<void> {
+    const shadow = this.repository.manager.getRepository(RevokedCredentialShadowEntity);
+    await shadow.clear();
+    await shadow.save(revocations, { chunk: 100 });
+
+    const columns = this.repository.metadata.columns
+      .map((column) => `"${column.databaseName}"`)
+      .join(', ');
+
+    await this.repository.manager.transaction(async (manager) => {
+      await manager.delete(RevokedCredentialEntity, {
+        blockNumber: LessThanOrEqual(toBlock),
+        lockId: In(lockIds),
+      });
+      await manager.query(
+        `INSERT OR REPLACE INTO "revoked_credentials" (${columns}) SELECT ${columns} FROM "revoked_credentials_shadow"`,
+      );
+      await manager.clear(RevokedCredentialShadowEntity);
+    });
+
+    this.logger.log(`Swapped ${revocations.length} rebuilt revocations into revoked_credentials`);
+  }
 }
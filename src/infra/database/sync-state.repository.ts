@@ -1,7 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { SyncStateEntity } from './entities';
+import { RevokedCredentialEntity, SyncStateEntity } from './entities';
 
 @Injectable()
 export class SyncStateRepository {
@@ -14,17 +14,31 @@ export class SyncStateRepository {
     return address.toLowerCase();
   }
 
+  /**
+   * Sync state rows are keyed by chainId; rows from before that are adopted by network name
+   */
   async getOrCreate(
+    chainId: number,
     network: string,
     contractAddress: string,
     lockId: string,
   ): Promise<SyncStateEntity> {
     const normalizedAddress = this.normalize(contractAddress);
     let state = await this.repo.findOne({
-      where: { network, contractAddress: normalizedAddress, lockId },
+      where: { chainId, contractAddress: normalizedAddress, lockId },
     });
+    if (!state) {
+      const legacy = await this.repo.findOne({
+        where: { chainId: 0, network, contractAddress: normalizedAddress, lockId },
+      });
+      if (legacy) {
+        legacy.chainId = chainId;
+        return this.repo.save(legacy);
+      }
+    }
     if (!state) {
       state = this.repo.create({
+        chainId,
         network,
         contractAddress: normalizedAddress,
         lockId,
@@ -35,10 +49,13 @@ export class SyncStateRepository {
     return state;
   }
 
+  /**
+   * Move the sync position of every given lock (they are scanned together)
+   */
   async updateLastSyncedBlock(
-    network: string,
+    chainId: number,
     contractAddress: string,
-    lockId: string,
+    lockIds: string[],
     lastSyncedBlock: number,
   ): Promise<void> {
     const normalizedAddress = this.normalize(contractAddress);
@@ -46,22 +63,92 @@ export class SyncStateRepository {
       .createQueryBuilder()
       .update(SyncStateEntity)
       .set({ lastSyncedBlock })
-      .where('network = :network AND contractAddress = :contractAddress AND lockId = :lockId', {
-        network,
-        contractAddress: normalizedAddress,
-        lockId,
-      })
+      .where(
+        'chainId = :chainId AND contractAddress = :contractAddress AND lockId IN (:...lockIds)',
+        { chainId, contractAddress: normalizedAddress, lockIds },
+      )
+      .execute();
+  }
+
+  /**
+   * Atomically store a scanned chunk's revocations and advance lastSyncedBlock of the
+   * scanned locks
+   * Either both are persisted or neither is, so resume after a crash is exact
+   * @returns number of revocations that were not already stored
+   */
+  async commitChunk(
+    chainId: number,
+    contractAddress: string,
+    lockIds: string[],
+    lastSyncedBlock: number,
+    revocations: Partial<RevokedCredentialEntity>[],
+  ): Promise<number> {
+    const normalizedAddress = this.normalize(contractAddress);
+
+    return this.repo.manager.transaction(async (manager) => {
+      let inserted = 0;
+
+      for (const revocation of revocations) {
+        const existing = await manager.findOne(RevokedCredentialEntity, {
+          where: { id: revocation.id },
+        });
+
+        if (!existing) {
+          await manager.save(RevokedCredentialEntity, revocation);
+          inserted++;
+        } else if (existing.status === 'pending' && revocation.status === 'confirmed') {
+          await manager.update(
+            RevokedCredentialEntity,
+            { id: existing.id },
+            { status: 'confirmed' },
+          );
+        }
+      }
+
+      await manager
+        .createQueryBuilder()
+        .update(SyncStateEntity)
+        .set({ lastSyncedBlock })
+        .where(
+          'chainId = :chainId AND contractAddress = :contractAddress AND lockId IN (:...lockIds)',
+          { chainId, contractAddress: normalizedAddress, lockIds },
+        )
+        .execute();
+
+      return inserted;
+    });
+  }
+
+  /**
+   * Record that the revocation data was complete at `at` (only ever moves forward)
+   */
+  async markSyncCompleted(
+    chainId: number,
+    contractAddress: string,
+    lockIds: string[],
+    at: Date,
+  ): Promise<void> {
+    const normalizedAddress = this.normalize(contractAddress);
+    await this.repo
+      .createQueryBuilder()
+      .update(SyncStateEntity)
+      .set({ lastSyncCompletedAt: at })
+      .where(
+        'chainId = :chainId AND contractAddress = :contractAddress AND lockId IN (:...lockIds)',
+        { chainId, contractAddress: normalizedAddress, lockIds },
+      )
+      .andWhere('(lastSyncCompletedAt IS NULL OR lastSyncCompletedAt < :at)', { at })
       .execute();
   }
 
   async getLastSyncedBlock(
-    network: string,
+    chainId: number,
     contractAddress: string,
     lockId: string,
   ): Promise<number | null> {
     const normalizedAddress = this.normalize(contractAddress);
     const state = await this.repo.findOne({
-      where: { network, contractAddress: normalizedAddress, lockId },
+      where: { chainId, contractAddress: normalizedAddress, lockId },
     });
     return state ? state.lastSyncedBlock : null;
   }